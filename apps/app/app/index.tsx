@@ -8,16 +8,22 @@ import { SignUpScreen } from "../src/screens/auth/SignUpScreen";
 import { ResetPasswordScreen } from "../src/screens/auth/ResetPasswordScreen";
 import { HomeScreen } from "../src/screens/HomeScreen";
 import { SettingsScreen } from "../src/screens/SettingsScreen";
-import { PosePrototypeScreen } from "../src/screens/pose/PosePrototypeScreen";
+import { CalibrationScreen } from "../src/screens/calibration/CalibrationScreen";
+import { WorkoutLauncherScreen } from "../src/screens/workout/WorkoutLauncherScreen";
+import { ScheduleEditorScreen } from "../src/screens/schedule/ScheduleEditorScreen";
+import { OnboardingScreen } from "../src/screens/onboarding/OnboardingScreen";
+import { needsOnboarding } from "../src/services/onboarding";
 
 type AuthView = "login" | "signup" | "reset";
-type AppView = "home" | "pose-prototype" | "settings";
+type AppView = "home" | "workout" | "calibration" | "settings" | "schedule";
 
 export default function Index() {
   const { session, isLoading, initialize } = useAuthStore();
   const { colors } = useTheme();
   const [authView, setAuthView] = useState<AuthView>("login");
   const [appView, setAppView] = useState<AppView>("home");
+  /* Null while we check whether the signed-in user has onboarded */
+  const [onboarding, setOnboarding] = useState<boolean | null>(null);
 
   useEffect(() => {
     const unsubscribe = initialize();
@@ -31,7 +37,26 @@ export default function Index() {
     }
   }, [session?.userId]);
 
-  if (isLoading) {
+  /* New users go through onboarding before anything else */
+  useEffect(() => {
+    if (!session?.userId) return;
+    let cancelled = false;
+    setOnboarding(null);
+
+    needsOnboarding(session.userId)
+      .then((needed) => {
+        if (!cancelled) setOnboarding(needed);
+      })
+      .catch(() => {
+        if (!cancelled) setOnboarding(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session?.userId]);
+
+  if (isLoading || (session && onboarding === null)) {
     return (
       <View style={[styles.loading, { backgroundColor: colors.background }]}>
         <ActivityIndicator size="large" color={colors.primary} />
@@ -40,16 +65,27 @@ export default function Index() {
   }
 
   if (session) {
-    if (appView === "pose-prototype") {
-      return <PosePrototypeScreen onBack={() => setAppView("home")} />;
+    if (onboarding) {
+      return <OnboardingScreen onComplete={() => setOnboarding(false)} />;
+    }
+    if (appView === "workout") {
+      return <WorkoutLauncherScreen onBack={() => setAppView("home")} />;
+    }
+    if (appView === "calibration") {
+      return <CalibrationScreen onBack={() => setAppView("home")} />;
     }
     if (appView === "settings") {
       return <SettingsScreen onBack={() => setAppView("home")} />;
     }
+    if (appView === "schedule") {
+      return <ScheduleEditorScreen onBack={() => setAppView("home")} />;
+    }
     return (
       <HomeScreen
-        onNavigateToPosePrototype={() => setAppView("pose-prototype")}
+        onNavigateToWorkout={() => setAppView("workout")}
+        onNavigateToCalibration={() => setAppView("calibration")}
         onNavigateToSettings={() => setAppView("settings")}
+        onNavigateToSchedule={() => setAppView("schedule")}
       />
     );
   }
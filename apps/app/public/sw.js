@@ -0,0 +1,83 @@
+/**
+ * Service Worker
+ *
+ * Shows workout notifications sent by Web Push, with Confirm and
+ * Skip actions. Each action calls the session's token-protected
+ * schedule/confirm or schedule/skip link from the payload, so it
+ * works without opening the app. Confirming (or tapping the
+ * notification itself) then focuses or opens the app.
+ */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  const payload = event.data.json();
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      actions: payload.actions,
+      data: payload.data,
+      requireInteraction: true,
+    }),
+  );
+});
+
+/** Focus an open app window, or open one */
+async function openApp() {
+  const windows = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+  const existing = windows.find((client) =>
+    client.url.startsWith(self.registration.scope),
+  );
+  if (existing) return existing.focus();
+  return self.clients.openWindow(self.registration.scope);
+}
+
+/** Call a confirm/skip link; tell the user if it didn't go through */
+async function respond(url, tag) {
+  try {
+    const response = await fetch(url);
+    if (response.ok) return true;
+
+    const json = await response.json().catch(() => null);
+    await self.registration.showNotification("Musclaris", {
+      body: (json && json.error) || "That didn't go through.",
+      tag,
+    });
+  } catch {
+    await self.registration.showNotification("Musclaris", {
+      body: "You're offline, so that didn't go through.",
+      tag,
+    });
+  }
+  return false;
+}
+
+self.addEventListener("notificationclick", (event) => {
+  const notification = event.notification;
+  const data = notification.data || {};
+  notification.close();
+
+  if (event.action === "confirm") {
+    event.waitUntil(
+      respond(data.confirmUrl, notification.tag).then((ok) =>
+        ok ? openApp() : undefined,
+      ),
+    );
+  } else if (event.action === "skip") {
+    event.waitUntil(respond(data.skipUrl, notification.tag));
+  } else {
+    event.waitUntil(openApp());
+  }
+});
@@ -1,11 +1,13 @@
 declare module "@env" {
   export const EXPO_PUBLIC_SUPABASE_URL: string;
   export const EXPO_PUBLIC_SUPABASE_PUBLISHABLE_KEY: string;
+  export const EXPO_PUBLIC_API_URL: string | undefined;
 }
 
 declare namespace NodeJS {
   interface ProcessEnv {
     EXPO_PUBLIC_SUPABASE_URL: string;
     EXPO_PUBLIC_SUPABASE_PUBLISHABLE_KEY: string;
+    EXPO_PUBLIC_API_URL?: string;
   }
 }
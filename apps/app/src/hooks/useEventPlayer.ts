@@ -0,0 +1,175 @@
+/**
+ * useEventPlayer Hook
+ *
+ * Loads an exercise's event file and plays its timeline alongside
+ * the workout video. Exposes the caption, tip and transition to
+ * render over the video, plus controls to keep the timeline in
+ * sync with video playback.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createEventPlayer, loadEventFile } from "@myonites/shared";
+import type {
+  EventEmission,
+  EventPlayer,
+  EventType,
+  TimedEvent,
+} from "@myonites/shared";
+
+/** How often the timeline is checked for new events */
+const TICK_INTERVAL_MS = 100;
+/** How long an instant event (no end time) stays on screen */
+const FLASH_DURATION_MS = 3000;
+
+interface UseEventPlayerReturn {
+  isLoading: boolean;
+  error: string | null;
+  /** Every duration event currently on screen */
+  activeEvents: TimedEvent[];
+  caption: TimedEvent | null;
+  tip: TimedEvent | null;
+  transition: TimedEvent | null;
+  /** Latest instant event, cleared after a few seconds */
+  flash: TimedEvent | null;
+  /** Events fired by form analysis rather than the timeline */
+  triggeredEvents: TimedEvent[];
+  play: () => void;
+  pause: () => void;
+  seek: (positionMs: number) => void;
+  setRate: (rate: number) => void;
+}
+
+/** Most recently started active event of the given type */
+function latestOfType(
+  events: TimedEvent[],
+  type: EventType,
+): TimedEvent | null {
+  return events.filter((event) => event.type === type).at(-1) ?? null;
+}
+
+export function useEventPlayer(
+  eventFileUrl: string | null,
+): UseEventPlayerReturn {
+  const playerRef = useRef<EventPlayer | null>(null);
+  const flashExpiresAtRef = useRef<number>(0);
+  /* Remembers play() calls made while the file is still loading */
+  const wantsPlayRef = useRef<boolean>(false);
+
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeEvents, setActiveEvents] = useState<TimedEvent[]>([]);
+  const [flash, setFlash] = useState<TimedEvent | null>(null);
+  const [triggeredEvents, setTriggeredEvents] = useState<TimedEvent[]>([]);
+
+  /* Push player emissions into React state */
+  const applyEmissions = useCallback((emissions: EventEmission[]) => {
+    const player = playerRef.current;
+    if (!player || emissions.length === 0) return;
+
+    setActiveEvents(player.getActiveEvents());
+
+    const instant = emissions
+      .filter((e) => e.kind === "start" && e.event.timestampEnd === null)
+      .at(-1);
+    if (instant) {
+      flashExpiresAtRef.current = performance.now() + FLASH_DURATION_MS;
+      setFlash(instant.event);
+    }
+  }, []);
+
+  /* Load the event file whenever the exercise changes */
+  useEffect(() => {
+    playerRef.current = null;
+    setActiveEvents([]);
+    setFlash(null);
+    setTriggeredEvents([]);
+    setError(null);
+
+    if (!eventFileUrl) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    loadEventFile(eventFileUrl)
+      .then((file) => {
+        if (cancelled) return;
+        const player = createEventPlayer(file, {
+          now: () => performance.now(),
+        });
+        if (wantsPlayRef.current) player.play();
+        playerRef.current = player;
+        setTriggeredEvents(player.getTriggeredEvents());
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load events");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventFileUrl]);
+
+  /* Tick loop: advance the timeline and expire flashed events */
+  useEffect(() => {
+    if (isLoading) return;
+
+    const interval = setInterval(() => {
+      const player = playerRef.current;
+      if (player) applyEmissions(player.tick());
+
+      if (
+        flashExpiresAtRef.current > 0 &&
+        performance.now() >= flashExpiresAtRef.current
+      ) {
+        flashExpiresAtRef.current = 0;
+        setFlash(null);
+      }
+    }, TICK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isLoading, applyEmissions]);
+
+  const play = useCallback(() => {
+    wantsPlayRef.current = true;
+    playerRef.current?.play();
+  }, []);
+
+  const pause = useCallback(() => {
+    wantsPlayRef.current = false;
+    playerRef.current?.pause();
+  }, []);
+
+  const seek = useCallback(
+    (positionMs: number) => {
+      const player = playerRef.current;
+      if (player) applyEmissions(player.seek(positionMs));
+    },
+    [applyEmissions],
+  );
+
+  const setRate = useCallback((rate: number) => {
+    playerRef.current?.setRate(rate);
+  }, []);
+
+  return {
+    isLoading,
+    error,
+    activeEvents,
+    caption: latestOfType(activeEvents, "caption"),
+    tip: latestOfType(activeEvents, "tip"),
+    transition: latestOfType(activeEvents, "transition"),
+    flash,
+    triggeredEvents,
+    play,
+    pause,
+    seek,
+    setRate,
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * useFormTracking Hook
+ *
+ * Runs the camera and pose estimator for a whole workout and
+ * scores each exercise as it plays: counts reps, scores form per
+ * rep, and fires triggered events (corrections, encouragement).
+ * Web-only, like the pose pipeline it wraps.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import {
+  createFormScorer,
+  createRepCounter,
+  createTriggerEvaluator,
+  measureFrameDeviations,
+} from "@myonites/shared";
+import type {
+  Exercise,
+  FormScore,
+  FormScorer,
+  PoseLandmarks,
+  RepCounter,
+  TimedEvent,
+  TriggerEvaluator,
+  WorkspaceCalibration,
+} from "@myonites/shared";
+import { startCamera, isCameraSupported } from "../services/camera/camera.web";
+import { createPoseEstimator } from "../services/pose/pose.web";
+import type { PoseEstimator } from "../services/pose/pose.web";
+import { drawSkeleton } from "../services/pose/drawLandmarks";
+
+/** How long a triggered event stays on screen */
+const TRIGGERED_DISPLAY_MS = 3000;
+
+type TrackingStatus = "idle" | "loading" | "tracking" | "error";
+
+export interface ExerciseTrackingResult {
+  formScores: FormScore[];
+  repCount: number;
+}
+
+interface UseFormTrackingReturn {
+  /** Attach to the camera preview container and its overlay canvas */
+  containerRef: RefObject<HTMLDivElement | null>;
+  canvasRef: RefObject<HTMLCanvasElement | null>;
+  status: TrackingStatus;
+  error: string | null;
+  repCount: number;
+  lastScore: FormScore | null;
+  /** Most recent triggered event, cleared after a few seconds */
+  triggeredEvent: TimedEvent | null;
+  start: () => Promise<void>;
+  beginExercise: (exercise: Exercise) => void;
+  /** Replace the triggered events evaluated for the current exercise */
+  setTriggeredEvents: (events: TimedEvent[]) => void;
+  finishExercise: () => ExerciseTrackingResult;
+  stop: () => void;
+}
+
+export function useFormTracking(
+  calibration: WorkspaceCalibration | null,
+): UseFormTrackingReturn {
+  /* Refs for per-frame values — avoid triggering re-renders at 60fps */
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const estimatorRef = useRef<PoseEstimator | null>(null);
+  const stopCameraRef = useRef<(() => void) | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const scorerRef = useRef<FormScorer | null>(null);
+  const counterRef = useRef<RepCounter | null>(null);
+  const triggersRef = useRef<TriggerEvaluator | null>(null);
+  const triggeredTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
+
+  /* State for UI changes that need re-renders */
+  const [status, setStatus] = useState<TrackingStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [repCount, setRepCount] = useState<number>(0);
+  const [lastScore, setLastScore] = useState<FormScore | null>(null);
+  const [triggeredEvent, setTriggeredEvent] = useState<TimedEvent | null>(null);
+
+  const showTriggered = useCallback((event: TimedEvent) => {
+    if (triggeredTimeoutRef.current) clearTimeout(triggeredTimeoutRef.current);
+    setTriggeredEvent(event);
+    triggeredTimeoutRef.current = setTimeout(
+      () => setTriggeredEvent(null),
+      TRIGGERED_DISPLAY_MS,
+    );
+  }, []);
+
+  /**
+   * Release all resources. Order matters:
+   * animation loop → estimator → camera → video element
+   */
+  const stop = useCallback(() => {
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+
+    if (estimatorRef.current) {
+      estimatorRef.current.dispose();
+      estimatorRef.current = null;
+    }
+
+    if (stopCameraRef.current) {
+      stopCameraRef.current();
+      stopCameraRef.current = null;
+    }
+
+    if (videoRef.current && videoRef.current.parentNode) {
+      videoRef.current.parentNode.removeChild(videoRef.current);
+      videoRef.current = null;
+    }
+
+    if (triggeredTimeoutRef.current) {
+      clearTimeout(triggeredTimeoutRef.current);
+      triggeredTimeoutRef.current = null;
+    }
+
+    setStatus("idle");
+  }, []);
+
+  /** Score one pose frame against the current exercise */
+  const processPose = useCallback(
+    (pose: PoseLandmarks, now: number) => {
+      const scorer = scorerRef.current;
+      if (!scorer) return;
+
+      const frame = scorer.addFrame(pose);
+      const fired =
+        triggersRef.current?.addDeviations(
+          measureFrameDeviations(frame, scorer.getCriteria()),
+          now,
+        ) ?? [];
+
+      const rep = counterRef.current?.addFrame(pose);
+      if (rep) {
+        const score = scorer.completeRep();
+        if (score) {
+          setLastScore(score);
+          fired.push(...(triggersRef.current?.addScore(score, now) ?? []));
+        }
+        setRepCount(rep.repNumber);
+      }
+
+      const latest = fired.at(-1);
+      if (latest) showTriggered(latest);
+    },
+    [showTriggered],
+  );
+
+  /** Start the camera and pose estimator, then the frame loop */
+  const start = useCallback(async () => {
+    setStatus("loading");
+    setError(null);
+
+    try {
+      if (!isCameraSupported()) {
+        throw new Error(
+          "Camera is not supported in this browser. " +
+            "Make sure you are using HTTPS (or localhost) and a modern browser.",
+        );
+      }
+
+      const camera = await startCamera({ width: 640, height: 480 });
+      videoRef.current = camera.videoElement;
+      stopCameraRef.current = camera.stop;
+
+      const estimator = createPoseEstimator({
+        delegate: "GPU",
+        numPoses: 1,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+        minPresenceConfidence: 0.5,
+      });
+      await estimator.init();
+      estimatorRef.current = estimator;
+
+      /* Attach video behind the canvas in the DOM stacking order */
+      if (containerRef.current && videoRef.current) {
+        const video = videoRef.current;
+        video.style.width = "100%";
+        video.style.height = "100%";
+        video.style.objectFit = "cover";
+        video.style.transform = "scaleX(-1)";
+        video.style.position = "absolute";
+        video.style.top = "0";
+        video.style.left = "0";
+        containerRef.current.insertBefore(video, canvasRef.current);
+      }
+
+      if (canvasRef.current && videoRef.current) {
+        canvasRef.current.width = videoRef.current.videoWidth;
+        canvasRef.current.height = videoRef.current.videoHeight;
+      }
+
+      setStatus("tracking");
+
+      /* Frame loop: detect pose → draw skeleton → score */
+      const processFrame = () => {
+        if (!estimatorRef.current || !videoRef.current) return;
+
+        const now = performance.now();
+        const poseResult = estimatorRef.current.detectPose(
+          videoRef.current,
+          now,
+        );
+
+        const ctx = canvasRef.current?.getContext("2d");
+        if (ctx) {
+          drawSkeleton(ctx, poseResult ? poseResult.normalizedLandmarks : null);
+        }
+
+        if (poseResult) processPose(poseResult.worldLandmarks, now);
+
+        animationFrameRef.current = requestAnimationFrame(processFrame);
+      };
+
+      animationFrameRef.current = requestAnimationFrame(processFrame);
+    } catch (err) {
+      stop();
+      setError(err instanceof Error ? err.message : "Failed to start camera");
+      setStatus("error");
+    }
+  }, [processPose, stop]);
+
+  /** Reset scoring for the next exercise */
+  const beginExercise = useCallback(
+    (exercise: Exercise) => {
+      scorerRef.current = createFormScorer(exercise.formCriteria, {
+        calibration,
+        exercisePosition: exercise.position,
+      });
+
+      /* Exercises without angle ranges are played but not rep-counted */
+      try {
+        counterRef.current = createRepCounter(exercise.formCriteria, {
+          rangeOfMotionFactor: calibration?.rangeOfMotionFactor ?? 1,
+        });
+      } catch {
+        counterRef.current = null;
+      }
+
+      triggersRef.current = createTriggerEvaluator([]);
+      setRepCount(0);
+      setLastScore(null);
+    },
+    [calibration],
+  );
+
+  const setTriggeredEvents = useCallback((events: TimedEvent[]) => {
+    if (scorerRef.current) {
+      triggersRef.current = createTriggerEvaluator(events);
+    }
+  }, []);
+
+  /** Stop scoring the current exercise and return its results */
+  const finishExercise = useCallback((): ExerciseTrackingResult => {
+    const result: ExerciseTrackingResult = {
+      formScores: scorerRef.current?.getScores() ?? [],
+      repCount: counterRef.current?.getCount() ?? 0,
+    };
+
+    scorerRef.current = null;
+    counterRef.current = null;
+    triggersRef.current = null;
+    return result;
+  }, []);
+
+  /* Clean up all resources on unmount */
+  useEffect(() => {
+    return () => {
+      stop();
+    };
+  }, [stop]);
+
+  return {
+    containerRef,
+    canvasRef,
+    status,
+    error,
+    repCount,
+    lastScore,
+    triggeredEvent,
+    start,
+    beginExercise,
+    setTriggeredEvents,
+    finishExercise,
+    stop,
+  };
+}
@@ -10,13 +10,17 @@ import { useAuthStore } from "../store/authStore";
 import { useTheme } from "../hooks/useTheme";
 
 interface HomeScreenProps {
-  onNavigateToPosePrototype: () => void;
+  onNavigateToWorkout: () => void;
+  onNavigateToCalibration: () => void;
   onNavigateToSettings: () => void;
+  onNavigateToSchedule: () => void;
 }
 
 export function HomeScreen({
-  onNavigateToPosePrototype,
+  onNavigateToWorkout,
+  onNavigateToCalibration,
   onNavigateToSettings,
+  onNavigateToSchedule,
 }: HomeScreenProps) {
   const { session, signOut } = useAuthStore();
   const { colors } = useTheme();
@@ -59,14 +63,38 @@ export function HomeScreen({
       {Platform.OS === "web" && (
         <TouchableOpacity
           style={[styles.prototypeButton, { backgroundColor: colors.primary }]}
-          onPress={onNavigateToPosePrototype}>
+          onPress={onNavigateToWorkout}>
           <Text
             style={[styles.prototypeButtonText, { color: colors.primaryText }]}>
-            Pose Estimation Prototype
+            Start Workout
           </Text>
         </TouchableOpacity>
       )}
 
+      {Platform.OS === "web" && (
+        <TouchableOpacity
+          style={[
+            styles.settingsButton,
+            { backgroundColor: colors.surface, borderColor: colors.border },
+          ]}
+          onPress={onNavigateToCalibration}>
+          <Text style={[styles.settingsButtonText, { color: colors.text }]}>
+            Calibrate Workspace
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity
+        style={[
+          styles.settingsButton,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+        ]}
+        onPress={onNavigateToSchedule}>
+        <Text style={[styles.settingsButtonText, { color: colors.text }]}>
+          Today's Schedule
+        </Text>
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={[
           styles.settingsButton,
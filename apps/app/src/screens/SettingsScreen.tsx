@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import {
   StyleSheet,
   Text,
@@ -8,6 +9,18 @@ import {
 import { useTheme } from "../hooks/useTheme";
 import { useAuthStore } from "../store/authStore";
 import { pushThemeToSupabase } from "../services/themeSync";
+import {
+  loadCalendarFeedUrl,
+  resetCalendarFeed,
+  disableCalendarFeed,
+} from "../services/calendarFeed";
+import {
+  isPushSupported,
+  loadNotificationChannel,
+  enablePushNotifications,
+  disablePushNotifications,
+} from "../services/pushNotifications";
+import type { NotificationChannel } from "@myonites/shared";
 import type { ThemePreference } from "../store/themeStore";
 
 interface SettingsScreenProps {
@@ -23,6 +36,29 @@ const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
 export function SettingsScreen({ onBack }: SettingsScreenProps) {
   const { colors, preference, setPreference } = useTheme();
   const { session } = useAuthStore();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedBusy, setFeedBusy] = useState(false);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [channel, setChannel] = useState<NotificationChannel | null>(null);
+  const [pushBusy, setPushBusy] = useState(false);
+  const [pushError, setPushError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session?.userId) return;
+    loadCalendarFeedUrl(session.userId)
+      .then(setFeedUrl)
+      .catch((err) => {
+        setFeedUrl(null);
+        setFeedError(
+          err instanceof Error
+            ? err.message
+            : "Couldn't load the calendar feed.",
+        );
+      });
+    loadNotificationChannel(session.userId)
+      .then(setChannel)
+      .catch(() => setChannel(null));
+  }, [session?.userId]);
 
   const handleThemeChange = (value: ThemePreference) => {
     setPreference(value);
@@ -31,6 +67,49 @@ export function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
+  const handleFeedChange = async (enable: boolean) => {
+    if (!session?.userId) return;
+    setFeedBusy(true);
+    setFeedError(null);
+    try {
+      if (enable) {
+        setFeedUrl(await resetCalendarFeed(session.userId));
+      } else {
+        await disableCalendarFeed(session.userId);
+        setFeedUrl(null);
+      }
+    } catch (err) {
+      setFeedError(
+        err instanceof Error
+          ? err.message
+          : "Couldn't change the calendar feed.",
+      );
+    } finally {
+      setFeedBusy(false);
+    }
+  };
+
+  const handlePushChange = async (enable: boolean) => {
+    if (!session?.userId) return;
+    setPushBusy(true);
+    setPushError(null);
+    try {
+      if (enable) {
+        await enablePushNotifications(session.userId);
+        setChannel("push");
+      } else {
+        await disablePushNotifications(session.userId);
+        setChannel("email");
+      }
+    } catch (err) {
+      setPushError(
+        err instanceof Error ? err.message : "Couldn't change notifications.",
+      );
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: colors.background }]}
@@ -78,6 +157,94 @@ export function SettingsScreen({ onBack }: SettingsScreenProps) {
           );
         })}
       </View>
+
+      <View
+        style={[
+          styles.section,
+          styles.sectionSpacing,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+        ]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>
+          Calendar Feed
+        </Text>
+        <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+          Subscribe to this link in Outlook or Google Calendar so your confirmed
+          sessions block time on your work calendar.
+        </Text>
+
+        {feedUrl && (
+          <Text
+            selectable
+            style={[
+              styles.feedUrl,
+              { color: colors.text, borderColor: colors.border },
+            ]}>
+            {feedUrl}
+          </Text>
+        )}
+
+        {feedError && (
+          <Text style={[styles.helpText, { color: colors.danger }]}>
+            {feedError}
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.option, { borderColor: colors.border }]}
+          disabled={feedBusy}
+          onPress={() => handleFeedChange(true)}>
+          <Text style={[styles.optionText, { color: colors.text }]}>
+            {feedUrl ? "Reset Link" : "Turn On"}
+          </Text>
+        </TouchableOpacity>
+
+        {feedUrl && (
+          <TouchableOpacity
+            style={[styles.option, { borderColor: colors.border }]}
+            disabled={feedBusy}
+            onPress={() => handleFeedChange(false)}>
+            <Text style={[styles.optionText, { color: colors.danger }]}>
+              Turn Off
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isPushSupported() && (
+        <View
+          style={[
+            styles.section,
+            styles.sectionSpacing,
+            { backgroundColor: colors.surface, borderColor: colors.border },
+          ]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            Browser Notifications
+          </Text>
+          <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+            Get each session as a notification in this browser, with Confirm and
+            Skip buttons, instead of by email.
+          </Text>
+
+          {pushError && (
+            <Text style={[styles.helpText, { color: colors.danger }]}>
+              {pushError}
+            </Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.option, { borderColor: colors.border }]}
+            disabled={pushBusy}
+            onPress={() => handlePushChange(channel !== "push")}>
+            <Text
+              style={[
+                styles.optionText,
+                { color: channel === "push" ? colors.danger : colors.text },
+              ]}>
+              {channel === "push" ? "Turn Off" : "Turn On"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </ScrollView>
   );
 }
@@ -116,6 +283,9 @@ const styles = StyleSheet.create({
     padding: 20,
     borderWidth: 1,
   },
+  sectionSpacing: {
+    marginTop: 16,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: "600",
@@ -133,4 +303,16 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: "500",
   },
+  helpText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  feedUrl: {
+    fontSize: 13,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
 });
@@ -0,0 +1,547 @@
+/**
+ * Workspace Calibration Screen
+ *
+ * Guides the user through a few reference movements in front of the
+ * camera, infers whether they're seated or standing, and saves the
+ * resulting WorkspaceCalibration to their profile.
+ * Web-only until native pose estimation lands.
+ */
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { createCalibrationSession } from "@myonites/shared";
+import type {
+  CalibrationMovement,
+  CalibrationSession,
+  WorkspaceCalibration,
+} from "@myonites/shared";
+import {
+  startCamera,
+  isCameraSupported,
+} from "../../services/camera/camera.web";
+import { createPoseEstimator } from "../../services/pose/pose.web";
+import type { PoseEstimator } from "../../services/pose/pose.web";
+import { drawSkeleton } from "../../services/pose/drawLandmarks";
+import { saveWorkspaceCalibration } from "../../services/calibration";
+import { useAuthStore } from "../../store/authStore";
+import { useTheme } from "../../hooks/useTheme";
+
+type ScreenState =
+  "idle" | "loading" | "calibrating" | "review" | "saving" | "saved" | "error";
+
+interface CalibrationScreenProps {
+  onBack: () => void;
+}
+
+export function CalibrationScreen({ onBack }: CalibrationScreenProps) {
+  const { session } = useAuthStore();
+  const { colors } = useTheme();
+
+  /* Refs for per-frame values — avoid triggering re-renders at 60fps */
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const estimatorRef = useRef<PoseEstimator | null>(null);
+  const stopCameraRef = useRef<(() => void) | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const calibrationRef = useRef<CalibrationSession | null>(null);
+  const stepStartedAtRef = useRef<number>(0);
+
+  /* State for UI changes that need re-renders */
+  const [screenState, setScreenState] = useState<ScreenState>("idle");
+  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [movement, setMovement] = useState<CalibrationMovement | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number>(0);
+  const [result, setResult] = useState<WorkspaceCalibration | null>(null);
+
+  /**
+   * Release all resources. Order matters:
+   * animation loop → estimator → camera → video element
+   */
+  const cleanup = useCallback(() => {
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+
+    if (estimatorRef.current) {
+      estimatorRef.current.dispose();
+      estimatorRef.current = null;
+    }
+
+    if (stopCameraRef.current) {
+      stopCameraRef.current();
+      stopCameraRef.current = null;
+    }
+
+    if (videoRef.current && videoRef.current.parentNode) {
+      videoRef.current.parentNode.removeChild(videoRef.current);
+      videoRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Start the camera and pose estimator, then record frames for each
+   * reference movement in turn. Each movement runs for its own duration.
+   */
+  const startCalibration = useCallback(async () => {
+    setScreenState("loading");
+    setErrorMessage("");
+    setResult(null);
+
+    try {
+      if (!isCameraSupported()) {
+        throw new Error(
+          "Camera is not supported in this browser. " +
+            "Make sure you are using HTTPS (or localhost) and a modern browser.",
+        );
+      }
+
+      const camera = await startCamera({ width: 640, height: 480 });
+      videoRef.current = camera.videoElement;
+      stopCameraRef.current = camera.stop;
+
+      const estimator = createPoseEstimator({
+        delegate: "GPU",
+        numPoses: 1,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+        minPresenceConfidence: 0.5,
+      });
+      await estimator.init();
+      estimatorRef.current = estimator;
+
+      /* Attach video behind the canvas in the DOM stacking order */
+      if (containerRef.current && videoRef.current) {
+        const video = videoRef.current;
+        video.style.width = "100%";
+        video.style.height = "100%";
+        video.style.objectFit = "cover";
+        video.style.transform = "scaleX(-1)";
+        video.style.position = "absolute";
+        video.style.top = "0";
+        video.style.left = "0";
+        containerRef.current.insertBefore(video, canvasRef.current);
+      }
+
+      if (canvasRef.current && videoRef.current) {
+        canvasRef.current.width = videoRef.current.videoWidth;
+        canvasRef.current.height = videoRef.current.videoHeight;
+      }
+
+      const calibration = createCalibrationSession();
+      calibrationRef.current = calibration;
+      stepStartedAtRef.current = performance.now();
+      setMovement(calibration.getCurrentMovement());
+      setScreenState("calibrating");
+
+      /* Frame loop: detect pose → record for current movement → advance on time */
+      const processFrame = () => {
+        const current = calibrationRef.current;
+        if (!estimatorRef.current || !videoRef.current || !current) return;
+
+        const now = performance.now();
+        const poseResult = estimatorRef.current.detectPose(
+          videoRef.current,
+          now,
+        );
+
+        if (poseResult) current.addFrame(poseResult.worldLandmarks);
+
+        const ctx = canvasRef.current?.getContext("2d");
+        if (ctx) {
+          drawSkeleton(ctx, poseResult ? poseResult.normalizedLandmarks : null);
+        }
+
+        const step = current.getCurrentMovement();
+        if (step && now - stepStartedAtRef.current >= step.durationMs) {
+          const next = current.advance();
+          stepStartedAtRef.current = now;
+          setMovement(next);
+        }
+
+        if (current.isComplete()) {
+          setResult(current.finish());
+          cleanup();
+          setScreenState("review");
+          return;
+        }
+
+        animationFrameRef.current = requestAnimationFrame(processFrame);
+      };
+
+      animationFrameRef.current = requestAnimationFrame(processFrame);
+    } catch (error) {
+      cleanup();
+      const message =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      setErrorMessage(message);
+      setScreenState("error");
+    }
+  }, [cleanup]);
+
+  const handleSave = async () => {
+    if (!result || !session?.userId) return;
+    setScreenState("saving");
+
+    try {
+      await saveWorkspaceCalibration(session.userId, result);
+      setScreenState("saved");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to save calibration";
+      setErrorMessage(message);
+      setScreenState("error");
+    }
+  };
+
+  /* Countdown for the current movement, refreshed every 250ms */
+  useEffect(() => {
+    if (screenState !== "calibrating" || !movement) return;
+
+    const interval = setInterval(() => {
+      const elapsed = performance.now() - stepStartedAtRef.current;
+      setSecondsLeft(
+        Math.max(0, Math.ceil((movement.durationMs - elapsed) / 1000)),
+      );
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [screenState, movement]);
+
+  /* Clean up all resources on unmount */
+  useEffect(() => {
+    return () => {
+      cleanup();
+    };
+  }, [cleanup]);
+
+  if (Platform.OS !== "web") {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.title, { color: colors.text }]}>
+          Workspace Calibration
+        </Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          Calibration is web-only for now. Native support will follow pose
+          estimation on mobile.
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.buttonSecondary }]}
+          onPress={onBack}>
+          <Text
+            style={[styles.buttonText, { color: colors.buttonSecondaryText }]}>
+            Back to Home
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const movementCount = calibrationRef.current
+    ? calibrationRef.current.getResults().length
+    : 0;
+  const stepNumber = calibrationRef.current
+    ? calibrationRef.current.getStepIndex() + 1
+    : 0;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Text style={[styles.title, { color: colors.text }]}>
+        Workspace Calibration
+      </Text>
+
+      {screenState === "idle" && (
+        <View style={styles.content}>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            We'll ask you to do a few simple movements so workouts can be scored
+            fairly for your space and mobility.
+          </Text>
+          <Text style={[styles.instructions, { color: colors.textTertiary }]}>
+            Sit or stand the way you normally would for a workout, with your
+            upper body in view of the camera.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={startCalibration}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Start Calibration
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: colors.buttonSecondary, marginTop: 12 },
+            ]}
+            onPress={onBack}>
+            <Text
+              style={[
+                styles.buttonText,
+                { color: colors.buttonSecondaryText },
+              ]}>
+              Back to Home
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {screenState === "loading" && (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={[styles.instructions, { color: colors.textTertiary }]}>
+            Starting camera and downloading the AI model. This may take a few
+            seconds on first use.
+          </Text>
+        </View>
+      )}
+
+      {screenState === "calibrating" && movement && (
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.surface, shadowColor: colors.shadow },
+          ]}>
+          <Text style={[styles.stepLabel, { color: colors.textTertiary }]}>
+            Step {stepNumber} of {movementCount}
+          </Text>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>
+            {movement.label}
+          </Text>
+          <Text style={[styles.cardBody, { color: colors.textSecondary }]}>
+            {movement.instruction}
+          </Text>
+          <Text style={[styles.countdown, { color: colors.primary }]}>
+            {secondsLeft}s
+          </Text>
+        </View>
+      )}
+
+      {(screenState === "review" || screenState === "saving") && result && (
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.surface, shadowColor: colors.shadow },
+          ]}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>
+            Calibration complete
+          </Text>
+          <View style={styles.statRow}>
+            <Text style={[styles.statLabel, { color: colors.textTertiary }]}>
+              Position
+            </Text>
+            <Text style={[styles.statValue, { color: colors.text }]}>
+              {result.position === "seated" ? "Seated" : "Standing"}
+            </Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={[styles.statLabel, { color: colors.textTertiary }]}>
+              Range of motion
+            </Text>
+            <Text style={[styles.statValue, { color: colors.text }]}>
+              {Math.round(result.rangeOfMotionFactor * 100)}%
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            disabled={screenState === "saving"}
+            onPress={handleSave}>
+            {screenState === "saving" ? (
+              <ActivityIndicator color={colors.primaryText} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+                Save
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              { backgroundColor: colors.buttonSecondary, marginTop: 12 },
+            ]}
+            disabled={screenState === "saving"}
+            onPress={startCalibration}>
+            <Text
+              style={[
+                styles.buttonText,
+                { color: colors.buttonSecondaryText },
+              ]}>
+              Redo
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {screenState === "saved" && (
+        <View style={styles.content}>
+          <Text style={[styles.subtitle, { color: colors.success }]}>
+            Calibration saved. Your workouts will now be scored for your
+            workspace.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={onBack}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Back to Home
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {screenState === "error" && (
+        <View style={styles.content}>
+          <View
+            style={[
+              styles.errorBox,
+              { backgroundColor: colors.dangerBackground },
+            ]}>
+            <Text style={[styles.errorText, { color: colors.dangerText }]}>
+              {errorMessage}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={() => {
+              setScreenState("idle");
+              setErrorMessage("");
+            }}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Try Again
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Video + canvas container. Always mounted, hidden when not calibrating. */}
+      <div
+        ref={containerRef}
+        style={{
+          display: screenState === "calibrating" ? "block" : "none",
+          position: "relative",
+          width: "100%",
+          maxWidth: 640,
+          aspectRatio: "4/3",
+          backgroundColor: "#000",
+          borderRadius: 12,
+          overflow: "hidden",
+          alignSelf: "center",
+          marginTop: 16,
+        }}>
+        <canvas
+          ref={canvasRef}
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            zIndex: 10,
+            transform: "scaleX(-1)",
+          }}
+        />
+      </div>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 24,
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 16,
+  },
+  content: {
+    width: "100%",
+    maxWidth: 480,
+    alignItems: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  instructions: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: "center",
+    marginVertical: 16,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    width: "100%",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  card: {
+    borderRadius: 12,
+    padding: 20,
+    width: "100%",
+    maxWidth: 480,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  stepLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  cardBody: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  countdown: {
+    fontSize: 32,
+    fontWeight: "700",
+    marginTop: 12,
+    textAlign: "center",
+  },
+  statRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  statLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  errorBox: {
+    borderRadius: 8,
+    padding: 16,
+    width: "100%",
+  },
+  errorText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,575 @@
+/**
+ * Onboarding Screen
+ *
+ * Shown once after sign-up. Steps through the user's name and
+ * timezone, work hours, the blocks of the day they're usually free,
+ * and how they'd like reminders, then previews the schedule those
+ * settings would give today before saving them to the profile.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { minutesToTime, timeToMinutes } from "@myonites/shared";
+import type { AvailabilityBlock, NotificationChannel } from "@myonites/shared";
+import { useAuthStore } from "../../store/authStore";
+import { useTheme } from "../../hooks/useTheme";
+import {
+  completeOnboarding,
+  createOnboardingDraft,
+  loadOnboardingProfile,
+  previewOnboardingSchedule,
+  validateOnboarding,
+} from "../../services/onboarding";
+import type { OnboardingDraft } from "../../services/onboarding";
+import {
+  enablePushNotifications,
+  isPushSupported,
+} from "../../services/pushNotifications";
+import { TimeRangeSlider } from "./TimeRangeSlider";
+
+interface OnboardingScreenProps {
+  onComplete: () => void;
+}
+
+type Step = "about" | "hours" | "availability" | "notifications" | "preview";
+
+interface StepInfo {
+  step: Step;
+  title: string;
+}
+
+/* Typed non-empty, so the first step is always there to fall back on */
+const STEPS: [StepInfo, ...StepInfo[]] = [
+  { step: "about", title: "About You" },
+  { step: "hours", title: "Work Hours" },
+  { step: "availability", title: "When You're Free" },
+  { step: "notifications", title: "Reminders" },
+  { step: "preview", title: "Your Day" },
+];
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: "email", label: "Email" },
+  { value: "sms", label: "Text Message" },
+  ...(isPushSupported()
+    ? [{ value: "push" as const, label: "Browser Notifications" }]
+    : []),
+];
+
+/** Clip blocks to a new work window, dropping any left empty */
+function clipBlocks(
+  blocks: AvailabilityBlock[],
+  start: string,
+  end: string,
+): AvailabilityBlock[] {
+  const dayStart = timeToMinutes(start);
+  const dayEnd = timeToMinutes(end);
+
+  return blocks
+    .map((block) => ({
+      start: Math.max(timeToMinutes(block.start), dayStart),
+      end: Math.min(timeToMinutes(block.end), dayEnd),
+    }))
+    .filter((block) => block.end > block.start)
+    .map((block) => ({
+      start: minutesToTime(block.start),
+      end: minutesToTime(block.end),
+    }));
+}
+
+/** A new block in the longest stretch of the day not yet covered */
+function nextFreeBlock(draft: OnboardingDraft): AvailabilityBlock {
+  const sorted = [...draft.defaultAvailability].sort(
+    (a, b) => timeToMinutes(a.start) - timeToMinutes(b.start),
+  );
+  let best = { start: 0, end: 0 };
+  let cursor = timeToMinutes(draft.workWindowStart);
+
+  for (const block of [
+    ...sorted,
+    { start: draft.workWindowEnd, end: draft.workWindowEnd },
+  ]) {
+    const start = timeToMinutes(block.start);
+    if (start - cursor > best.end - best.start) {
+      best = { start: cursor, end: start };
+    }
+    cursor = Math.max(cursor, timeToMinutes(block.end));
+  }
+
+  if (best.end === best.start) {
+    return { start: draft.workWindowStart, end: draft.workWindowEnd };
+  }
+  return { start: minutesToTime(best.start), end: minutesToTime(best.end) };
+}
+
+export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
+  const { session } = useAuthStore();
+  const { colors } = useTheme();
+  const userId = session?.userId ?? null;
+
+  const [draft, setDraft] = useState<OnboardingDraft>(() =>
+    createOnboardingDraft(null, session?.email ?? ""),
+  );
+  const [stepIndex, setStepIndex] = useState<number>(0);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    loadOnboardingProfile(userId)
+      .then((profile) => {
+        if (!cancelled && profile) {
+          setDraft(createOnboardingDraft(profile, session?.email ?? ""));
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, session?.email]);
+
+  const current = STEPS[stepIndex] ?? STEPS[0];
+  const isLastStep = stepIndex === STEPS.length - 1;
+  const errors = validateOnboarding(draft);
+
+  const update = (changes: Partial<OnboardingDraft>) =>
+    setDraft((previous) => ({ ...previous, ...changes }));
+
+  const handleWorkWindowChange = (start: string, end: string) =>
+    update({
+      workWindowStart: start,
+      workWindowEnd: end,
+      defaultAvailability: clipBlocks(draft.defaultAvailability, start, end),
+    });
+
+  const handleBlockChange = (index: number, start: string, end: string) =>
+    update({
+      defaultAvailability: draft.defaultAvailability.map((block, i) =>
+        i === index ? { start, end } : block,
+      ),
+    });
+
+  const handleFinish = async () => {
+    if (!userId || errors.length > 0) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (draft.notificationChannel === "push") {
+        await enablePushNotifications();
+      }
+      await completeOnboarding(userId, draft);
+      onComplete();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Couldn't save your setup.",
+      );
+      setIsSaving(false);
+    }
+  };
+
+  const renderStep = () => {
+    switch (current.step) {
+      case "about":
+        return (
+          <>
+            <Text style={[styles.label, { color: colors.textSecondary }]}>
+              Name
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: colors.inputBackground,
+                  borderColor: colors.inputBorder,
+                  color: colors.inputText,
+                },
+              ]}
+              placeholder="What should we call you?"
+              placeholderTextColor={colors.inputPlaceholder}
+              value={draft.displayName}
+              onChangeText={(displayName) => update({ displayName })}
+            />
+            <Text style={[styles.label, { color: colors.textSecondary }]}>
+              Timezone
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: colors.inputBackground,
+                  borderColor: colors.inputBorder,
+                  color: colors.inputText,
+                },
+              ]}
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="e.g. America/Denver"
+              placeholderTextColor={colors.inputPlaceholder}
+              value={draft.timezone}
+              onChangeText={(timezone) => update({ timezone })}
+            />
+          </>
+        );
+
+      case "hours":
+        return (
+          <>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              Drag to set when your work day starts and ends. Sessions start
+              after your first couple of hours and finish before you log off.
+            </Text>
+            <TimeRangeSlider
+              min="05:00"
+              max="23:00"
+              start={draft.workWindowStart}
+              end={draft.workWindowEnd}
+              minLength={60}
+              onChange={handleWorkWindowChange}
+            />
+          </>
+        );
+
+      case "availability":
+        return (
+          <>
+            <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+              Most days, when are you free for a few minutes? Leave out regular
+              meetings and lunch.
+            </Text>
+            {draft.defaultAvailability.map((block, index) => (
+              <View
+                key={index}
+                style={[styles.blockRow, { borderColor: colors.border }]}>
+                <TimeRangeSlider
+                  min={draft.workWindowStart}
+                  max={draft.workWindowEnd}
+                  start={block.start}
+                  end={block.end}
+                  onChange={(start, end) =>
+                    handleBlockChange(index, start, end)
+                  }
+                />
+                {draft.defaultAvailability.length > 1 && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      update({
+                        defaultAvailability: draft.defaultAvailability.filter(
+                          (_, i) => i !== index,
+                        ),
+                      })
+                    }>
+                    <Text style={[styles.linkText, { color: colors.danger }]}>
+                      Remove
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            <TouchableOpacity
+              style={[styles.option, { borderColor: colors.border }]}
+              onPress={() =>
+                update({
+                  defaultAvailability: [
+                    ...draft.defaultAvailability,
+                    nextFreeBlock(draft),
+                  ],
+                })
+              }>
+              <Text style={[styles.optionText, { color: colors.text }]}>
+                Add a Block
+              </Text>
+            </TouchableOpacity>
+          </>
+        );
+
+      case "notifications":
+        return (
+          <>
+            {CHANNEL_OPTIONS.map((option) => {
+              const isSelected = draft.notificationChannel === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.option,
+                    { borderColor: colors.border },
+                    isSelected && {
+                      backgroundColor: colors.primary,
+                      borderColor: colors.primary,
+                    },
+                  ]}
+                  onPress={() => update({ notificationChannel: option.value })}>
+                  <Text
+                    style={[
+                      styles.optionText,
+                      { color: colors.text },
+                      isSelected && { color: colors.primaryText },
+                    ]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: colors.inputBackground,
+                  borderColor: colors.inputBorder,
+                  color: colors.inputText,
+                },
+              ]}
+              autoCapitalize="none"
+              keyboardType={
+                draft.notificationChannel === "sms"
+                  ? "phone-pad"
+                  : "email-address"
+              }
+              placeholder={
+                draft.notificationChannel === "sms"
+                  ? "+14155550123"
+                  : "you@example.com"
+              }
+              placeholderTextColor={colors.inputPlaceholder}
+              value={
+                draft.notificationChannel === "sms"
+                  ? draft.notificationPhone
+                  : draft.notificationEmail
+              }
+              onChangeText={(value) =>
+                update(
+                  draft.notificationChannel === "sms"
+                    ? { notificationPhone: value }
+                    : { notificationEmail: value },
+                )
+              }
+            />
+          </>
+        );
+
+      case "preview": {
+        const preview =
+          errors.length === 0 ? previewOnboardingSchedule(draft) : null;
+        return (
+          <>
+            {errors.map((message) => (
+              <Text
+                key={message}
+                style={[styles.errorText, { color: colors.danger }]}>
+                {message}
+              </Text>
+            ))}
+            {preview && (
+              <>
+                <Text
+                  style={[styles.helpText, { color: colors.textSecondary }]}>
+                  With these settings, today would look like this. You can
+                  adjust any day from Today's Schedule.
+                </Text>
+                {preview.slots.map((slot) => (
+                  <View
+                    key={slot.slotNumber}
+                    style={[styles.previewRow, { borderColor: colors.border }]}>
+                    <Text style={[styles.previewTime, { color: colors.text }]}>
+                      {slot.time.slice(11, 16)}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.previewLabel,
+                        { color: colors.textSecondary },
+                      ]}>
+                      {slot.sessionType === "mental"
+                        ? "Mental wellness"
+                        : `Workout ${slot.slotNumber}`}
+                    </Text>
+                  </View>
+                ))}
+                {preview.warnings.map((warning) => (
+                  <Text
+                    key={warning}
+                    style={[styles.helpText, { color: colors.warning }]}>
+                    {warning}
+                  </Text>
+                ))}
+              </>
+            )}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}>
+      <Text style={[styles.progress, { color: colors.textTertiary }]}>
+        Step {stepIndex + 1} of {STEPS.length}
+      </Text>
+      <Text style={[styles.title, { color: colors.text }]}>
+        {current.title}
+      </Text>
+
+      <View
+        style={[
+          styles.section,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+        ]}>
+        {renderStep()}
+      </View>
+
+      {error && (
+        <Text style={[styles.errorText, { color: colors.danger }]}>
+          {error}
+        </Text>
+      )}
+
+      <View style={styles.footer}>
+        {stepIndex > 0 ? (
+          <TouchableOpacity
+            disabled={isSaving}
+            onPress={() => setStepIndex(stepIndex - 1)}>
+            <Text style={[styles.linkText, { color: colors.primary }]}>
+              Back
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <View />
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: colors.primary },
+            isLastStep && errors.length > 0 && styles.buttonDisabled,
+          ]}
+          disabled={isSaving || (isLastStep && errors.length > 0)}
+          onPress={() =>
+            isLastStep ? handleFinish() : setStepIndex(stepIndex + 1)
+          }>
+          {isSaving ? (
+            <ActivityIndicator color={colors.primaryText} />
+          ) : (
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              {isLastStep ? "Finish" : "Next"}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+    maxWidth: 500,
+    width: "100%",
+    alignSelf: "center",
+  },
+  progress: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 16,
+  },
+  section: {
+    borderRadius: 12,
+    padding: 20,
+    borderWidth: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "500",
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  helpText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  blockRow: {
+    borderBottomWidth: 1,
+    paddingBottom: 8,
+    marginBottom: 12,
+  },
+  option: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  previewRow: {
+    flexDirection: "row",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  previewTime: {
+    width: 64,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  previewLabel: {
+    fontSize: 15,
+  },
+  footer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 24,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
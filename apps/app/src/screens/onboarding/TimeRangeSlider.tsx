@@ -0,0 +1,195 @@
+/**
+ * Time Range Slider
+ *
+ * A horizontal track with two thumbs for picking a start and end
+ * time, used for the work window and each availability block.
+ * Values are "HH:MM" and move in `step`-minute increments.
+ */
+
+import { useRef, useState } from "react";
+import { StyleSheet, Text, View, PanResponder } from "react-native";
+import type { LayoutChangeEvent } from "react-native";
+import { minutesToTime, timeToMinutes } from "@myonites/shared";
+import { useTheme } from "../../hooks/useTheme";
+
+interface TimeRangeSliderProps {
+  /** Track bounds, "HH:MM" */
+  min: string;
+  max: string;
+  start: string;
+  end: string;
+  /** Smallest allowed gap between start and end, in minutes */
+  minLength?: number;
+  step?: number;
+  onChange: (start: string, end: string) => void;
+}
+
+const THUMB_SIZE = 24;
+
+export function TimeRangeSlider({
+  min,
+  max,
+  start,
+  end,
+  minLength = 15,
+  step = 15,
+  onChange,
+}: TimeRangeSliderProps) {
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+
+  const lower = timeToMinutes(min);
+  const upper = timeToMinutes(max);
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = timeToMinutes(end);
+  const span = Math.max(upper - lower, 1);
+
+  /* Values when the current drag began, and the latest props */
+  const origin = useRef({ start: startMinutes, end: endMinutes });
+  const props = {
+    startMinutes,
+    endMinutes,
+    lower,
+    upper,
+    span,
+    width,
+    minLength,
+    step,
+    onChange,
+  };
+  const latest = useRef(props);
+  latest.current = props;
+
+  /* Responders are created once, so they read everything from `latest` */
+  const createThumb = (thumb: "start" | "end") =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        origin.current = {
+          start: latest.current.startMinutes,
+          end: latest.current.endMinutes,
+        };
+      },
+      onPanResponderMove: (_event, gesture) => {
+        const current = latest.current;
+        const dragged =
+          (gesture.dx / Math.max(current.width, 1)) * current.span;
+        const moved = Math.round(dragged / current.step) * current.step;
+        const { start: from, end: to } = origin.current;
+
+        if (thumb === "start") {
+          const next = Math.min(
+            Math.max(from + moved, current.lower),
+            to - current.minLength,
+          );
+          current.onChange(minutesToTime(next), minutesToTime(to));
+        } else {
+          const next = Math.max(
+            Math.min(to + moved, current.upper),
+            from + current.minLength,
+          );
+          current.onChange(minutesToTime(from), minutesToTime(next));
+        }
+      },
+    });
+
+  const startThumb = useRef(createThumb("start")).current;
+  const endThumb = useRef(createThumb("end")).current;
+
+  const toX = (minutes: number) => ((minutes - lower) / span) * width;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labels}>
+        <Text style={[styles.label, { color: colors.text }]}>{start}</Text>
+        <Text style={[styles.label, { color: colors.text }]}>{end}</Text>
+      </View>
+      <View
+        style={styles.trackArea}
+        onLayout={(event: LayoutChangeEvent) =>
+          setWidth(event.nativeEvent.layout.width)
+        }>
+        <View style={[styles.track, { backgroundColor: colors.border }]} />
+        <View
+          style={[
+            styles.range,
+            {
+              left: toX(startMinutes),
+              width: toX(endMinutes) - toX(startMinutes),
+              backgroundColor: colors.primary,
+            },
+          ]}
+        />
+        <View
+          {...startThumb.panHandlers}
+          style={[
+            styles.thumb,
+            {
+              left: toX(startMinutes) - THUMB_SIZE / 2,
+              backgroundColor: colors.surface,
+              borderColor: colors.primary,
+            },
+          ]}
+        />
+        <View
+          {...endThumb.panHandlers}
+          style={[
+            styles.thumb,
+            {
+              left: toX(endMinutes) - THUMB_SIZE / 2,
+              backgroundColor: colors.surface,
+              borderColor: colors.primary,
+            },
+          ]}
+        />
+      </View>
+      <View style={styles.labels}>
+        <Text style={[styles.bound, { color: colors.textTertiary }]}>
+          {min}
+        </Text>
+        <Text style={[styles.bound, { color: colors.textTertiary }]}>
+          {max}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  labels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  bound: {
+    fontSize: 11,
+  },
+  trackArea: {
+    height: THUMB_SIZE + 8,
+    justifyContent: "center",
+    marginHorizontal: THUMB_SIZE / 2,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+  },
+  range: {
+    position: "absolute",
+    height: 4,
+    borderRadius: 2,
+  },
+  thumb: {
+    position: "absolute",
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 2,
+  },
+});
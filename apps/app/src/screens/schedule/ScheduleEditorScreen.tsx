@@ -0,0 +1,672 @@
+/**
+ * Schedule Editor Screen
+ *
+ * Today's timeline: the work window, availability blocks and
+ * proposed slots. Slots can be dragged to a new time and blocks
+ * resized from either edge, with validateSlotMove /
+ * validateFullSchedule checking each position as it moves. Moves are
+ * saved through the schedule API; changed availability re-plans the
+ * day (slots stay put until it does), and Confirm creates the day's
+ * sessions. Slot moves are checked against the saved availability,
+ * as the server checks them. If today can't be proposed, the reason
+ * is shown over an empty day whose hours can be changed and
+ * re-planned.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  PanResponder,
+} from "react-native";
+import type { StyleProp, ViewStyle } from "react-native";
+import {
+  isoToZonedMinutes,
+  minutesToTime,
+  resolveSchedulingRules,
+  timeToMinutes,
+  validateFullSchedule,
+  validateSlotMove,
+} from "@myonites/shared";
+import type {
+  AvailabilityBlock,
+  DailySchedule,
+  UserProfile,
+} from "@myonites/shared";
+import { useAuthStore } from "../../store/authStore";
+import { useTheme } from "../../hooks/useTheme";
+import {
+  confirmTodaySchedule,
+  draftTodaySchedule,
+  loadTodaySchedule,
+  moveScheduleSlot,
+  proposeTodaySchedule,
+  slotTimeAt,
+  snapToStep,
+} from "../../services/schedule";
+
+interface ScheduleEditorScreenProps {
+  onBack: () => void;
+}
+
+/** Vertical pixels per minute of the work window */
+const PX_PER_MINUTE = 1.2;
+const HANDLE_HEIGHT = 12;
+const MIN_SLOT_HEIGHT = 28;
+
+interface Feedback {
+  valid: boolean;
+  message: string;
+}
+
+interface DragHandleProps {
+  style: StyleProp<ViewStyle>;
+  disabled: boolean;
+  /** Called with the vertical distance dragged, in pixels */
+  onMove: (dy: number) => void;
+  onRelease: (dy: number) => void;
+  children?: ReactNode;
+}
+
+/**
+ * A view that reports vertical drags. The responder is created once,
+ * so the latest callbacks are read through a ref.
+ */
+function DragHandle({
+  style,
+  disabled,
+  onMove,
+  onRelease,
+  children,
+}: DragHandleProps) {
+  const handlers = useRef({ disabled, onMove, onRelease });
+  handlers.current = { disabled, onMove, onRelease };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !handlers.current.disabled,
+      onMoveShouldSetPanResponder: () => !handlers.current.disabled,
+      onPanResponderMove: (_event, gesture) =>
+        handlers.current.onMove(gesture.dy),
+      onPanResponderRelease: (_event, gesture) =>
+        handlers.current.onRelease(gesture.dy),
+      onPanResponderTerminate: (_event, gesture) =>
+        handlers.current.onRelease(gesture.dy),
+    }),
+  ).current;
+
+  return (
+    <View style={style} {...responder.panHandlers}>
+      {children}
+    </View>
+  );
+}
+
+export function ScheduleEditorScreen({ onBack }: ScheduleEditorScreenProps) {
+  const { session } = useAuthStore();
+  const { colors } = useTheme();
+  const userId = session?.userId ?? null;
+
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [schedule, setSchedule] = useState<DailySchedule | null>(null);
+  const [blocks, setBlocks] = useState<AvailabilityBlock[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [dragSlot, setDragSlot] = useState<{
+    slotNumber: number;
+    minute: number;
+  } | null>(null);
+  /* Blocks as they were when the current resize drag began */
+  const resizeOrigin = useRef<AvailabilityBlock[] | null>(null);
+
+  const applySchedule = (next: DailySchedule) => {
+    setSchedule(next);
+    setBlocks(next.availabilityBlocks);
+  };
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    loadTodaySchedule(userId)
+      .then(async (today) => {
+        if (!today) throw new Error("Profile not found");
+        if (cancelled) return;
+        setProfile(today.profile);
+
+        if (today.schedule) {
+          applySchedule(today.schedule);
+          return;
+        }
+
+        try {
+          const proposal = await proposeTodaySchedule();
+          if (cancelled) return;
+          applySchedule(proposal.schedule);
+          setWarnings(proposal.warnings);
+        } catch (err) {
+          if (cancelled) return;
+          applySchedule(draftTodaySchedule(today.profile));
+          setError(err instanceof Error ? err.message : "Couldn't plan today.");
+        }
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(
+          err instanceof Error ? err.message : "Failed to load schedule",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (isLoading || !profile || !schedule) {
+    return (
+      <View style={[styles.centered, { backgroundColor: colors.background }]}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <>
+            <Text style={[styles.title, { color: colors.text }]}>
+              Couldn't load today's schedule
+            </Text>
+            {error && (
+              <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+                {error}
+              </Text>
+            )}
+            <TouchableOpacity onPress={onBack}>
+              <Text style={[styles.backText, { color: colors.primary }]}>
+                Back
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  const timezone = profile.timezone;
+  const rules = resolveSchedulingRules(profile.schedulingRules);
+  const dayStart = timeToMinutes(profile.workWindowStart);
+  const dayEnd = timeToMinutes(profile.workWindowEnd);
+  const isConfirmed = schedule.confirmedAt !== null;
+  const hasSlots = schedule.proposedTimes.length > 0;
+  const locked = isConfirmed || isSaving;
+  const blocksChanged =
+    JSON.stringify(blocks) !== JSON.stringify(schedule.availabilityBlocks);
+
+  const toY = (minute: number) => (minute - dayStart) * PX_PER_MINUTE;
+  const toMinutes = (dy: number) => snapToStep(dy / PX_PER_MINUTE);
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(value, min), max);
+
+  /* ─── Slot Dragging ─── */
+
+  const slotCandidate = (slotTime: string, dy: number) =>
+    clamp(
+      isoToZonedMinutes(slotTime, timezone) + toMinutes(dy),
+      dayStart,
+      dayEnd - rules.sessionDurationMinutes,
+    );
+
+  const checkSlotMove = (slotNumber: number, minute: number): Feedback => {
+    const result = validateSlotMove(
+      slotNumber,
+      slotTimeAt(schedule.date, minute),
+      schedule.proposedTimes,
+      schedule.availabilityBlocks,
+      timezone,
+      profile.schedulingRules,
+    );
+    return result.valid
+      ? {
+          valid: true,
+          message: `Slot ${slotNumber} → ${minutesToTime(minute)}`,
+        }
+      : { valid: false, message: result.error ?? "Can't move here." };
+  };
+
+  const handleSlotMove = (slotNumber: number, slotTime: string, dy: number) => {
+    const minute = slotCandidate(slotTime, dy);
+    setDragSlot({ slotNumber, minute });
+    setFeedback(checkSlotMove(slotNumber, minute));
+  };
+
+  const handleSlotRelease = async (
+    slotNumber: number,
+    slotTime: string,
+    dy: number,
+  ) => {
+    const minute = slotCandidate(slotTime, dy);
+    setDragSlot(null);
+    if (minute === isoToZonedMinutes(slotTime, timezone)) return;
+
+    const check = checkSlotMove(slotNumber, minute);
+    setFeedback(check);
+    if (!check.valid) return;
+
+    setIsSaving(true);
+    try {
+      applySchedule(
+        await moveScheduleSlot(slotNumber, slotTimeAt(schedule.date, minute)),
+      );
+    } catch (err) {
+      setFeedback({
+        valid: false,
+        message: err instanceof Error ? err.message : "Couldn't move the slot.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /* ─── Block Resizing ─── */
+
+  const resizeBlock = (index: number, edge: "start" | "end", dy: number) => {
+    resizeOrigin.current ??= blocks;
+    const original = resizeOrigin.current[index];
+    const current = blocks[index];
+    if (!original || !current) return blocks;
+
+    const previousEnd = timeToMinutes(blocks[index - 1]?.end ?? "00:00");
+    const nextStart = timeToMinutes(blocks[index + 1]?.start ?? "23:59");
+    const start = timeToMinutes(current.start);
+    const end = timeToMinutes(current.end);
+
+    const resized =
+      edge === "start"
+        ? {
+            start: minutesToTime(
+              clamp(
+                timeToMinutes(original.start) + toMinutes(dy),
+                Math.max(dayStart, previousEnd),
+                end - rules.sessionDurationMinutes,
+              ),
+            ),
+            end: current.end,
+          }
+        : {
+            start: current.start,
+            end: minutesToTime(
+              clamp(
+                timeToMinutes(original.end) + toMinutes(dy),
+                start + rules.sessionDurationMinutes,
+                Math.min(dayEnd, nextStart),
+              ),
+            ),
+          };
+
+    return blocks.map((block, i) => (i === index ? resized : block));
+  };
+
+  const handleBlockMove = (
+    index: number,
+    edge: "start" | "end",
+    dy: number,
+  ) => {
+    const resized = resizeBlock(index, edge, dy);
+    const check = validateFullSchedule(
+      schedule.proposedTimes,
+      resized,
+      timezone,
+      profile.schedulingRules,
+    );
+    setFeedback(
+      check.valid
+        ? { valid: true, message: "Every slot still fits." }
+        : { valid: false, message: check.error ?? "Some slots won't fit." },
+    );
+    setBlocks(resized);
+  };
+
+  const handleReplan = async () => {
+    setIsSaving(true);
+    setFeedback(null);
+    setError(null);
+    try {
+      const proposal = await proposeTodaySchedule(blocks);
+      applySchedule(proposal.schedule);
+      setWarnings(proposal.warnings);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Couldn't re-plan the day.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await confirmTodaySchedule();
+      setSchedule({ ...schedule, confirmedAt: new Date().toISOString() });
+      setFeedback(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Couldn't confirm the schedule.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /* ─── Render ─── */
+
+  const hours: number[] = [];
+  for (let m = Math.ceil(dayStart / 60) * 60; m <= dayEnd; m += 60) {
+    hours.push(m);
+  }
+  const slotHeight = Math.max(
+    rules.sessionDurationMinutes * PX_PER_MINUTE,
+    MIN_SLOT_HEIGHT,
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}
+      scrollEnabled={dragSlot === null}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack}>
+          <Text style={[styles.backText, { color: colors.primary }]}>Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Today</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <Text style={[styles.helpText, { color: colors.textSecondary }]}>
+        {isConfirmed
+          ? "Today's schedule is confirmed."
+          : "Drag a session to move it, or drag the edge of a block to change when you're free."}
+      </Text>
+
+      {warnings.map((warning) => (
+        <Text
+          key={warning}
+          style={[styles.warning, { color: colors.textSecondary }]}>
+          {warning}
+        </Text>
+      ))}
+
+      <View
+        style={[
+          styles.timeline,
+          {
+            height: (dayEnd - dayStart) * PX_PER_MINUTE,
+            backgroundColor: colors.surface,
+            borderColor: colors.border,
+          },
+        ]}>
+        {hours.map((minute) => (
+          <View key={minute} style={[styles.hour, { top: toY(minute) }]}>
+            <Text style={[styles.hourLabel, { color: colors.textTertiary }]}>
+              {minutesToTime(minute)}
+            </Text>
+            <View
+              style={[styles.hourLine, { backgroundColor: colors.border }]}
+            />
+          </View>
+        ))}
+
+        {blocks.map((block, index) => {
+          const top = toY(timeToMinutes(block.start));
+          const height =
+            (timeToMinutes(block.end) - timeToMinutes(block.start)) *
+            PX_PER_MINUTE;
+
+          return (
+            <View
+              key={index}
+              style={[
+                styles.block,
+                { top, height, borderColor: colors.success },
+              ]}>
+              <DragHandle
+                style={[styles.handle, styles.handleTop]}
+                disabled={locked}
+                onMove={(dy) => handleBlockMove(index, "start", dy)}
+                onRelease={() => (resizeOrigin.current = null)}>
+                <View
+                  style={[styles.grip, { backgroundColor: colors.success }]}
+                />
+              </DragHandle>
+              <DragHandle
+                style={[styles.handle, styles.handleBottom]}
+                disabled={locked}
+                onMove={(dy) => handleBlockMove(index, "end", dy)}
+                onRelease={() => (resizeOrigin.current = null)}>
+                <View
+                  style={[styles.grip, { backgroundColor: colors.success }]}
+                />
+              </DragHandle>
+            </View>
+          );
+        })}
+
+        {schedule.proposedTimes.map((slot) => {
+          const dragging = dragSlot?.slotNumber === slot.slotNumber;
+          const minute =
+            dragSlot && dragging
+              ? dragSlot.minute
+              : isoToZonedMinutes(slot.time, timezone);
+          const invalid = dragging && feedback?.valid === false;
+
+          return (
+            <DragHandle
+              key={slot.slotNumber}
+              disabled={locked || blocksChanged}
+              style={[
+                styles.slot,
+                {
+                  top: toY(minute),
+                  height: slotHeight,
+                  backgroundColor:
+                    slot.sessionType === "mental"
+                      ? colors.buttonSecondary
+                      : colors.primary,
+                  borderColor: invalid ? colors.danger : "transparent",
+                },
+              ]}
+              onMove={(dy) => handleSlotMove(slot.slotNumber, slot.time, dy)}
+              onRelease={(dy) =>
+                handleSlotRelease(slot.slotNumber, slot.time, dy)
+              }>
+              <Text style={[styles.slotText, { color: colors.primaryText }]}>
+                {minutesToTime(minute)} ·{" "}
+                {slot.sessionType === "mental"
+                  ? "Mental wellness"
+                  : `Workout ${slot.slotNumber}`}
+              </Text>
+            </DragHandle>
+          );
+        })}
+      </View>
+
+      {feedback && (
+        <Text
+          style={[
+            styles.feedback,
+            { color: feedback.valid ? colors.success : colors.danger },
+          ]}>
+          {feedback.message}
+        </Text>
+      )}
+
+      {error && (
+        <Text style={[styles.feedback, { color: colors.danger }]}>{error}</Text>
+      )}
+
+      {!isConfirmed && (blocksChanged || !hasSlots) && (
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: colors.surface, borderColor: colors.border },
+          ]}
+          disabled={isSaving}
+          onPress={handleReplan}>
+          <Text style={[styles.buttonText, { color: colors.text }]}>
+            Re-plan With These Hours
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {!isConfirmed && (
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: colors.primary, borderColor: colors.primary },
+          ]}
+          disabled={isSaving || blocksChanged || !hasSlots}
+          onPress={handleConfirm}>
+          {isSaving ? (
+            <ActivityIndicator color={colors.primaryText} />
+          ) : (
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Confirm Schedule
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+    maxWidth: 500,
+    width: "100%",
+    alignSelf: "center",
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  helpText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  warning: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  timeline: {
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 8,
+    overflow: "hidden",
+  },
+  hour: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  hourLabel: {
+    width: 52,
+    fontSize: 11,
+    paddingLeft: 8,
+  },
+  hourLine: {
+    flex: 1,
+    height: 1,
+  },
+  block: {
+    position: "absolute",
+    left: 56,
+    right: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  handle: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: HANDLE_HEIGHT,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  handleTop: {
+    top: 0,
+  },
+  handleBottom: {
+    bottom: 0,
+  },
+  grip: {
+    width: 32,
+    height: 3,
+    borderRadius: 2,
+  },
+  slot: {
+    position: "absolute",
+    left: 72,
+    right: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    paddingHorizontal: 10,
+    justifyContent: "center",
+  },
+  slotText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  feedback: {
+    fontSize: 14,
+    marginTop: 12,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    marginTop: 12,
+    alignItems: "center",
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
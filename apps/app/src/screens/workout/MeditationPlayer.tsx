@@ -0,0 +1,310 @@
+/**
+ * Meditation Player
+ *
+ * Guided breathing for the end of a workout (and the slot 6 mental
+ * session). Animates inhale/hold/exhale timed from the session's
+ * MeditationConfig over an ambient track, then asks the reflection
+ * prompt. Web-only, like the workout player that hosts it.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  TouchableOpacity,
+} from "react-native";
+import {
+  DEFAULT_REFLECTION_PROMPT,
+  getBreathingDurationMs,
+  getBreathingState,
+} from "@myonites/shared";
+import type {
+  BreathingPhase,
+  BreathingState,
+  MeditationConfig,
+  SessionReflection,
+} from "@myonites/shared";
+import { useTheme } from "../../hooks/useTheme";
+import { resolveAmbientTrackUrl } from "../../services/workout";
+
+/** Circle scale at the bottom of an exhale and the top of an inhale */
+const MIN_SCALE = 0.55;
+const MAX_SCALE = 1;
+
+const AMBIENT_VOLUME = 0.4;
+
+const PHASE_LABELS: Record<BreathingPhase, string> = {
+  inhale: "Breathe in",
+  hold: "Hold",
+  exhale: "Breathe out",
+};
+
+type Step = "ready" | "breathing" | "reflection";
+
+interface MeditationPlayerProps {
+  config: MeditationConfig;
+  /** Called with the user's reflection, or null if they skipped it */
+  onFinish: (reflection: SessionReflection | null) => void;
+}
+
+/** Circle size for the current moment: grow on inhale, shrink on exhale */
+function circleScale(state: BreathingState): number {
+  const range = MAX_SCALE - MIN_SCALE;
+  switch (state.phase) {
+    case "inhale":
+      return MIN_SCALE + range * state.phaseProgress;
+    case "hold":
+      return MAX_SCALE;
+    case "exhale":
+      return MAX_SCALE - range * state.phaseProgress;
+    default:
+      return MIN_SCALE;
+  }
+}
+
+export function MeditationPlayer({ config, onFinish }: MeditationPlayerProps) {
+  const { colors } = useTheme();
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const startedAtRef = useRef<number>(0);
+  const animationFrameRef = useRef<number | null>(null);
+
+  const [step, setStep] = useState<Step>("ready");
+  const [elapsedMs, setElapsedMs] = useState<number>(0);
+  const [response, setResponse] = useState<string>("");
+
+  const pattern = config.breathingPattern;
+  const state = getBreathingState(pattern, elapsedMs);
+  const totalMs = getBreathingDurationMs(pattern);
+  const prompt = config.reflectionPrompt ?? DEFAULT_REFLECTION_PROMPT;
+
+  const stopAmbient = () => {
+    audioRef.current?.pause();
+  };
+
+  const handleBegin = () => {
+    /* Starting audio from the tap satisfies browser autoplay rules */
+    if (audioRef.current) {
+      audioRef.current.volume = AMBIENT_VOLUME;
+      audioRef.current.play().catch(() => {
+        /* Ambient audio is optional — breathe in silence if it fails */
+      });
+    }
+    startedAtRef.current = performance.now();
+    setElapsedMs(0);
+    setStep("breathing");
+  };
+
+  const handleSkipBreathing = () => {
+    stopAmbient();
+    setStep("reflection");
+  };
+
+  /* Frame loop drives the animation while breathing */
+  useEffect(() => {
+    if (step !== "breathing") return;
+
+    const tick = () => {
+      setElapsedMs(performance.now() - startedAtRef.current);
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    animationFrameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
+  }, [step]);
+
+  /* Move on to the reflection once the last exhale ends */
+  useEffect(() => {
+    if (step === "breathing" && state.isComplete) {
+      audioRef.current?.pause();
+      setStep("reflection");
+    }
+  }, [step, state.isComplete]);
+
+  /* Silence the ambient track if the player unmounts mid-session */
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => {
+      audio?.pause();
+    };
+  }, []);
+
+  const handleSave = () => {
+    const trimmed = response.trim();
+    onFinish(trimmed ? { prompt, response: trimmed } : null);
+  };
+
+  const secondsLeft = Math.ceil(Math.max(0, totalMs - elapsedMs) / 1000);
+  const scale = circleScale(state);
+
+  return (
+    <View style={styles.container}>
+      <audio
+        ref={audioRef}
+        src={resolveAmbientTrackUrl(config.ambientTrack)}
+        loop
+        preload="auto"
+      />
+
+      {step === "ready" && (
+        <>
+          <Text style={[styles.title, { color: colors.text }]}>
+            Time to breathe
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {pattern.cycles} breaths: in for {pattern.inhaleSeconds}s
+            {pattern.holdSeconds > 0
+              ? `, hold for ${pattern.holdSeconds}s`
+              : ""}
+            , out for {pattern.exhaleSeconds}s. Follow the circle.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={handleBegin}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Begin
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {step === "breathing" && (
+        <>
+          <View style={styles.circleFrame}>
+            <View
+              style={[
+                styles.circle,
+                {
+                  backgroundColor: colors.primary,
+                  transform: [{ scale }],
+                },
+              ]}>
+              <Text style={[styles.phaseLabel, { color: colors.primaryText }]}>
+                {state.phase ? PHASE_LABELS[state.phase] : ""}
+              </Text>
+              <Text style={[styles.phaseCount, { color: colors.primaryText }]}>
+                {state.phaseSecondsRemaining}
+              </Text>
+            </View>
+          </View>
+          <Text style={[styles.progress, { color: colors.textTertiary }]}>
+            Breath {state.cycle} of {pattern.cycles} · {secondsLeft}s left
+          </Text>
+          <TouchableOpacity onPress={handleSkipBreathing}>
+            <Text style={[styles.link, { color: colors.primary }]}>Skip</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {step === "reflection" && (
+        <>
+          <Text style={[styles.title, { color: colors.text }]}>Reflect</Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {prompt}
+          </Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: colors.text,
+                backgroundColor: colors.surface,
+                borderColor: colors.border,
+              },
+            ]}
+            value={response}
+            onChangeText={setResponse}
+            placeholder="A few words is plenty"
+            placeholderTextColor={colors.textTertiary}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={handleSave}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              {response.trim() ? "Save & Finish" : "Finish"}
+            </Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+    maxWidth: 480,
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  circleFrame: {
+    width: 260,
+    height: 260,
+    justifyContent: "center",
+    alignItems: "center",
+    marginVertical: 16,
+  },
+  circle: {
+    width: 260,
+    height: 260,
+    borderRadius: 130,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  phaseLabel: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  phaseCount: {
+    fontSize: 36,
+    fontWeight: "700",
+    marginTop: 4,
+  },
+  progress: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  link: {
+    fontSize: 16,
+    fontWeight: "600",
+    padding: 8,
+  },
+  input: {
+    width: "100%",
+    minHeight: 96,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    textAlignVertical: "top",
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    width: "100%",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,128 @@
+/**
+ * Workout Launcher Screen
+ *
+ * Loads the user's next confirmed workout and their workspace
+ * calibration, then hands both to the workout player.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import type { ComposedWorkout, WorkspaceCalibration } from "@myonites/shared";
+import { useAuthStore } from "../../store/authStore";
+import { useTheme } from "../../hooks/useTheme";
+import { loadNextWorkout } from "../../services/workout";
+import { loadWorkspaceCalibration } from "../../services/calibration";
+import { WorkoutScreen } from "./WorkoutScreen";
+
+interface WorkoutLauncherScreenProps {
+  onBack: () => void;
+}
+
+export function WorkoutLauncherScreen({ onBack }: WorkoutLauncherScreenProps) {
+  const { session } = useAuthStore();
+  const { colors } = useTheme();
+  const userId = session?.userId ?? null;
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [workout, setWorkout] = useState<ComposedWorkout | null>(null);
+  const [calibration, setCalibration] = useState<WorkspaceCalibration | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    Promise.all([loadNextWorkout(userId), loadWorkspaceCalibration(userId)])
+      .then(([nextWorkout, savedCalibration]) => {
+        if (cancelled) return;
+        setWorkout(nextWorkout);
+        setCalibration(savedCalibration);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load workout");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (workout) {
+    return (
+      <WorkoutScreen
+        workout={workout}
+        calibration={calibration}
+        onExit={onBack}
+      />
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {isLoading ? (
+        <ActivityIndicator size="large" color={colors.primary} />
+      ) : (
+        <>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {error ? "Couldn't load your workout" : "No workout ready"}
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {error ??
+              "Confirm one of today's sessions and it will be ready to play here."}
+          </Text>
+        </>
+      )}
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.buttonSecondary }]}
+        onPress={onBack}>
+        <Text
+          style={[styles.buttonText, { color: colors.buttonSecondaryText }]}>
+          Back to Home
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: "center",
+    maxWidth: 400,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    marginTop: 24,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
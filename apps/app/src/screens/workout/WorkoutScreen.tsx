@@ -0,0 +1,651 @@
+/**
+ * Workout Screen
+ *
+ * Plays a ComposedWorkout end to end: each exercise video in order
+ * with transitions between them, pose tracking alongside for reps and
+ * form, then the guided breathing segment, then submits results
+ * along with the user's reflection.
+ * Web-only until native video and pose estimation land.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CSSProperties } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { generateFormFeedback } from "@myonites/shared";
+import type {
+  ComposedExercise,
+  ComposedWorkout,
+  FormFeedback,
+  SessionReflection,
+  WorkspaceCalibration,
+} from "@myonites/shared";
+import { useTheme } from "../../hooks/useTheme";
+import { useEventPlayer } from "../../hooks/useEventPlayer";
+import { useFormTracking } from "../../hooks/useFormTracking";
+import type { ExerciseTrackingResult } from "../../hooks/useFormTracking";
+import {
+  buildExerciseSubmission,
+  startWorkout,
+  submitWorkout,
+} from "../../services/workout";
+import type { ExerciseSubmission } from "../../services/workout";
+import { MeditationPlayer } from "./MeditationPlayer";
+
+/** Matches the transition time the composer budgets between exercises */
+const TRANSITION_SECONDS = 10;
+
+type Phase =
+  | "ready"
+  | "exercise"
+  | "transition"
+  | "meditation"
+  | "submitting"
+  | "complete"
+  | "error";
+
+interface ExerciseOutcome extends ExerciseTrackingResult {
+  composed: ComposedExercise;
+}
+
+interface WorkoutScreenProps {
+  workout: ComposedWorkout;
+  calibration: WorkspaceCalibration | null;
+  onExit: () => void;
+}
+
+export function WorkoutScreen({
+  workout,
+  calibration,
+  onExit,
+}: WorkoutScreenProps) {
+  const { colors } = useTheme();
+  const tracking = useFormTracking(calibration);
+  const outcomesRef = useRef<ExerciseOutcome[]>([]);
+  const reflectionRef = useRef<SessionReflection | null>(null);
+  const finishedRef = useRef<boolean>(false);
+
+  const [phase, setPhase] = useState<Phase>("ready");
+  const [exerciseIndex, setExerciseIndex] = useState<number>(0);
+  const [transitionLeft, setTransitionLeft] = useState<number>(0);
+  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [feedback, setFeedback] = useState<
+    { name: string; feedback: FormFeedback }[]
+  >([]);
+
+  const current = workout.exercises[exerciseIndex] ?? null;
+  const next = workout.exercises[exerciseIndex + 1] ?? null;
+  const events = useEventPlayer(
+    phase === "exercise" && current ? current.eventFileUrl : null,
+  );
+  const { beginExercise, setTriggeredEvents } = tracking;
+
+  /* Triggered events arrive once the event file loads */
+  useEffect(() => {
+    setTriggeredEvents(events.triggeredEvents);
+  }, [events.triggeredEvents, setTriggeredEvents]);
+
+  const beginMeditation = () => {
+    tracking.stop();
+    setPhase("meditation");
+  };
+
+  const handleStart = async () => {
+    try {
+      await startWorkout(workout.session.id);
+    } catch (err) {
+      setErrorMessage(
+        err instanceof Error ? err.message : "Failed to start workout",
+      );
+      setPhase("error");
+      return;
+    }
+
+    /* Tracking failures are shown but don't block the workout */
+    await tracking.start();
+
+    const first = workout.exercises[0];
+    if (!first) {
+      beginMeditation();
+      return;
+    }
+
+    tracking.beginExercise(first.exercise);
+    setExerciseIndex(0);
+    setPhase("exercise");
+  };
+
+  const handleExerciseEnded = () => {
+    if (!current) return;
+
+    outcomesRef.current.push({
+      composed: current,
+      ...tracking.finishExercise(),
+    });
+
+    if (next) {
+      setTransitionLeft(TRANSITION_SECONDS);
+      setPhase("transition");
+    } else {
+      beginMeditation();
+    }
+  };
+
+  const advanceToNext = useCallback(() => {
+    if (!next) return;
+    beginExercise(next.exercise);
+    setExerciseIndex((i) => i + 1);
+    setPhase("exercise");
+  }, [next, beginExercise]);
+
+  const handleSubmit = async () => {
+    finishedRef.current = true;
+    setPhase("submitting");
+
+    const exerciseResults = outcomesRef.current
+      .map((o) => buildExerciseSubmission(o.composed, o.formScores, o.repCount))
+      .filter((r): r is ExerciseSubmission => r !== null);
+
+    try {
+      await submitWorkout({
+        sessionId: workout.session.id,
+        exerciseResults,
+        reflection: reflectionRef.current ?? undefined,
+      });
+      setFeedback(
+        outcomesRef.current.map((o) => ({
+          name: o.composed.exercise.name,
+          feedback: generateFormFeedback(o.formScores, o.composed.exercise),
+        })),
+      );
+      setPhase("complete");
+    } catch (err) {
+      setErrorMessage(
+        err instanceof Error ? err.message : "Failed to submit workout",
+      );
+      setPhase("error");
+    }
+  };
+
+  const handleMeditationFinish = (reflection: SessionReflection | null) => {
+    reflectionRef.current = reflection;
+    void handleSubmit();
+  };
+
+  const handleExit = () => {
+    tracking.stop();
+    onExit();
+  };
+
+  /* Transition countdown between exercises */
+  useEffect(() => {
+    if (phase !== "transition") return;
+
+    const interval = setInterval(() => {
+      setTransitionLeft((s) => Math.max(0, s - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase === "transition" && transitionLeft === 0) advanceToNext();
+  }, [phase, transitionLeft, advanceToNext]);
+
+  if (Platform.OS !== "web") {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.title, { color: colors.text }]}>Workout</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          Workouts are web-only for now. Native support will follow pose
+          estimation on mobile.
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.buttonSecondary }]}
+          onPress={onExit}>
+          <Text
+            style={[styles.buttonText, { color: colors.buttonSecondaryText }]}>
+            Back to Home
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const overlayText = events.flash ?? tracking.triggeredEvent;
+  const expectedReps = current?.exercise.formCriteria.expectedReps ?? 0;
+  const lastScore = tracking.lastScore?.score ?? null;
+  const scoreColor =
+    lastScore === null
+      ? colors.textTertiary
+      : lastScore >= 80
+        ? colors.success
+        : lastScore >= (current?.exercise.formCriteria.minimumScore ?? 60)
+          ? colors.warning
+          : colors.danger;
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: colors.background }}
+      contentContainerStyle={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleExit}>
+          <Text style={[styles.headerAction, { color: colors.primary }]}>
+            Exit
+          </Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {phase === "exercise" && current
+            ? `${current.orderIndex} of ${workout.exercises.length} · ${current.exercise.name}`
+            : "Workout"}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {phase === "ready" && (
+        <View style={styles.content}>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {workout.exercises.length} exercises, then a short breathing
+            exercise. Make sure your upper body is in view of the camera.
+          </Text>
+          {workout.exercises.map((e) => (
+            <Text
+              key={e.orderIndex}
+              style={[styles.listItem, { color: colors.text }]}>
+              {e.orderIndex}. {e.exercise.name}
+            </Text>
+          ))}
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={handleStart}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Start Workout
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {phase === "exercise" && current && (
+        <View style={styles.stage}>
+          <div style={videoStyles.frame}>
+            <video
+              key={current.orderIndex}
+              src={current.videoUrl}
+              autoPlay
+              playsInline
+              style={videoStyles.video}
+              onPlay={events.play}
+              onPause={events.pause}
+              onSeeked={(e) => events.seek(e.currentTarget.currentTime * 1000)}
+              onEnded={handleExerciseEnded}>
+              {current.captionUrl && (
+                <track kind="captions" src={current.captionUrl} default />
+              )}
+            </video>
+
+            {events.transition && (
+              <div style={videoStyles.banner}>{events.transition.content}</div>
+            )}
+            {overlayText && (
+              <div style={videoStyles.flash}>{overlayText.content}</div>
+            )}
+            {events.caption && (
+              <div style={videoStyles.caption}>{events.caption.content}</div>
+            )}
+          </div>
+
+          <View
+            style={[
+              styles.indicators,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}>
+            <View style={styles.indicator}>
+              <Text
+                style={[styles.indicatorLabel, { color: colors.textTertiary }]}>
+                Reps
+              </Text>
+              <Text style={[styles.indicatorValue, { color: colors.text }]}>
+                {tracking.repCount}/{expectedReps}
+              </Text>
+            </View>
+            <View style={styles.indicator}>
+              <Text
+                style={[styles.indicatorLabel, { color: colors.textTertiary }]}>
+                Form
+              </Text>
+              <Text style={[styles.indicatorValue, { color: scoreColor }]}>
+                {lastScore === null ? "–" : lastScore}
+              </Text>
+            </View>
+          </View>
+
+          {events.tip && (
+            <Text style={[styles.tip, { color: colors.textSecondary }]}>
+              Tip: {events.tip.content}
+            </Text>
+          )}
+          {tracking.status === "error" && (
+            <Text style={[styles.tip, { color: colors.warning }]}>
+              Form tracking is off: {tracking.error}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {phase === "transition" && next && (
+        <View style={styles.content}>
+          <Text style={[styles.stepLabel, { color: colors.textTertiary }]}>
+            Up next
+          </Text>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {next.exercise.name}
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            {next.exercise.description}
+          </Text>
+          <Text style={[styles.countdown, { color: colors.primary }]}>
+            {transitionLeft}s
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={advanceToNext}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Start Now
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {phase === "meditation" && (
+        <MeditationPlayer
+          config={workout.meditationConfig}
+          onFinish={handleMeditationFinish}
+        />
+      )}
+
+      {phase === "submitting" && (
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            Saving your workout...
+          </Text>
+        </View>
+      )}
+
+      {phase === "complete" && (
+        <View style={styles.content}>
+          <Text style={[styles.title, { color: colors.success }]}>
+            Workout complete
+          </Text>
+          {feedback.map(({ name, feedback: f }) => (
+            <View
+              key={name}
+              style={[
+                styles.card,
+                { backgroundColor: colors.surface, shadowColor: colors.shadow },
+              ]}>
+              <Text style={[styles.cardTitle, { color: colors.text }]}>
+                {name}
+              </Text>
+              <Text style={[styles.cardBody, { color: colors.textSecondary }]}>
+                {f.summary}
+              </Text>
+              {f.improvements.map((item) => (
+                <Text
+                  key={item}
+                  style={[styles.cardBody, { color: colors.textTertiary }]}>
+                  • {item}
+                </Text>
+              ))}
+            </View>
+          ))}
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={onExit}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Done
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {phase === "error" && (
+        <View style={styles.content}>
+          <View
+            style={[
+              styles.errorBox,
+              { backgroundColor: colors.dangerBackground },
+            ]}>
+            <Text style={[styles.errorText, { color: colors.dangerText }]}>
+              {errorMessage}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={finishedRef.current ? handleSubmit : handleStart}>
+            <Text style={[styles.buttonText, { color: colors.primaryText }]}>
+              Try Again
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Camera preview. Always mounted so tracking survives transitions. */}
+      <div
+        ref={tracking.containerRef}
+        style={{
+          ...videoStyles.camera,
+          display:
+            phase === "exercise" || phase === "transition" ? "block" : "none",
+        }}>
+        <canvas ref={tracking.canvasRef} style={videoStyles.cameraCanvas} />
+      </div>
+    </ScrollView>
+  );
+}
+
+/* DOM styles for the web-only video and camera elements */
+const videoStyles: Record<string, CSSProperties> = {
+  frame: {
+    position: "relative",
+    width: "100%",
+    aspectRatio: "16/9",
+    backgroundColor: "#000",
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  video: {
+    width: "100%",
+    height: "100%",
+    objectFit: "contain",
+  },
+  banner: {
+    position: "absolute",
+    top: 16,
+    left: 16,
+    right: 16,
+    textAlign: "center",
+    color: "#ffffff",
+    fontSize: 20,
+    fontWeight: 700,
+  },
+  flash: {
+    position: "absolute",
+    top: "40%",
+    left: 24,
+    right: 24,
+    padding: 12,
+    borderRadius: 8,
+    textAlign: "center",
+    color: "#ffffff",
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    fontSize: 18,
+    fontWeight: 600,
+  },
+  caption: {
+    position: "absolute",
+    bottom: 16,
+    left: 24,
+    right: 24,
+    textAlign: "center",
+    color: "#ffffff",
+    textShadow: "0 1px 3px rgba(0, 0, 0, 0.8)",
+    fontSize: 16,
+  },
+  camera: {
+    position: "relative",
+    width: 240,
+    aspectRatio: "4/3",
+    backgroundColor: "#000",
+    borderRadius: 8,
+    overflow: "hidden",
+    alignSelf: "center",
+    marginTop: 16,
+  },
+  cameraCanvas: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    width: "100%",
+    height: "100%",
+    zIndex: 10,
+    transform: "scaleX(-1)",
+  },
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    padding: 24,
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    width: "100%",
+    maxWidth: 720,
+    marginBottom: 16,
+  },
+  headerAction: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  content: {
+    width: "100%",
+    maxWidth: 480,
+    alignItems: "center",
+  },
+  stage: {
+    width: "100%",
+    maxWidth: 720,
+  },
+  listItem: {
+    fontSize: 16,
+    alignSelf: "flex-start",
+    paddingVertical: 4,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    width: "100%",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  indicators: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  indicator: {
+    alignItems: "center",
+  },
+  indicatorLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+  indicatorValue: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  tip: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 12,
+    textAlign: "center",
+  },
+  stepLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
+  countdown: {
+    fontSize: 40,
+    fontWeight: "700",
+    marginVertical: 12,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 20,
+    width: "100%",
+    marginTop: 12,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  cardBody: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  errorBox: {
+    borderRadius: 8,
+    padding: 16,
+    width: "100%",
+  },
+  errorText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,83 @@
+/**
+ * Calendar Feed Service Tests
+ *
+ * Covers building an absolute feed URL from the stored token
+ * and issuing fresh tokens on reset.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockGetProfile = vi.fn();
+const mockUpdateProfile = vi.fn();
+
+vi.mock("./supabase", () => ({ supabase: {} }));
+
+vi.mock("@myonites/shared", () => ({
+  createScheduleRepository: () => ({
+    getProfile: (...args: unknown[]) => mockGetProfile(...args),
+    updateProfile: (...args: unknown[]) => mockUpdateProfile(...args),
+  }),
+}));
+
+import {
+  loadCalendarFeedUrl,
+  resetCalendarFeed,
+  disableCalendarFeed,
+} from "./calendarFeed";
+
+describe("Calendar Feed Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns null when the feed is off", async () => {
+    mockGetProfile.mockResolvedValue({ calendarFeedToken: null });
+
+    expect(await loadCalendarFeedUrl("user-1")).toBeNull();
+  });
+
+  it("builds the feed URL from the stored token", async () => {
+    mockGetProfile.mockResolvedValue({ calendarFeedToken: "abc123" });
+
+    expect(await loadCalendarFeedUrl("user-1")).toBe(
+      `${window.location.origin}/api/calendar/feed?token=abc123`,
+    );
+  });
+
+  it("escapes the token in the URL", async () => {
+    mockGetProfile.mockResolvedValue({ calendarFeedToken: "a+b/c" });
+
+    expect(await loadCalendarFeedUrl("user-1")).toMatch(/token=a%2Bb%2Fc$/);
+  });
+
+  it("refuses to issue a token when no absolute URL can be built", async () => {
+    vi.stubGlobal("window", undefined);
+
+    await expect(resetCalendarFeed("user-1")).rejects.toThrow(
+      "Couldn't work out the address",
+    );
+    expect(mockUpdateProfile).not.toHaveBeenCalled();
+  });
+
+  it("stores a new 64-character token on every reset", async () => {
+    const first = await resetCalendarFeed("user-1");
+    const second = await resetCalendarFeed("user-1");
+
+    const token = mockUpdateProfile.mock.calls[0]?.[1].calendarFeedToken;
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+    expect(first).toContain(token);
+    expect(first).not.toBe(second);
+  });
+
+  it("clears the token when disabled", async () => {
+    await disableCalendarFeed("user-1");
+
+    expect(mockUpdateProfile).toHaveBeenCalledWith("user-1", {
+      calendarFeedToken: null,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Calendar Feed
+ *
+ * Manages the secret token behind the user's subscribable
+ * calendar feed. Anyone holding the URL can read the schedule,
+ * so resetting issues a new token and breaks old subscriptions.
+ * Calendar apps need an absolute URL: it's built on the API URL,
+ * or on web the page's own origin when that isn't set.
+ */
+
+import { createScheduleRepository } from "@myonites/shared";
+import { supabase } from "./supabase";
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL ?? "";
+
+const scheduleRepository = createScheduleRepository(supabase);
+
+/** 32 random bytes as hex, the same shape as server-issued tokens */
+function generateFeedToken(): string {
+  const bytes = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Where the API is served from, or null if it can't be told */
+function apiOrigin(): string | null {
+  if (API_URL) return API_URL.replace(/\/+$/, "");
+  const origin =
+    typeof window !== "undefined" ? window.location?.origin : undefined;
+  return origin && origin !== "null" ? origin : null;
+}
+
+export function buildCalendarFeedUrl(token: string): string {
+  const origin = apiOrigin();
+  if (!origin) {
+    throw new Error("Couldn't work out the address for the calendar feed.");
+  }
+  return `${origin}/api/calendar/feed?token=${encodeURIComponent(token)}`;
+}
+
+/** The user's feed URL, or null if they haven't turned the feed on */
+export async function loadCalendarFeedUrl(
+  userId: string,
+): Promise<string | null> {
+  const profile = await scheduleRepository.getProfile(userId);
+  const token = profile?.calendarFeedToken;
+  return token ? buildCalendarFeedUrl(token) : null;
+}
+
+/** Issue a new token (turning the feed on) and return the new URL */
+export async function resetCalendarFeed(userId: string): Promise<string> {
+  const token = generateFeedToken();
+  /* Built first, so a token is never saved without a usable link */
+  const url = buildCalendarFeedUrl(token);
+  await scheduleRepository.updateProfile(userId, { calendarFeedToken: token });
+  return url;
+}
+
+/** Revoke the token; subscribed calendars stop updating */
+export async function disableCalendarFeed(userId: string): Promise<void> {
+  await scheduleRepository.updateProfile(userId, { calendarFeedToken: null });
+}
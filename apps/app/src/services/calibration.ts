@@ -0,0 +1,30 @@
+/**
+ * Calibration Sync
+ *
+ * Loads and saves the user's workspace calibration on their
+ * profile so form scoring can apply workspace concessions.
+ */
+
+import { createScheduleRepository } from "@myonites/shared";
+import type { WorkspaceCalibration } from "@myonites/shared";
+import { supabase } from "./supabase";
+
+const scheduleRepository = createScheduleRepository(supabase);
+
+/** The user's saved calibration, or null if they haven't calibrated yet */
+export async function loadWorkspaceCalibration(
+  userId: string,
+): Promise<WorkspaceCalibration | null> {
+  const profile = await scheduleRepository.getProfile(userId);
+  return profile?.workspaceCalibration ?? null;
+}
+
+/** Save a completed calibration to Supabase user_profiles */
+export async function saveWorkspaceCalibration(
+  userId: string,
+  calibration: WorkspaceCalibration,
+): Promise<void> {
+  await scheduleRepository.updateProfile(userId, {
+    workspaceCalibration: calibration,
+  });
+}
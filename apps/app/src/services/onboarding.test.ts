@@ -0,0 +1,158 @@
+/**
+ * Onboarding Service Tests
+ *
+ * Covers prefilling the draft, checking each field, previewing the
+ * schedule and saving the finished profile.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type * as Shared from "@myonites/shared";
+
+const mockGetProfile = vi.fn();
+const mockUpdateProfile = vi.fn();
+const mockScheduleCount = vi.fn();
+
+vi.mock("./supabase", () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({ eq: () => mockScheduleCount() }),
+    }),
+  },
+}));
+
+vi.mock("@myonites/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof Shared>()),
+  createScheduleRepository: () => ({
+    getProfile: (...args: unknown[]) => mockGetProfile(...args),
+    updateProfile: (...args: unknown[]) => mockUpdateProfile(...args),
+  }),
+}));
+
+import {
+  needsOnboarding,
+  createOnboardingDraft,
+  validateOnboarding,
+  previewOnboardingSchedule,
+  completeOnboarding,
+} from "./onboarding";
+import type { OnboardingDraft } from "./onboarding";
+
+const draft: OnboardingDraft = {
+  displayName: "Sam",
+  timezone: "America/Denver",
+  workWindowStart: "09:00",
+  workWindowEnd: "17:00",
+  defaultAvailability: [
+    { start: "13:00", end: "17:00" },
+    { start: "09:00", end: "12:00" },
+  ],
+  notificationChannel: "email",
+  notificationEmail: "sam@example.com",
+  notificationPhone: "",
+  schedulingRules: null,
+};
+
+describe("Onboarding Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockScheduleCount.mockResolvedValue({ count: 0, error: null });
+  });
+
+  it("asks for onboarding until the profile is marked done", async () => {
+    mockGetProfile.mockResolvedValue({ onboardedAt: null });
+    expect(await needsOnboarding("user-1")).toBe(true);
+
+    mockGetProfile.mockResolvedValue({ onboardedAt: "2026-03-09T10:00:00Z" });
+    expect(await needsOnboarding("user-1")).toBe(false);
+  });
+
+  it("treats users with availability or schedules as set up", async () => {
+    mockGetProfile.mockResolvedValue({
+      onboardedAt: null,
+      defaultAvailability: [{ start: "09:00", end: "12:00" }],
+    });
+    expect(await needsOnboarding("user-1")).toBe(false);
+
+    mockGetProfile.mockResolvedValue({
+      onboardedAt: null,
+      defaultAvailability: null,
+    });
+    mockScheduleCount.mockResolvedValue({ count: 3, error: null });
+    expect(await needsOnboarding("user-1")).toBe(false);
+  });
+
+  it("prefills a new user's draft from their sign-up email", () => {
+    const fresh = createOnboardingDraft(null, "new@example.com");
+
+    expect(fresh.notificationEmail).toBe("new@example.com");
+    expect(fresh.defaultAvailability).toEqual([
+      { start: "09:00", end: "17:00" },
+    ]);
+  });
+
+  it("accepts a complete draft", () => {
+    expect(validateOnboarding(draft)).toEqual([]);
+  });
+
+  it("flags blocks outside the work day or overlapping", () => {
+    const errors = validateOnboarding({
+      ...draft,
+      defaultAvailability: [
+        { start: "08:00", end: "10:00" },
+        { start: "09:30", end: "11:00" },
+      ],
+    });
+
+    expect(errors).toEqual([
+      "The 08:00 block must be within your work day.",
+      "The 08:00 and 09:30 blocks overlap.",
+    ]);
+  });
+
+  it("needs a phone number with country code for text reminders", () => {
+    const sms = { ...draft, notificationChannel: "sms" as const };
+
+    expect(
+      validateOnboarding({ ...sms, notificationPhone: "555-0123" }),
+    ).toHaveLength(1);
+    expect(
+      validateOnboarding({ ...sms, notificationPhone: "+14155550123" }),
+    ).toEqual([]);
+  });
+
+  it("previews a full day from the draft's hours", () => {
+    const preview = previewOnboardingSchedule(
+      draft,
+      new Date("2026-03-09T15:00:00Z"),
+    );
+
+    expect(preview.slots).toHaveLength(6);
+    expect(preview.slots[0]?.time.startsWith("2026-03-09")).toBe(true);
+  });
+
+  it("previews with the profile's own scheduling rules", () => {
+    const preview = previewOnboardingSchedule(
+      { ...draft, schedulingRules: { totalSlots: 4 } },
+      new Date("2026-03-09T15:00:00Z"),
+    );
+
+    expect(preview.slots).toHaveLength(4);
+  });
+
+  it("saves sorted availability and marks onboarding done", async () => {
+    mockUpdateProfile.mockResolvedValue({});
+
+    await completeOnboarding("user-1", draft);
+
+    const [, updates] = mockUpdateProfile.mock.calls[0] as [
+      string,
+      Record<string, unknown>,
+    ];
+    expect(updates.defaultAvailability).toEqual([
+      { start: "09:00", end: "12:00" },
+      { start: "13:00", end: "17:00" },
+    ]);
+    expect(updates.notificationPhone).toBeNull();
+    expect(updates.onboardedAt).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Onboarding
+ *
+ * The post-signup flow's data: a draft of the profile fields it
+ * collects, checks on each field, a preview of the schedule those
+ * settings would produce, and saving them to the user's profile.
+ */
+
+import {
+  createScheduleRepository,
+  getZonedToday,
+  isValidTimeZone,
+  proposeSchedule,
+  timeToMinutes,
+} from "@myonites/shared";
+import type {
+  AvailabilityBlock,
+  NotificationChannel,
+  ScheduleProposal,
+  SchedulingRules,
+  UserProfile,
+} from "@myonites/shared";
+import { supabase } from "./supabase";
+
+const scheduleRepository = createScheduleRepository(supabase);
+
+export interface OnboardingDraft {
+  displayName: string;
+  timezone: string;
+  workWindowStart: string;
+  workWindowEnd: string;
+  defaultAvailability: AvailabilityBlock[];
+  notificationChannel: NotificationChannel;
+  notificationEmail: string;
+  notificationPhone: string;
+  /** Kept from the profile, so the preview plans by the user's rules */
+  schedulingRules: Partial<SchedulingRules> | null;
+}
+
+const DEFAULT_WORK_WINDOW = { start: "09:00", end: "17:00" };
+
+/** E.164, as SMS providers expect */
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * True until the user has finished onboarding. Accounts from before
+ * onboarding existed have no `onboardedAt`, so saved availability or
+ * any schedule counts as having set up already.
+ */
+export async function needsOnboarding(userId: string): Promise<boolean> {
+  const profile = await scheduleRepository.getProfile(userId);
+  if (!profile) return true;
+  if (profile.onboardedAt || profile.defaultAvailability) return false;
+
+  const { count, error } = await supabase
+    .from("daily_schedules")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (error) throw new Error(`Failed to check schedules: ${error.message}`);
+
+  return !count;
+}
+
+/**
+ * A draft prefilled from whatever the profile already holds, with the
+ * device's timezone and a 09:00–17:00 day as fallbacks.
+ */
+export function createOnboardingDraft(
+  profile: UserProfile | null,
+  email: string,
+): OnboardingDraft {
+  const workWindowStart = profile?.workWindowStart ?? DEFAULT_WORK_WINDOW.start;
+  const workWindowEnd = profile?.workWindowEnd ?? DEFAULT_WORK_WINDOW.end;
+
+  return {
+    displayName: profile?.displayName ?? "",
+    timezone:
+      profile?.timezone && profile.timezone !== "UTC"
+        ? profile.timezone
+        : deviceTimeZone(),
+    workWindowStart,
+    workWindowEnd,
+    defaultAvailability: profile?.defaultAvailability ?? [
+      { start: workWindowStart, end: workWindowEnd },
+    ],
+    notificationChannel: profile?.notificationChannel ?? "email",
+    notificationEmail: profile?.notificationEmail ?? email,
+    notificationPhone: profile?.notificationPhone ?? "",
+    schedulingRules: profile?.schedulingRules ?? null,
+  };
+}
+
+/** The profile the user is editing, for prefilling the draft */
+export function loadOnboardingProfile(
+  userId: string,
+): Promise<UserProfile | null> {
+  return scheduleRepository.getProfile(userId);
+}
+
+/** Problems with the draft, or an empty array if it can be saved */
+export function validateOnboarding(draft: OnboardingDraft): string[] {
+  const errors: string[] = [];
+
+  if (!draft.displayName.trim()) {
+    errors.push("Enter your name.");
+  }
+  if (!isValidTimeZone(draft.timezone)) {
+    errors.push(`"${draft.timezone}" is not a timezone we recognise.`);
+  }
+
+  const dayStart = timeToMinutes(draft.workWindowStart);
+  const dayEnd = timeToMinutes(draft.workWindowEnd);
+  if (dayEnd <= dayStart) {
+    errors.push("Your work day must end after it starts.");
+  }
+
+  if (draft.defaultAvailability.length === 0) {
+    errors.push("Add at least one block of time you're available.");
+  }
+
+  const sorted = [...draft.defaultAvailability].sort(
+    (a, b) => timeToMinutes(a.start) - timeToMinutes(b.start),
+  );
+  sorted.forEach((block, i) => {
+    const start = timeToMinutes(block.start);
+    const end = timeToMinutes(block.end);
+    if (end <= start) {
+      errors.push(`The ${block.start} block must end after it starts.`);
+    } else if (start < dayStart || end > dayEnd) {
+      errors.push(`The ${block.start} block must be within your work day.`);
+    }
+    const next = sorted[i + 1];
+    if (next && timeToMinutes(next.start) < end) {
+      errors.push(`The ${block.start} and ${next.start} blocks overlap.`);
+    }
+  });
+
+  if (
+    draft.notificationChannel === "email" &&
+    !EMAIL_PATTERN.test(draft.notificationEmail.trim())
+  ) {
+    errors.push("Enter an email address for reminders.");
+  }
+  if (
+    draft.notificationChannel === "sms" &&
+    !PHONE_PATTERN.test(draft.notificationPhone.trim())
+  ) {
+    errors.push(
+      "Enter a mobile number with country code for text reminders, e.g. +14155550123.",
+    );
+  }
+
+  return errors;
+}
+
+/** The schedule these settings would give today, for the preview step */
+export function previewOnboardingSchedule(
+  draft: OnboardingDraft,
+  now: Date = new Date(),
+): ScheduleProposal {
+  return proposeSchedule({
+    workWindowStart: draft.workWindowStart,
+    workWindowEnd: draft.workWindowEnd,
+    availabilityBlocks: draft.defaultAvailability,
+    date: getZonedToday(draft.timezone, now),
+    timezone: draft.timezone,
+    rules: draft.schedulingRules,
+  });
+}
+
+/** Save the draft to the profile and mark onboarding finished */
+export async function completeOnboarding(
+  userId: string,
+  draft: OnboardingDraft,
+): Promise<UserProfile> {
+  return scheduleRepository.updateProfile(userId, {
+    displayName: draft.displayName.trim(),
+    timezone: draft.timezone,
+    workWindowStart: draft.workWindowStart,
+    workWindowEnd: draft.workWindowEnd,
+    defaultAvailability: [...draft.defaultAvailability].sort(
+      (a, b) => timeToMinutes(a.start) - timeToMinutes(b.start),
+    ),
+    notificationChannel: draft.notificationChannel,
+    notificationEmail: draft.notificationEmail.trim() || null,
+    notificationPhone: draft.notificationPhone.trim() || null,
+    onboardedAt: new Date().toISOString(),
+  });
+}
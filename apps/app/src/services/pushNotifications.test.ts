@@ -0,0 +1,130 @@
+/**
+ * Push Notifications Service Tests
+ *
+ * Covers decoding the VAPID key, subscribing this browser and
+ * switching the profile's channel on and off.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockUpdateProfile = vi.fn();
+
+vi.mock("./supabase", () => ({
+  supabase: {
+    auth: {
+      getSession: () =>
+        Promise.resolve({ data: { session: { access_token: "jwt" } } }),
+    },
+  },
+}));
+
+vi.mock("@myonites/shared", () => ({
+  createScheduleRepository: () => ({
+    updateProfile: (...args: unknown[]) => mockUpdateProfile(...args),
+  }),
+}));
+
+import {
+  base64UrlToBytes,
+  enablePushNotifications,
+  disablePushNotifications,
+} from "./pushNotifications";
+
+const subscriptionJson = {
+  endpoint: "https://push.test/abc",
+  keys: { p256dh: "BPk", auth: "au" },
+};
+
+const mockSubscribe = vi.fn();
+const mockGetSubscription = vi.fn();
+const mockUnsubscribe = vi.fn();
+const mockFetch = vi.fn();
+
+function reply(data: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status < 400,
+    status,
+    json: () => Promise.resolve({ success: status < 400, data }),
+  });
+}
+
+describe("Push Notifications Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const pushManager = {
+      subscribe: mockSubscribe,
+      getSubscription: mockGetSubscription,
+    };
+    vi.stubGlobal("PushManager", function PushManager() {});
+    vi.stubGlobal("Notification", {
+      requestPermission: () => Promise.resolve("granted"),
+    });
+    Object.defineProperty(navigator, "serviceWorker", {
+      configurable: true,
+      value: {
+        register: () => Promise.resolve({ pushManager }),
+        getRegistration: () => Promise.resolve({ pushManager }),
+      },
+    });
+    vi.stubGlobal("fetch", mockFetch);
+    mockGetSubscription.mockResolvedValue(null);
+    mockSubscribe.mockResolvedValue({ toJSON: () => subscriptionJson });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("decodes a base64url VAPID key to bytes", () => {
+    expect(Array.from(base64UrlToBytes("-_8"))).toEqual([251, 255]);
+  });
+
+  it("subscribes with the server's key and stores the subscription", async () => {
+    mockFetch
+      .mockReturnValueOnce(reply({ publicKey: "AQID" }))
+      .mockReturnValueOnce(reply({ subscription: {} }, 201));
+
+    await enablePushNotifications("user-1");
+
+    const options = mockSubscribe.mock.calls[0]?.[0] as {
+      applicationServerKey: Uint8Array;
+    };
+    expect(Array.from(options.applicationServerKey)).toEqual([1, 2, 3]);
+
+    const [url, init] = mockFetch.mock.calls[1] as [string, RequestInit];
+    expect(url).toContain("/api/notifications/subscribe");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual(subscriptionJson);
+    expect(mockUpdateProfile).toHaveBeenCalledWith("user-1", {
+      notificationChannel: "push",
+    });
+  });
+
+  it("doesn't touch the profile when permission is refused", async () => {
+    vi.stubGlobal("Notification", {
+      requestPermission: () => Promise.resolve("denied"),
+    });
+
+    await expect(enablePushNotifications("user-1")).rejects.toThrow(
+      "Allow notifications",
+    );
+    expect(mockUpdateProfile).not.toHaveBeenCalled();
+  });
+
+  it("unsubscribes this browser and falls back to email", async () => {
+    mockGetSubscription.mockResolvedValue({
+      endpoint: subscriptionJson.endpoint,
+      unsubscribe: mockUnsubscribe,
+    });
+    mockFetch.mockReturnValueOnce(reply({ endpoint: "x" }));
+
+    await disablePushNotifications("user-1");
+
+    const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(init.method).toBe("DELETE");
+    expect(mockUnsubscribe).toHaveBeenCalled();
+    expect(mockUpdateProfile).toHaveBeenCalledWith("user-1", {
+      notificationChannel: "email",
+    });
+  });
+});
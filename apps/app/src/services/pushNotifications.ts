@@ -0,0 +1,124 @@
+/**
+ * Push Notifications
+ *
+ * Web Push for the web build: registers the service worker
+ * (public/sw.js), subscribes the browser with the server's VAPID
+ * key and stores the subscription against the signed-in user, then
+ * switches their notification channel to "push". Turning it off
+ * unsubscribes this browser and falls back to email.
+ */
+
+import { createScheduleRepository } from "@myonites/shared";
+import type { NotificationChannel } from "@myonites/shared";
+import { supabase } from "./supabase";
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL ?? "";
+const SERVICE_WORKER_URL = "/sw.js";
+
+const scheduleRepository = createScheduleRepository(supabase);
+
+/** Call the subscription endpoint, unwrapping `{ success, data }` */
+async function request<T>(
+  method: "GET" | "POST" | "DELETE",
+  body?: unknown,
+): Promise<T> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+
+  const response = await fetch(`${API_URL}/api/notifications/subscribe`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const json = (await response.json().catch(() => null)) as {
+    data?: T;
+    error?: string;
+  } | null;
+
+  if (!response.ok || json?.data === undefined) {
+    throw new Error(
+      json?.error ?? `Subscription request failed: ${response.status}`,
+    );
+  }
+
+  return json.data;
+}
+
+/** VAPID keys are base64url; PushManager wants the raw bytes */
+export function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+/** True in browsers that can receive Web Push */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/** The channel the user's notifications currently go to */
+export async function loadNotificationChannel(
+  userId: string,
+): Promise<NotificationChannel | null> {
+  const profile = await scheduleRepository.getProfile(userId);
+  return profile?.notificationChannel ?? null;
+}
+
+/**
+ * Ask for permission, subscribe this browser and register it.
+ * Pass a userId to also switch the profile's channel to push.
+ */
+export async function enablePushNotifications(userId?: string): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("This browser doesn't support push notifications.");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Allow notifications for this site to turn them on.");
+  }
+
+  const { publicKey } = await request<{ publicKey: string }>("GET");
+  const registration =
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(publicKey),
+    }));
+
+  await request("POST", subscription.toJSON());
+
+  if (userId) {
+    await scheduleRepository.updateProfile(userId, {
+      notificationChannel: "push",
+    });
+  }
+}
+
+/** Unsubscribe this browser and send notifications by email instead */
+export async function disablePushNotifications(userId: string): Promise<void> {
+  if (isPushSupported()) {
+    const registration =
+      await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    if (subscription) {
+      await request("DELETE", { endpoint: subscription.endpoint });
+      await subscription.unsubscribe();
+    }
+  }
+
+  await scheduleRepository.updateProfile(userId, {
+    notificationChannel: "email",
+  });
+}
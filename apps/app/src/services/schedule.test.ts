@@ -0,0 +1,133 @@
+/**
+ * Schedule Service Tests
+ *
+ * Covers authenticated requests to the schedule API, the draft
+ * day the editor falls back to, and the timeline helpers it drags
+ * with.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { UserProfile } from "@myonites/shared";
+
+const mockGetSession = vi.fn();
+
+vi.mock("./supabase", () => ({
+  supabase: { auth: { getSession: () => mockGetSession() } },
+}));
+
+vi.mock("@myonites/shared", () => ({
+  createScheduleRepository: () => ({}),
+  getZonedToday: () => "2026-03-09",
+  minutesToTime: (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+      minutes % 60,
+    ).padStart(2, "0")}`,
+}));
+
+import {
+  draftTodaySchedule,
+  moveScheduleSlot,
+  confirmTodaySchedule,
+  slotTimeAt,
+  snapToStep,
+} from "./schedule";
+
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+function respond(status: number, body: unknown) {
+  mockFetch.mockResolvedValue({
+    ok: status < 400,
+    status,
+    json: () => Promise.resolve(body),
+  });
+}
+
+describe("Schedule Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetSession.mockResolvedValue({
+      data: { session: { access_token: "jwt-1" } },
+    });
+  });
+
+  it("sends moves with the user's access token", async () => {
+    respond(200, { success: true, data: { schedule: { id: "s-1" } } });
+
+    const schedule = await moveScheduleSlot(2, "2026-03-09T13:00:00");
+
+    expect(schedule).toEqual({ id: "s-1" });
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("/api/schedule/move");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer jwt-1" });
+    expect(JSON.parse(init.body as string)).toEqual({
+      slotNumber: 2,
+      time: "2026-03-09T13:00:00",
+    });
+  });
+
+  it("surfaces the server's reason when a request fails", async () => {
+    respond(422, {
+      success: false,
+      error: "Cannot schedule workouts within 20 minutes of each other.",
+    });
+
+    await expect(moveScheduleSlot(2, "2026-03-09T13:00:00")).rejects.toThrow(
+      "within 20 minutes",
+    );
+  });
+
+  it("returns the sessions created on confirmation", async () => {
+    respond(201, {
+      success: true,
+      data: { scheduleId: "s-1", sessions: [{ id: "a" }, { id: "b" }] },
+    });
+
+    const sessions = await confirmTodaySchedule();
+
+    expect(sessions).toHaveLength(2);
+    expect(mockFetch.mock.calls[0]?.[0]).toBe("/api/schedule/confirm-day");
+  });
+});
+
+describe("draftTodaySchedule", () => {
+  const profile = {
+    id: "user-1",
+    timezone: "UTC",
+    workWindowStart: "09:00",
+    workWindowEnd: "17:00",
+    defaultAvailability: null,
+  } as UserProfile;
+
+  it("starts an unsaved, empty day on the work window", () => {
+    expect(draftTodaySchedule(profile)).toEqual({
+      id: "",
+      userId: "user-1",
+      date: "2026-03-09",
+      availabilityBlocks: [{ start: "09:00", end: "17:00" }],
+      proposedTimes: [],
+      confirmedAt: null,
+    });
+  });
+
+  it("uses the default availability when there is one", () => {
+    const blocks = [{ start: "13:00", end: "16:00" }];
+
+    expect(
+      draftTodaySchedule({ ...profile, defaultAvailability: blocks })
+        .availabilityBlocks,
+    ).toEqual(blocks);
+  });
+});
+
+describe("timeline helpers", () => {
+  it("builds a local slot time from minutes", () => {
+    expect(slotTimeAt("2026-03-09", 785)).toBe("2026-03-09T13:05:00");
+  });
+
+  it("snaps dragged minutes to the step", () => {
+    expect(snapToStep(782)).toBe(780);
+    expect(snapToStep(783)).toBe(785);
+    expect(snapToStep(790, 15)).toBe(795);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Schedule Service
+ *
+ * Loads today's schedule for the editor and sends proposals, slot
+ * moves and the day's confirmation to the schedule API. Requests
+ * carry the signed-in user's access token; the server works out
+ * which user and day they're for.
+ */
+
+import {
+  createScheduleRepository,
+  getZonedToday,
+  minutesToTime,
+} from "@myonites/shared";
+import type {
+  AvailabilityBlock,
+  DailySchedule,
+  ScheduleDiagnostic,
+  Session,
+  SlotPlacement,
+  UserProfile,
+} from "@myonites/shared";
+import { supabase } from "./supabase";
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL ?? "";
+
+const scheduleRepository = createScheduleRepository(supabase);
+
+export interface ProposalResult {
+  schedule: DailySchedule;
+  placements: SlotPlacement[];
+  warnings: string[];
+  diagnostics: ScheduleDiagnostic[];
+}
+
+export interface TodaySchedule {
+  profile: UserProfile;
+  /** Null until a schedule has been proposed for today */
+  schedule: DailySchedule | null;
+}
+
+/** POST to a schedule route and unwrap the `{ success, data }` body */
+async function post<T>(path: string, body: unknown = {}): Promise<T> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+
+  const response = await fetch(`${API_URL}/api/schedule/${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  const json = (await response.json().catch(() => null)) as {
+    data?: T;
+    error?: string;
+  } | null;
+
+  if (!response.ok || json?.data === undefined) {
+    throw new Error(
+      json?.error ?? `Schedule request failed: ${response.status}`,
+    );
+  }
+
+  return json.data;
+}
+
+/** The user's profile and whatever schedule already exists for today */
+export async function loadTodaySchedule(
+  userId: string,
+): Promise<TodaySchedule | null> {
+  const profile = await scheduleRepository.getProfile(userId);
+  if (!profile) return null;
+
+  const schedule = await scheduleRepository.getSchedule(
+    userId,
+    getZonedToday(profile.timezone),
+  );
+  return { profile, schedule };
+}
+
+/**
+ * An unsaved day with no slots yet, on the profile's default
+ * availability, for the editor to work from when no proposal could
+ * be made.
+ */
+export function draftTodaySchedule(profile: UserProfile): DailySchedule {
+  return {
+    id: "",
+    userId: profile.id,
+    date: getZonedToday(profile.timezone),
+    availabilityBlocks: profile.defaultAvailability ?? [
+      { start: profile.workWindowStart, end: profile.workWindowEnd },
+    ],
+    proposedTimes: [],
+    confirmedAt: null,
+  };
+}
+
+/**
+ * Propose (or re-propose) today's schedule. Pass availability to
+ * replace the profile's default for today.
+ */
+export function proposeTodaySchedule(
+  availabilityBlocks?: AvailabilityBlock[],
+): Promise<ProposalResult> {
+  return post<ProposalResult>("propose", { availabilityBlocks });
+}
+
+/** Move one slot; the server validates it and renumbers the day */
+export async function moveScheduleSlot(
+  slotNumber: number,
+  time: string,
+): Promise<DailySchedule> {
+  const { schedule } = await post<{ schedule: DailySchedule }>("move", {
+    slotNumber,
+    time,
+  });
+  return schedule;
+}
+
+/** Confirm today's schedule, creating its sessions */
+export async function confirmTodaySchedule(): Promise<Session[]> {
+  const { sessions } = await post<{ sessions: Session[] }>("confirm-day");
+  return sessions;
+}
+
+/** A slot time on `date` at wall-clock minutes, in the user's timezone */
+export function slotTimeAt(date: string, minutes: number): string {
+  return `${date}T${minutesToTime(minutes)}:00`;
+}
+
+/** Round to the editor's drag step */
+export function snapToStep(minutes: number, step = 5): number {
+  return Math.round(minutes / step) * step;
+}
@@ -0,0 +1,160 @@
+/**
+ * Workout Service Tests
+ *
+ * Covers picking the next session to play, building per-exercise
+ * results, and surfacing server errors on submit.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ComposedExercise, FormScore } from "@myonites/shared";
+
+const mockGetTodaySessions = vi.fn();
+const mockUpdateStatus = vi.fn();
+const mockComposeWorkout = vi.fn();
+
+vi.mock("./supabase", () => ({
+  supabase: {
+    storage: {
+      from: (bucket: string) => ({
+        getPublicUrl: (path: string) => ({
+          data: { publicUrl: `https://cdn.test/${bucket}/${path}` },
+        }),
+      }),
+    },
+  },
+}));
+
+vi.mock("@myonites/shared", () => ({
+  createSessionRepository: () => ({
+    getTodaySessions: (...args: unknown[]) => mockGetTodaySessions(...args),
+    updateStatus: (...args: unknown[]) => mockUpdateStatus(...args),
+  }),
+  createWorkoutRepository: () => ({
+    composeWorkout: (...args: unknown[]) => mockComposeWorkout(...args),
+  }),
+}));
+
+import {
+  loadNextWorkout,
+  buildExerciseSubmission,
+  resolveAmbientTrackUrl,
+  submitWorkout,
+} from "./workout";
+
+function score(value: number): FormScore {
+  return {
+    score: value,
+    deviations: [],
+    concessionApplied: false,
+    timestamp: 0,
+  };
+}
+
+const composed = {
+  sessionExerciseId: "se-1",
+  orderIndex: 1,
+} as ComposedExercise;
+
+describe("Workout Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("loadNextWorkout", () => {
+    it("composes the first confirmed session", async () => {
+      mockGetTodaySessions.mockResolvedValue([
+        { id: "s-1", status: "completed" },
+        { id: "s-2", status: "confirmed" },
+        { id: "s-3", status: "confirmed" },
+      ]);
+      mockComposeWorkout.mockResolvedValue({ session: { id: "s-2" } });
+
+      const workout = await loadNextWorkout("user-1");
+
+      expect(mockComposeWorkout).toHaveBeenCalledWith("s-2");
+      expect(workout).toEqual({ session: { id: "s-2" } });
+    });
+
+    it("returns null when nothing is confirmed", async () => {
+      mockGetTodaySessions.mockResolvedValue([
+        { id: "s-1", status: "scheduled" },
+      ]);
+
+      expect(await loadNextWorkout("user-1")).toBeNull();
+      expect(mockComposeWorkout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildExerciseSubmission", () => {
+    it("averages rep scores into the exercise score", () => {
+      const result = buildExerciseSubmission(
+        composed,
+        [score(80), score(91)],
+        2,
+      );
+
+      expect(result).toEqual({
+        sessionExerciseId: "se-1",
+        formScore: 86,
+        repCount: 2,
+        formScores: [score(80), score(91)],
+      });
+    });
+
+    it("leaves the score empty when no reps were scored", () => {
+      expect(buildExerciseSubmission(composed, [], 0)?.formScore).toBeNull();
+    });
+
+    it("skips exercises without a session_exercises row", () => {
+      expect(
+        buildExerciseSubmission(
+          { ...composed, sessionExerciseId: null },
+          [],
+          0,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("resolveAmbientTrackUrl", () => {
+    it("serves named tracks from the ambient bucket", () => {
+      expect(resolveAmbientTrackUrl("rain")).toBe(
+        "https://cdn.test/ambient/rain.mp3",
+      );
+    });
+
+    it("passes full URLs through", () => {
+      expect(resolveAmbientTrackUrl("https://example.com/waves.mp3")).toBe(
+        "https://example.com/waves.mp3",
+      );
+    });
+  });
+
+  describe("submitWorkout", () => {
+    it("posts results to the complete endpoint", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response(JSON.stringify({ success: true })));
+
+      await submitWorkout({ sessionId: "s-1", exerciseResults: [] });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/api/workout/complete",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
+    it("throws the server error message", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response(
+          JSON.stringify({ success: false, error: "Session not found." }),
+          { status: 404 },
+        ),
+      );
+
+      await expect(
+        submitWorkout({ sessionId: "s-1", exerciseResults: [] }),
+      ).rejects.toThrow("Session not found.");
+    });
+  });
+});
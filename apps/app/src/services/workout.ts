@@ -0,0 +1,114 @@
+/**
+ * Workout Service
+ *
+ * Loads the user's next confirmed workout, marks it started,
+ * and submits results to the server when the session finishes.
+ */
+
+import {
+  createSessionRepository,
+  createWorkoutRepository,
+} from "@myonites/shared";
+import type {
+  ComposedExercise,
+  ComposedWorkout,
+  FormScore,
+  SessionReflection,
+} from "@myonites/shared";
+import { supabase } from "./supabase";
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL ?? "";
+
+/** Storage bucket holding the meditation ambient tracks */
+const AMBIENT_BUCKET = "ambient";
+
+const sessionRepository = createSessionRepository(supabase);
+const workoutRepository = createWorkoutRepository(supabase);
+
+export interface ExerciseSubmission {
+  sessionExerciseId: string;
+  formScore: number | null;
+  repCount: number | null;
+  formScores: FormScore[];
+}
+
+export interface WorkoutSubmission {
+  sessionId: string;
+  exerciseResults: ExerciseSubmission[];
+  reflection?: SessionReflection;
+}
+
+/** Today's first confirmed (or interrupted) session, composed for playback */
+export async function loadNextWorkout(
+  userId: string,
+): Promise<ComposedWorkout | null> {
+  const sessions = await sessionRepository.getTodaySessions(userId);
+  const next = sessions.find(
+    (s) => s.status === "confirmed" || s.status === "in_progress",
+  );
+  if (!next) return null;
+
+  return workoutRepository.composeWorkout(next.id);
+}
+
+/** Mark the session as in progress when playback begins */
+export async function startWorkout(sessionId: string): Promise<void> {
+  await sessionRepository.updateStatus(sessionId, "in_progress");
+}
+
+/**
+ * Build the result for one exercise. Exercises without a
+ * session_exercises row can't be recorded and return null.
+ */
+export function buildExerciseSubmission(
+  composed: ComposedExercise,
+  formScores: FormScore[],
+  repCount: number,
+): ExerciseSubmission | null {
+  if (!composed.sessionExerciseId) return null;
+
+  const formScore =
+    formScores.length > 0
+      ? Math.round(
+          formScores.reduce((sum, s) => sum + s.score, 0) / formScores.length,
+        )
+      : null;
+
+  return {
+    sessionExerciseId: composed.sessionExerciseId,
+    formScore,
+    repCount,
+    formScores,
+  };
+}
+
+/**
+ * URL for a meditation ambient track. Tracks are named (e.g. "rain")
+ * and served from storage; full URLs are passed through.
+ */
+export function resolveAmbientTrackUrl(track: string): string {
+  if (/^https?:\/\//.test(track)) return track;
+
+  return supabase.storage.from(AMBIENT_BUCKET).getPublicUrl(`${track}.mp3`).data
+    .publicUrl;
+}
+
+/** Submit the finished workout to /api/workout/complete */
+export async function submitWorkout(
+  submission: WorkoutSubmission,
+): Promise<void> {
+  const response = await fetch(`${API_URL}/api/workout/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as {
+      error?: string;
+    } | null;
+    throw new Error(
+      body?.error ?? `Failed to submit workout: ${response.status}`,
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCycleDurationMs,
+  getBreathingDurationMs,
+  getBreathingState,
+} from "./breathing";
+import type { BreathingPattern } from "../types/session";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+const pattern: BreathingPattern = {
+  inhaleSeconds: 4,
+  holdSeconds: 4,
+  exhaleSeconds: 6,
+  cycles: 3,
+};
+
+/* ─── Durations ────────────────────────────────────────────────────── */
+
+describe("durations", () => {
+  it("sums the phases into one cycle", () => {
+    expect(getCycleDurationMs(pattern)).toBe(14000);
+  });
+
+  it("multiplies the cycle by the cycle count", () => {
+    expect(getBreathingDurationMs(pattern)).toBe(42000);
+  });
+});
+
+/* ─── getBreathingState ────────────────────────────────────────────── */
+
+describe("getBreathingState", () => {
+  it("starts on the first inhale", () => {
+    const state = getBreathingState(pattern, 0);
+
+    expect(state.phase).toBe("inhale");
+    expect(state.cycle).toBe(1);
+    expect(state.phaseProgress).toBe(0);
+    expect(state.phaseSecondsRemaining).toBe(4);
+  });
+
+  it("moves to the next phase exactly on the boundary", () => {
+    expect(getBreathingState(pattern, 3999).phase).toBe("inhale");
+    expect(getBreathingState(pattern, 4000).phase).toBe("hold");
+    expect(getBreathingState(pattern, 8000).phase).toBe("exhale");
+    expect(getBreathingState(pattern, 14000)).toMatchObject({
+      phase: "inhale",
+      cycle: 2,
+    });
+  });
+
+  it("reports progress through the current phase", () => {
+    const state = getBreathingState(pattern, 11000);
+
+    expect(state.phase).toBe("exhale");
+    expect(state.phaseElapsedMs).toBe(3000);
+    expect(state.phaseDurationMs).toBe(6000);
+    expect(state.phaseProgress).toBe(0.5);
+    expect(state.phaseSecondsRemaining).toBe(3);
+  });
+
+  it("skips zero-length phases", () => {
+    const noHold = { ...pattern, holdSeconds: 0 };
+
+    expect(getBreathingState(noHold, 4000).phase).toBe("exhale");
+  });
+
+  it("completes after the last exhale", () => {
+    const state = getBreathingState(pattern, 42000);
+
+    expect(state.isComplete).toBe(true);
+    expect(state.phase).toBeNull();
+    expect(state.cycle).toBe(3);
+  });
+
+  it("treats negative time as the start", () => {
+    expect(getBreathingState(pattern, -500).phaseElapsedMs).toBe(0);
+  });
+
+  it("is complete immediately for an empty pattern", () => {
+    expect(getBreathingState({ ...pattern, cycles: 0 }, 0).isComplete).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Breathing Timeline
+ *
+ * Works out where a guided breathing exercise is at any moment,
+ * timed from a MeditationConfig's BreathingPattern.
+ * Platform-agnostic — the caller supplies elapsed time (e.g. from
+ * requestAnimationFrame) and animates the result.
+ *
+ * Rules:
+ *   - Each cycle runs inhale → hold → exhale, for `cycles` cycles
+ *   - A phase starts inclusive and ends exclusive, so at exactly
+ *     4000ms into a 4s inhale the user is holding
+ *   - Zero-length phases are skipped (a pattern with no hold
+ *     goes straight from inhale to exhale)
+ *   - Time past the last exhale (or a pattern with no length)
+ *     is complete, with no current phase
+ */
+
+import type { BreathingPattern } from "../types/session";
+
+export type BreathingPhase = "inhale" | "hold" | "exhale";
+
+export interface BreathingState {
+  /** Null once every cycle has finished */
+  phase: BreathingPhase | null;
+  /** 1-based cycle number, capped at the pattern's cycle count */
+  cycle: number;
+  phaseElapsedMs: number;
+  phaseDurationMs: number;
+  /** 0–1 through the current phase (1 once complete) */
+  phaseProgress: number;
+  /** Whole seconds left in the current phase, for a countdown */
+  phaseSecondsRemaining: number;
+  isComplete: boolean;
+}
+
+/** Shown when the session's MeditationConfig has no prompt of its own */
+export const DEFAULT_REFLECTION_PROMPT =
+  "How does your body feel compared to when you started?";
+
+const PHASE_ORDER: BreathingPhase[] = ["inhale", "hold", "exhale"];
+
+function phaseDurationMs(
+  pattern: BreathingPattern,
+  phase: BreathingPhase,
+): number {
+  const seconds =
+    phase === "inhale"
+      ? pattern.inhaleSeconds
+      : phase === "hold"
+        ? pattern.holdSeconds
+        : pattern.exhaleSeconds;
+  return Math.max(0, seconds) * 1000;
+}
+
+/** Length of one inhale → hold → exhale cycle */
+export function getCycleDurationMs(pattern: BreathingPattern): number {
+  return PHASE_ORDER.reduce(
+    (sum, phase) => sum + phaseDurationMs(pattern, phase),
+    0,
+  );
+}
+
+/** Length of the whole breathing exercise */
+export function getBreathingDurationMs(pattern: BreathingPattern): number {
+  return getCycleDurationMs(pattern) * Math.max(0, Math.floor(pattern.cycles));
+}
+
+/** Where the exercise is `elapsedMs` after it started */
+export function getBreathingState(
+  pattern: BreathingPattern,
+  elapsedMs: number,
+): BreathingState {
+  const cycleMs = getCycleDurationMs(pattern);
+  const cycles = Math.max(0, Math.floor(pattern.cycles));
+  const elapsed = Math.max(0, elapsedMs);
+
+  if (cycleMs === 0 || elapsed >= cycleMs * cycles) {
+    return {
+      phase: null,
+      cycle: cycles,
+      phaseElapsedMs: 0,
+      phaseDurationMs: 0,
+      phaseProgress: 1,
+      phaseSecondsRemaining: 0,
+      isComplete: true,
+    };
+  }
+
+  const cycleIndex = Math.floor(elapsed / cycleMs);
+  let offset = elapsed - cycleIndex * cycleMs;
+
+  for (const phase of PHASE_ORDER) {
+    const duration = phaseDurationMs(pattern, phase);
+    if (offset < duration) {
+      return {
+        phase,
+        cycle: cycleIndex + 1,
+        phaseElapsedMs: offset,
+        phaseDurationMs: duration,
+        phaseProgress: offset / duration,
+        phaseSecondsRemaining: Math.ceil((duration - offset) / 1000),
+        isComplete: false,
+      };
+    }
+    offset -= duration;
+  }
+
+  /* Unreachable: offset < cycleMs always lands inside a phase */
+  throw new Error("Breathing timeline is out of range.");
+}
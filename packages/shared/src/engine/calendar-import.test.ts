@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseICS,
+  getBusyIntervals,
+  subtractBusyIntervals,
+  importAvailabilityFromICS,
+} from "./calendar-import";
+
+function calendar(...events: string[][]): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]),
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+const DENVER = "America/Denver";
+
+/* ─── Parsing ──────────────────────────────────────────────────────── */
+
+describe("parseICS", () => {
+  it("reads folded lines, quoted TZIDs and nested alarms", () => {
+    const [event] = parseICS(
+      calendar([
+        "UID:standup",
+        "SUMMARY:Daily stand",
+        " up",
+        'DTSTART;TZID="America/New_York":20260309T090000',
+        "DURATION:PT15M",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT10M",
+        "END:VALARM",
+        "TRANSP:OPAQUE",
+      ]),
+    );
+
+    expect(event).toMatchObject({
+      uid: "standup",
+      summary: "Daily standup",
+      start: {
+        date: "2026-03-09",
+        minutes: 540,
+        timeZone: "America/New_York",
+        allDay: false,
+      },
+      durationMs: 15 * 60 * 1000,
+      busy: true,
+    });
+  });
+
+  it("marks cancelled and free events as not busy", () => {
+    const events = parseICS(
+      calendar(
+        ["UID:a", "DTSTART:20260309T160000Z", "STATUS:CANCELLED"],
+        ["UID:b", "DTSTART:20260309T160000Z", "TRANSP:TRANSPARENT"],
+      ),
+    );
+
+    expect(events.map((e) => e.busy)).toEqual([false, false]);
+  });
+});
+
+/* ─── Busy Time ────────────────────────────────────────────────────── */
+
+describe("getBusyIntervals", () => {
+  it("converts events into the user's local time and merges overlaps", () => {
+    const events = parseICS(
+      calendar(
+        ["UID:a", "DTSTART:20260309T160000Z", "DTEND:20260309T170000Z"],
+        [
+          "UID:b",
+          "DTSTART;TZID=America/Denver:20260309T103000",
+          "DTEND;TZID=America/Denver:20260309T113000",
+        ],
+        ["UID:c", "DTSTART:20260310T160000Z", "DTEND:20260310T170000Z"],
+      ),
+    );
+
+    expect(getBusyIntervals(events, "2026-03-09", DENVER)).toEqual([
+      { start: 600, end: 690 },
+    ]);
+  });
+
+  it("keeps a weekly meeting on its own timezone's wall clock across DST", () => {
+    const events = parseICS(
+      calendar([
+        "UID:weekly",
+        "DTSTART;TZID=Europe/London:20260302T170000",
+        "DTEND;TZID=Europe/London:20260302T180000",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO",
+      ]),
+    );
+
+    /* London is still on GMT; Denver has moved to MDT (UTC-6) */
+    expect(getBusyIntervals(events, "2026-03-09", DENVER)).toEqual([
+      { start: 660, end: 720 },
+    ]);
+    expect(getBusyIntervals(events, "2026-03-10", DENVER)).toEqual([]);
+  });
+
+  it("honours COUNT, UNTIL and EXDATE", () => {
+    const events = parseICS(
+      calendar(
+        [
+          "UID:counted",
+          "DTSTART;TZID=America/Denver:20260302T090000",
+          "DURATION:PT30M",
+          "RRULE:FREQ=DAILY;COUNT=3",
+        ],
+        [
+          "UID:until",
+          "DTSTART;TZID=America/Denver:20260302T130000",
+          "DURATION:PT30M",
+          "RRULE:FREQ=DAILY;UNTIL=20260304T000000Z",
+        ],
+        [
+          "UID:skipped",
+          "DTSTART;TZID=America/Denver:20260302T150000",
+          "DURATION:PT30M",
+          "RRULE:FREQ=DAILY",
+          "EXDATE;TZID=America/Denver:20260304T150000",
+        ],
+      ),
+    );
+
+    expect(getBusyIntervals(events, "2026-03-04", DENVER)).toEqual([
+      { start: 540, end: 570 },
+    ]);
+    expect(getBusyIntervals(events, "2026-03-05", DENVER)).toEqual([
+      { start: 900, end: 930 },
+    ]);
+  });
+
+  it("expands monthly rules by ordinal weekday", () => {
+    const events = parseICS(
+      calendar([
+        "UID:review",
+        "DTSTART;TZID=America/Denver:20260127T140000",
+        "DURATION:PT1H",
+        "RRULE:FREQ=MONTHLY;BYDAY=-1FR",
+      ]),
+    );
+
+    /* Last Friday of March 2026 is the 27th */
+    expect(getBusyIntervals(events, "2026-03-27", DENVER)).toEqual([
+      { start: 840, end: 900 },
+    ]);
+    expect(getBusyIntervals(events, "2026-03-20", DENVER)).toEqual([]);
+  });
+
+  it("replaces an occurrence with its RECURRENCE-ID override", () => {
+    const events = parseICS(
+      calendar(
+        [
+          "UID:1on1",
+          "DTSTART;TZID=America/Denver:20260302T100000",
+          "DURATION:PT30M",
+          "RRULE:FREQ=WEEKLY",
+        ],
+        [
+          "UID:1on1",
+          "RECURRENCE-ID;TZID=America/Denver:20260309T100000",
+          "DTSTART;TZID=America/Denver:20260309T160000",
+          "DURATION:PT30M",
+        ],
+      ),
+    );
+
+    expect(getBusyIntervals(events, "2026-03-09", DENVER)).toEqual([
+      { start: 960, end: 990 },
+    ]);
+  });
+
+  it("blocks the whole day for an opaque all-day event", () => {
+    const events = parseICS(
+      calendar([
+        "UID:offsite",
+        "DTSTART;VALUE=DATE:20260309",
+        "DTEND;VALUE=DATE:20260310",
+      ]),
+    );
+
+    expect(getBusyIntervals(events, "2026-03-09", DENVER)).toEqual([
+      { start: 0, end: 1440 },
+    ]);
+  });
+});
+
+/* ─── Availability ─────────────────────────────────────────────────── */
+
+describe("subtractBusyIntervals", () => {
+  it("returns the gaps between meetings inside the work window", () => {
+    expect(
+      subtractBusyIntervals("09:00", "17:00", [
+        { start: 480, end: 570 },
+        { start: 720, end: 780 },
+        { start: 990, end: 1100 },
+      ]),
+    ).toEqual([
+      { start: "09:30", end: "12:00" },
+      { start: "13:00", end: "16:30" },
+    ]);
+  });
+});
+
+describe("importAvailabilityFromICS", () => {
+  it("produces blocks straight from a calendar body", () => {
+    const ics = calendar([
+      "UID:lunch",
+      "DTSTART;TZID=America/Denver:20260309T120000",
+      "DTEND;TZID=America/Denver:20260309T130000",
+    ]);
+
+    expect(
+      importAvailabilityFromICS(ics, "2026-03-09", DENVER, "09:00", "17:00"),
+    ).toEqual([
+      { start: "09:00", end: "12:00" },
+      { start: "13:00", end: "17:00" },
+    ]);
+  });
+});
@@ -0,0 +1,631 @@
+/**
+ * Calendar Import
+ *
+ * Turns an iCalendar (.ics) export or feed body into availability
+ * blocks for a single day, so proposeSchedule never places a session
+ * on top of a meeting.
+ * Platform-agnostic — the caller fetches or reads the file.
+ *
+ * Rules:
+ *   - Only VEVENTs are read; VTIMEZONE definitions are ignored and
+ *     TZIDs must be IANA names (anything else, and floating times,
+ *     are read in the user's timezone)
+ *   - Recurrence supports FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with
+ *     INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH; other
+ *     frequencies keep just the first occurrence
+ *   - Occurrences repeat on the event's own wall-clock time, so a
+ *     9:00 New York standup stays at 9:00 New York across DST
+ *   - EXDATEs and RECURRENCE-ID overrides replace master occurrences
+ *   - Cancelled and TRANSP:TRANSPARENT (free) events are not busy
+ *   - An opaque all-day event blocks the whole day
+ */
+
+import type { AvailabilityBlock } from "../types/schedule";
+import { minutesToTime, timeToMinutes } from "./scheduling";
+import {
+  getZonedDayBounds,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToInstant,
+} from "./timezone";
+
+export interface CalendarDateTime {
+  /** Wall-clock date, YYYY-MM-DD */
+  date: string;
+  /** Wall-clock minutes since midnight (0 for all-day values) */
+  minutes: number;
+  /** IANA zone, "UTC" for Z-suffixed values, null for floating times */
+  timeZone: string | null;
+  /** True for VALUE=DATE values */
+  allDay: boolean;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceWeekday {
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  /** 2 in "2TU", -1 in "-1FR"; null for a plain "TU" */
+  ordinal: number | null;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count: number | null;
+  until: CalendarDateTime | null;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  /** 1–12 */
+  byMonth: number[];
+}
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: CalendarDateTime;
+  end: CalendarDateTime | null;
+  /** From DURATION, when there's no DTEND */
+  durationMs: number | null;
+  rrule: RecurrenceRule | null;
+  exdates: CalendarDateTime[];
+  /** Set on an override of one occurrence of a recurring event */
+  recurrenceId: CalendarDateTime | null;
+  /** False for cancelled and transparent (free) events */
+  busy: boolean;
+}
+
+export interface BusyInterval {
+  /** Local minutes since midnight */
+  start: number;
+  /** Local minutes since midnight, up to 1440 */
+  end: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MINUTES_PER_DAY = 24 * 60;
+/** Longest span of candidate dates checked for one event */
+const MAX_SCAN_DAYS = 366;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+
+const DATE_TIME_PATTERN =
+  /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const DURATION_PATTERN =
+  /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+/* ─── Dates ────────────────────────────────────────────────────────── */
+
+function toDayNumber(date: string): number {
+  const [year = 1970, month = 1, day = 1] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(dayNumber: number): number {
+  /* 1970-01-01 was a Thursday */
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/* ─── Parsing ──────────────────────────────────────────────────────── */
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Split "NAME;PARAM=x:value", ignoring colons inside quoted params */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name = "", ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq === -1) continue;
+    params[raw.slice(0, eq).toUpperCase()] = raw
+      .slice(eq + 1)
+      .replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseDateTime(
+  value: string,
+  params: Record<string, string>,
+): CalendarDateTime | null {
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+
+  if (hours === undefined || params.VALUE === "DATE") {
+    return { date, minutes: 0, timeZone: null, allDay: true };
+  }
+
+  const tzid = params.TZID?.replace(/^\//, "");
+  let timeZone: string | null = null;
+  if (utc) timeZone = "UTC";
+  else if (tzid && isValidTimeZone(tzid)) timeZone = tzid;
+
+  return {
+    date,
+    minutes: Number(hours) * 60 + Number(minutes),
+    timeZone,
+    allDay: false,
+  };
+}
+
+function parseDuration(value: string): number | null {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  if (sign === "-") return 0;
+
+  return (
+    (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * DAY_MS +
+    Number(hours ?? 0) * 60 * MINUTE_MS +
+    Number(minutes ?? 0) * MINUTE_MS +
+    Number(seconds ?? 0) * 1000
+  );
+}
+
+function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key = "", partValue = ""] = part.split("=");
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  const freq = FREQUENCIES.find((f) => f === parts.FREQ);
+  if (!freq) return null;
+
+  const byDay: RecurrenceWeekday[] = [];
+  for (const entry of (parts.BYDAY ?? "").split(",")) {
+    const match = BYDAY_PATTERN.exec(entry);
+    if (!match) continue;
+    byDay.push({
+      weekday: WEEKDAYS.indexOf(match[2] ?? ""),
+      ordinal: match[1] ? Number(match[1]) : null,
+    });
+  }
+
+  const toNumbers = (list: string | undefined) =>
+    (list ?? "")
+      .split(",")
+      .filter((n) => n !== "")
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL ?? 1) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : null,
+    until: parts.UNTIL ? parseDateTime(parts.UNTIL, {}) : null,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH),
+  };
+}
+
+/**
+ * Read every VEVENT from an iCalendar body.
+ * Events without a usable DTSTART are dropped.
+ */
+export function parseICS(text: string): CalendarEvent[] {
+  /* Unfold: a line starting with a space or tab continues the previous one */
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const events: CalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    const value = line.value.toUpperCase();
+
+    if (line.name === "BEGIN") {
+      if (value === "VEVENT" && !current) current = [];
+      else if (current) nestedDepth++;
+    } else if (line.name === "END") {
+      if (!current) continue;
+      if (nestedDepth > 0) nestedDepth--;
+      else if (value === "VEVENT") {
+        const event = buildEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current && nestedDepth === 0) {
+      current.push(line);
+    }
+  }
+
+  return events;
+}
+
+function buildEvent(lines: ContentLine[]): CalendarEvent | null {
+  let uid = "";
+  let summary = "";
+  let start: CalendarDateTime | null = null;
+  let end: CalendarDateTime | null = null;
+  let durationMs: number | null = null;
+  let rrule: RecurrenceRule | null = null;
+  let recurrenceId: CalendarDateTime | null = null;
+  let cancelled = false;
+  let transparent = false;
+  const exdates: CalendarDateTime[] = [];
+
+  for (const { name, params, value } of lines) {
+    switch (name) {
+      case "UID":
+        uid = value;
+        break;
+      case "SUMMARY":
+        summary = value.replace(/\\([,;\\])/g, "$1").replace(/\\n/gi, "\n");
+        break;
+      case "DTSTART":
+        start = parseDateTime(value, params);
+        break;
+      case "DTEND":
+        end = parseDateTime(value, params);
+        break;
+      case "DURATION":
+        durationMs = parseDuration(value);
+        break;
+      case "RRULE":
+        rrule = parseRecurrenceRule(value);
+        break;
+      case "EXDATE":
+        for (const entry of value.split(",")) {
+          const exdate = parseDateTime(entry, params);
+          if (exdate) exdates.push(exdate);
+        }
+        break;
+      case "RECURRENCE-ID":
+        recurrenceId = parseDateTime(value, params);
+        break;
+      case "STATUS":
+        cancelled = value.toUpperCase() === "CANCELLED";
+        break;
+      case "TRANSP":
+        transparent = value.toUpperCase() === "TRANSPARENT";
+        break;
+    }
+  }
+
+  if (!start) return null;
+
+  return {
+    uid,
+    summary,
+    start,
+    end,
+    durationMs,
+    rrule,
+    exdates,
+    recurrenceId,
+    busy: !cancelled && !transparent,
+  };
+}
+
+/* ─── Recurrence ───────────────────────────────────────────────────── */
+
+function toInstant(value: CalendarDateTime, fallbackZone: string): number {
+  return zonedTimeToInstant(
+    value.date,
+    value.minutes,
+    value.allDay ? fallbackZone : (value.timeZone ?? fallbackZone),
+  ).getTime();
+}
+
+function matchesDayInMonth(
+  rule: RecurrenceRule,
+  dayNumber: number,
+  defaultDay: number,
+): boolean {
+  const date = new Date(dayNumber * DAY_MS);
+  const day = date.getUTCDate();
+  const total = daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1);
+  const weekday = weekdayOf(dayNumber);
+
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+    return day === defaultDay;
+  }
+
+  const monthDayOk =
+    rule.byMonthDay.length === 0 ||
+    rule.byMonthDay.some((n) => (n > 0 ? n : total + n + 1) === day);
+
+  const weekdayOk =
+    rule.byDay.length === 0 ||
+    rule.byDay.some((entry) => {
+      if (entry.weekday !== weekday) return false;
+      if (entry.ordinal === null) return true;
+      return entry.ordinal > 0
+        ? Math.ceil(day / 7) === entry.ordinal
+        : Math.floor((total - day) / 7) + 1 === -entry.ordinal;
+    });
+
+  return monthDayOk && weekdayOk;
+}
+
+/** Whether the rule's pattern lands on a date, ignoring COUNT and UNTIL */
+function matchesRule(
+  rule: RecurrenceRule,
+  firstDay: number,
+  dayNumber: number,
+): boolean {
+  if (dayNumber < firstDay) return false;
+  if (dayNumber === firstDay) return true;
+
+  const first = new Date(firstDay * DAY_MS);
+  const date = new Date(dayNumber * DAY_MS);
+  const month = date.getUTCMonth() + 1;
+  const weekday = weekdayOf(dayNumber);
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return false;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return (
+        (dayNumber - firstDay) % rule.interval === 0 &&
+        (rule.byDay.length === 0 ||
+          rule.byDay.some((entry) => entry.weekday === weekday)) &&
+        (rule.byMonthDay.length === 0 ||
+          matchesDayInMonth({ ...rule, byDay: [] }, dayNumber, 0))
+      );
+
+    case "WEEKLY": {
+      /* Weeks start on Monday (the default WKST) */
+      const mondayOf = (n: number) => n - ((weekdayOf(n) + 6) % 7);
+      const weeks = (mondayOf(dayNumber) - mondayOf(firstDay)) / 7;
+      if (weeks % rule.interval !== 0) return false;
+      return rule.byDay.length > 0
+        ? rule.byDay.some((entry) => entry.weekday === weekday)
+        : weekday === weekdayOf(firstDay);
+    }
+
+    case "MONTHLY": {
+      const months =
+        (date.getUTCFullYear() - first.getUTCFullYear()) * 12 +
+        (date.getUTCMonth() - first.getUTCMonth());
+      if (months % rule.interval !== 0) return false;
+      return matchesDayInMonth(rule, dayNumber, first.getUTCDate());
+    }
+
+    case "YEARLY": {
+      const years = date.getUTCFullYear() - first.getUTCFullYear();
+      if (years % rule.interval !== 0) return false;
+      if (rule.byMonth.length === 0 && month !== first.getUTCMonth() + 1) {
+        return false;
+      }
+      return matchesDayInMonth(rule, dayNumber, first.getUTCDate());
+    }
+  }
+}
+
+/** Whether an event has an occurrence starting on a wall-clock date */
+function occursOn(
+  event: CalendarEvent,
+  dayNumber: number,
+  zone: string,
+): boolean {
+  const firstDay = toDayNumber(event.start.date);
+  const rule = event.rrule;
+
+  if (!rule) return dayNumber === firstDay;
+  if (!matchesRule(rule, firstDay, dayNumber)) return false;
+
+  if (rule.until) {
+    if (rule.until.allDay) {
+      if (dayNumber > toDayNumber(rule.until.date)) return false;
+    } else {
+      const occurrence = zonedTimeToInstant(
+        fromDayNumber(dayNumber),
+        event.start.minutes,
+        zone,
+      ).getTime();
+      if (occurrence > toInstant(rule.until, zone)) return false;
+    }
+  }
+
+  if (rule.count !== null) {
+    let seen = 0;
+    for (let n = firstDay; n <= dayNumber; n++) {
+      if (matchesRule(rule, firstDay, n)) seen++;
+      if (seen > rule.count) return false;
+    }
+  }
+
+  return true;
+}
+
+/* ─── Busy Time ────────────────────────────────────────────────────── */
+
+/**
+ * Busy intervals for a local date in the user's timezone, merged and
+ * sorted. Events spilling over midnight are clipped to the day.
+ */
+export function getBusyIntervals(
+  events: CalendarEvent[],
+  date: string,
+  timezone: string,
+): BusyInterval[] {
+  const bounds = getZonedDayBounds(date, timezone);
+  const dayStart = Date.parse(bounds.start);
+  const dayEnd = Date.parse(bounds.end);
+
+  /* Master occurrences replaced by a RECURRENCE-ID override */
+  const overridden = new Map<string, CalendarDateTime[]>();
+  for (const event of events) {
+    if (!event.recurrenceId) continue;
+    const list = overridden.get(event.uid) ?? [];
+    list.push(event.recurrenceId);
+    overridden.set(event.uid, list);
+  }
+
+  const ranges: { start: number; end: number }[] = [];
+
+  for (const event of events) {
+    if (!event.busy) continue;
+
+    const zone = event.start.allDay
+      ? timezone
+      : (event.start.timeZone ?? timezone);
+    const startInstant = toInstant(event.start, timezone);
+
+    let lengthMs: number;
+    let spanDays = 0;
+    if (event.start.allDay) {
+      spanDays = event.end
+        ? Math.max(
+            1,
+            toDayNumber(event.end.date) - toDayNumber(event.start.date),
+          )
+        : Math.max(1, Math.ceil((event.durationMs ?? DAY_MS) / DAY_MS));
+      lengthMs = spanDays * DAY_MS;
+    } else if (event.end) {
+      lengthMs = Math.max(0, toInstant(event.end, timezone) - startInstant);
+    } else {
+      lengthMs = event.durationMs ?? 0;
+    }
+    if (lengthMs === 0) continue;
+
+    const excluded = [
+      ...event.exdates,
+      ...(event.recurrenceId ? [] : (overridden.get(event.uid) ?? [])),
+    ];
+
+    /* Candidate start dates, in the event's own timezone */
+    const first = toDayNumber(
+      getZonedParts(new Date(dayStart - lengthMs), zone).date,
+    );
+    const last = toDayNumber(getZonedParts(new Date(dayEnd), zone).date);
+
+    for (let n = Math.max(first - 1, last - MAX_SCAN_DAYS); n <= last; n++) {
+      if (!occursOn(event, n, zone)) continue;
+
+      const occurrenceDate = fromDayNumber(n);
+      const start = zonedTimeToInstant(
+        occurrenceDate,
+        event.start.minutes,
+        zone,
+      ).getTime();
+      const end = event.start.allDay
+        ? zonedTimeToInstant(fromDayNumber(n + spanDays), 0, zone).getTime()
+        : start + lengthMs;
+
+      const isExcluded = excluded.some((ex) =>
+        ex.allDay ? ex.date === occurrenceDate : toInstant(ex, zone) === start,
+      );
+      if (isExcluded) continue;
+
+      if (start < dayEnd && end > dayStart) ranges.push({ start, end });
+    }
+  }
+
+  const intervals = ranges
+    .map((range) => ({
+      start:
+        range.start <= dayStart
+          ? 0
+          : getZonedParts(new Date(range.start), timezone).minutes,
+      end:
+        range.end >= dayEnd
+          ? MINUTES_PER_DAY
+          : getZonedParts(new Date(range.end), timezone).minutes,
+    }))
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: BusyInterval[] = [];
+  for (const interval of intervals) {
+    const previous = merged[merged.length - 1];
+    if (previous && interval.start <= previous.end) {
+      previous.end = Math.max(previous.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * The parts of the work window not covered by busy intervals.
+ */
+export function subtractBusyIntervals(
+  workWindowStart: string,
+  workWindowEnd: string,
+  busy: BusyInterval[],
+): AvailabilityBlock[] {
+  const workEnd = timeToMinutes(workWindowEnd);
+  const blocks: AvailabilityBlock[] = [];
+  let cursor = timeToMinutes(workWindowStart);
+
+  for (const interval of [...busy].sort((a, b) => a.start - b.start)) {
+    if (interval.start >= workEnd) break;
+    if (interval.end <= cursor) continue;
+    if (interval.start > cursor) {
+      blocks.push({
+        start: minutesToTime(cursor),
+        end: minutesToTime(interval.start),
+      });
+    }
+    cursor = Math.max(cursor, interval.end);
+  }
+
+  if (cursor < workEnd) {
+    blocks.push({ start: minutesToTime(cursor), end: minutesToTime(workEnd) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Availability blocks for a date: the work window minus every busy
+ * event in the calendar. Pass the result to proposeSchedule.
+ */
+export function importAvailabilityFromICS(
+  text: string,
+  date: string,
+  timezone: string,
+  workWindowStart: string,
+  workWindowEnd: string,
+): AvailabilityBlock[] {
+  return subtractBusyIntervals(
+    workWindowStart,
+    workWindowEnd,
+    getBusyIntervals(parseICS(text), date, timezone),
+  );
+}
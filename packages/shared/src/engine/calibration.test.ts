@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import {
+  CALIBRATION_MOVEMENTS,
+  measureMovement,
+  computeRangeOfMotionFactor,
+  inferPosition,
+  createCalibrationSession,
+} from "./calibration";
+import type { CalibrationMovement } from "./calibration";
+import type { Landmark, LandmarkName, PoseLandmarks } from "../types/pose";
+import { LANDMARK_INDEX } from "../types/pose";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+function point(x: number, y: number, visibility = 1): Landmark {
+  return { x, y, z: 0, visibility };
+}
+
+/**
+ * Build a pose with the given landmarks. Everything else is
+ * invisible, so only the joints under test can be measured.
+ */
+function createPose(
+  overrides: Partial<Record<LandmarkName, Landmark>>,
+  timestamp = 0,
+): PoseLandmarks {
+  const landmarks: Landmark[] = Array.from({ length: 33 }, () =>
+    point(0, 0, 0),
+  );
+  for (const [name, landmark] of Object.entries(overrides)) {
+    landmarks[LANDMARK_INDEX[name as LandmarkName]] = landmark;
+  }
+  return { landmarks, timestamp };
+}
+
+/** Left arm raised to the given shoulder angle */
+function armPose(
+  degrees: number,
+  extra: Partial<Record<LandmarkName, Landmark>> = {},
+): PoseLandmarks {
+  const radians = (degrees * Math.PI) / 180;
+  return createPose({
+    LEFT_SHOULDER: point(0, 0),
+    LEFT_HIP: point(0, -1),
+    LEFT_ELBOW: point(Math.sin(radians), -Math.cos(radians)),
+    ...extra,
+  });
+}
+
+const standingLegs = {
+  LEFT_SHOULDER: point(0, 1),
+  LEFT_HIP: point(0, 0),
+  LEFT_KNEE: point(0, -1),
+  LEFT_ANKLE: point(0, -2),
+};
+
+const seatedLegs = {
+  LEFT_SHOULDER: point(0, 1),
+  LEFT_HIP: point(0, 0),
+  LEFT_KNEE: point(1, 0),
+  LEFT_ANKLE: point(1, -1),
+};
+
+const armRaise: CalibrationMovement = {
+  id: "arm_raise",
+  label: "Arm raise",
+  instruction: "Raise your arm",
+  joints: ["left_shoulder"],
+  expectedRange: 150,
+  durationMs: 1000,
+};
+
+/* ─── Movement Measurement ─────────────────────────────────────────── */
+
+describe("measureMovement", () => {
+  it("measures the spread of each joint angle", () => {
+    const frames = [10, 60, 130, 40].map((d) => armPose(d));
+
+    const result = measureMovement(armRaise, frames);
+
+    expect(result.achievedRanges.left_shoulder).toBeCloseTo(120);
+    expect(result.ratio).toBeCloseTo(0.8);
+  });
+
+  it("caps the ratio at 1 for users beyond the expected range", () => {
+    const frames = [0, 170].map((d) => armPose(d));
+
+    expect(measureMovement(armRaise, frames).ratio).toBe(1);
+  });
+
+  it("returns a null ratio when no joint was seen", () => {
+    const result = measureMovement(armRaise, [createPose({})]);
+
+    expect(result.achievedRanges).toEqual({});
+    expect(result.ratio).toBeNull();
+  });
+});
+
+describe("computeRangeOfMotionFactor", () => {
+  it("averages movement ratios", () => {
+    const factor = computeRangeOfMotionFactor([
+      { movementId: "a", achievedRanges: {}, ratio: 0.9 },
+      { movementId: "b", achievedRanges: {}, ratio: 0.7 },
+      { movementId: "c", achievedRanges: {}, ratio: null },
+    ]);
+
+    expect(factor).toBe(0.8);
+  });
+
+  it("assumes full range without measurements", () => {
+    expect(computeRangeOfMotionFactor([])).toBe(1);
+  });
+});
+
+/* ─── Position Inference ───────────────────────────────────────────── */
+
+describe("inferPosition", () => {
+  it("detects standing from straight hips and knees", () => {
+    expect(inferPosition([createPose(standingLegs)])).toBe("standing");
+  });
+
+  it("detects seated from bent hips and knees", () => {
+    expect(inferPosition([createPose(seatedLegs)])).toBe("seated");
+  });
+
+  it("assumes seated when the legs are out of frame", () => {
+    const frames = [armPose(30), armPose(60), createPose(standingLegs)];
+
+    expect(inferPosition(frames)).toBe("seated");
+  });
+
+  it("assumes seated with no frames", () => {
+    expect(inferPosition([])).toBe("seated");
+  });
+});
+
+/* ─── Calibration Session ──────────────────────────────────────────── */
+
+describe("createCalibrationSession", () => {
+  it("uses the default reference movements", () => {
+    const session = createCalibrationSession();
+
+    expect(session.getCurrentMovement()).toBe(CALIBRATION_MOVEMENTS[0]);
+  });
+
+  it("throws without movements", () => {
+    expect(() => createCalibrationSession([])).toThrow("at least one");
+  });
+
+  it("steps through movements until complete", () => {
+    const session = createCalibrationSession([armRaise, armRaise]);
+
+    expect(session.getStepIndex()).toBe(0);
+    expect(session.advance()).toBe(armRaise);
+    expect(session.isComplete()).toBe(false);
+    expect(session.advance()).toBeNull();
+    expect(session.isComplete()).toBe(true);
+  });
+
+  it("builds a WorkspaceCalibration from recorded frames", () => {
+    const session = createCalibrationSession([armRaise]);
+    for (const degrees of [0, 45, 90]) {
+      /* Knee forward of the hip: seated */
+      session.addFrame(
+        armPose(degrees, {
+          LEFT_KNEE: point(1, -1),
+          LEFT_ANKLE: point(1, -2),
+        }),
+      );
+    }
+    session.advance();
+
+    const calibration = session.finish(new Date("2026-03-09T09:00:00Z"));
+
+    expect(calibration.rangeOfMotionFactor).toBe(0.6);
+    expect(calibration.position).toBe("seated");
+    expect(calibration.calibratedAt).toBe("2026-03-09T09:00:00.000Z");
+  });
+
+  it("refuses to finish before every movement is done", () => {
+    const session = createCalibrationSession([armRaise]);
+
+    expect(() => session.finish()).toThrow("not complete");
+  });
+
+  it("clears frames and progress on reset", () => {
+    const session = createCalibrationSession([armRaise]);
+    session.addFrame(armPose(0));
+    session.addFrame(armPose(90));
+    session.advance();
+
+    session.reset();
+
+    expect(session.getStepIndex()).toBe(0);
+    expect(session.getResults()[0]!.ratio).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Workspace Calibration
+ *
+ * Guides the user through a few reference movements and turns the
+ * measured ranges into a WorkspaceCalibration record.
+ * Pure state machine — the caller supplies pose frames and timing.
+ *
+ * Rules:
+ *   - Each movement measures the spread (max - min) of its joint angles
+ *   - Range of motion factor = mean of achieved / expected across movements,
+ *     clamped to 0-1 and rounded to 2 decimals
+ *   - Seated when the median knee or hip angle is bent (< 130°)
+ *   - Seated when the lower body is mostly out of frame (desk webcam)
+ */
+
+import type { ExercisePosition } from "../types/exercise";
+import type { PoseLandmarks } from "../types/pose";
+import type { WorkspaceCalibration } from "../types/schedule";
+import { measureJointAngle } from "./form-scoring";
+
+export interface CalibrationMovement {
+  id: string;
+  label: string;
+  instruction: string;
+  /** Joints whose angle spread is measured during this movement */
+  joints: string[];
+  /** Degrees of spread a user with full mobility reaches */
+  expectedRange: number;
+  /** How long the user is given to perform the movement */
+  durationMs: number;
+}
+
+export interface MovementResult {
+  movementId: string;
+  /** Achieved spread per joint in degrees; joints never seen are omitted */
+  achievedRanges: Record<string, number>;
+  /** Achieved / expected, 0-1. Null when no joint was measured. */
+  ratio: number | null;
+}
+
+const SEATED_ANGLE_THRESHOLD = 130;
+const MIN_LOWER_BODY_VISIBILITY_SHARE = 0.5;
+
+export const CALIBRATION_MOVEMENTS: CalibrationMovement[] = [
+  {
+    id: "arm_raise",
+    label: "Arm raise",
+    instruction:
+      "Raise both arms out to the side and up as high as is comfortable, then lower them.",
+    joints: ["left_shoulder", "right_shoulder"],
+    expectedRange: 150,
+    durationMs: 6000,
+  },
+  {
+    id: "elbow_bend",
+    label: "Elbow bend",
+    instruction:
+      "With elbows at your sides, bend your arms to bring your hands to your shoulders, then straighten them.",
+    joints: ["left_elbow", "right_elbow"],
+    expectedRange: 120,
+    durationMs: 6000,
+  },
+  {
+    id: "head_nod",
+    label: "Head nod",
+    instruction:
+      "Slowly lower your chin toward your chest, then lift it back up.",
+    joints: ["neck"],
+    expectedRange: 40,
+    durationMs: 5000,
+  },
+];
+
+/** Median of a list; an empty list has none, so it throws */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const upper = sorted[mid];
+  if (upper === undefined) throw new Error("Median of an empty list.");
+
+  const lower = sorted[mid - 1];
+  return sorted.length % 2 === 0 && lower !== undefined
+    ? (lower + upper) / 2
+    : upper;
+}
+
+/**
+ * Measure how far each of a movement's joints travelled across its frames.
+ */
+export function measureMovement(
+  movement: CalibrationMovement,
+  frames: PoseLandmarks[],
+): MovementResult {
+  const achievedRanges: Record<string, number> = {};
+
+  for (const joint of movement.joints) {
+    let min = Infinity;
+    let max = -Infinity;
+
+    for (const frame of frames) {
+      const angle = measureJointAngle(joint, frame);
+      if (angle === null) continue;
+      min = Math.min(min, angle);
+      max = Math.max(max, angle);
+    }
+
+    if (max >= min) achievedRanges[joint] = Math.round((max - min) * 10) / 10;
+  }
+
+  const spreads = Object.values(achievedRanges);
+  const ratio =
+    spreads.length > 0
+      ? Math.min(
+          1,
+          spreads.reduce((sum, s) => sum + s, 0) /
+            spreads.length /
+            movement.expectedRange,
+        )
+      : null;
+
+  return { movementId: movement.id, achievedRanges, ratio };
+}
+
+/**
+ * Combine movement results into a single range of motion factor.
+ * Movements with no measurements are ignored; with none at all,
+ * full range (1.0) is assumed.
+ */
+export function computeRangeOfMotionFactor(results: MovementResult[]): number {
+  const ratios = results
+    .map((r) => r.ratio)
+    .filter((r): r is number => r !== null);
+
+  if (ratios.length === 0) return 1;
+
+  const mean = ratios.reduce((sum, r) => sum + r, 0) / ratios.length;
+  return Math.round(Math.min(1, Math.max(0, mean)) * 100) / 100;
+}
+
+/**
+ * Infer whether the user is seated or standing from their hip and
+ * knee angles. A desk webcam that can't see the legs implies seated.
+ */
+export function inferPosition(frames: PoseLandmarks[]): ExercisePosition {
+  const lowerBodyAngles: number[] = [];
+  let framesWithLowerBody = 0;
+
+  for (const frame of frames) {
+    const angles = ["left_knee", "right_knee", "left_hip", "right_hip"]
+      .map((joint) => measureJointAngle(joint, frame))
+      .filter((a): a is number => a !== null);
+
+    if (angles.length === 0) continue;
+    framesWithLowerBody++;
+    lowerBodyAngles.push(Math.min(...angles));
+  }
+
+  if (
+    frames.length === 0 ||
+    framesWithLowerBody / frames.length < MIN_LOWER_BODY_VISIBILITY_SHARE
+  ) {
+    return "seated";
+  }
+
+  return median(lowerBodyAngles) < SEATED_ANGLE_THRESHOLD
+    ? "seated"
+    : "standing";
+}
+
+/**
+ * Stateful calibration session.
+ *
+ * Frames are attributed to the current movement until `advance`
+ * moves on. `finish` builds the WorkspaceCalibration once every
+ * movement has been performed.
+ */
+export function createCalibrationSession(
+  movements: CalibrationMovement[] = CALIBRATION_MOVEMENTS,
+) {
+  if (movements.length === 0) {
+    throw new Error("Calibration needs at least one movement.");
+  }
+
+  const framesByMovement: PoseLandmarks[][] = movements.map(() => []);
+  let index = 0;
+
+  function getCurrentMovement(): CalibrationMovement | null {
+    return movements[index] ?? null;
+  }
+
+  function getStepIndex(): number {
+    return index;
+  }
+
+  function isComplete(): boolean {
+    return index >= movements.length;
+  }
+
+  function addFrame(pose: PoseLandmarks): void {
+    const frames = framesByMovement[index];
+    if (frames) frames.push(pose);
+  }
+
+  /** Move to the next movement. Returns it, or null when done. */
+  function advance(): CalibrationMovement | null {
+    if (index < movements.length) index++;
+    return getCurrentMovement();
+  }
+
+  function getResults(): MovementResult[] {
+    return movements.map((movement, i) =>
+      measureMovement(movement, framesByMovement[i] ?? []),
+    );
+  }
+
+  function finish(now: Date = new Date()): WorkspaceCalibration {
+    if (!isComplete()) {
+      throw new Error("Calibration is not complete.");
+    }
+
+    return {
+      position: inferPosition(framesByMovement.flat()),
+      rangeOfMotionFactor: computeRangeOfMotionFactor(getResults()),
+      calibratedAt: now.toISOString(),
+    };
+  }
+
+  function reset(): void {
+    framesByMovement.forEach((frames) => (frames.length = 0));
+    index = 0;
+  }
+
+  return {
+    getCurrentMovement,
+    getStepIndex,
+    isComplete,
+    addFrame,
+    advance,
+    getResults,
+    finish,
+    reset,
+  };
+}
+
+export type CalibrationSession = ReturnType<typeof createCalibrationSession>;
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { applyWorkspaceConcessions } from "./concessions";
+import type { FormCriteria } from "../types/exercise";
+import type { WorkspaceCalibration } from "../types/schedule";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+const criteria: FormCriteria = {
+  angleRanges: [
+    { joint: "left_elbow", min: 40, max: 160, weight: 0.5 },
+    { joint: "left_knee", min: 160, max: 180, weight: 0.3 },
+    { joint: "neck", min: 150, max: 180, weight: 0.2 },
+  ],
+  expectedReps: 8,
+  minimumScore: 60,
+};
+
+function createCalibration(
+  overrides: Partial<WorkspaceCalibration> = {},
+): WorkspaceCalibration {
+  return {
+    position: "standing",
+    rangeOfMotionFactor: 1,
+    calibratedAt: "2026-03-09T09:00:00Z",
+    ...overrides,
+  };
+}
+
+/* ─── Tests ────────────────────────────────────────────────────────── */
+
+describe("applyWorkspaceConcessions", () => {
+  it("returns criteria unchanged without a calibration", () => {
+    const result = applyWorkspaceConcessions(criteria, null, "standing");
+
+    expect(result.criteria).toBe(criteria);
+    expect(result.concessionApplied).toBe(false);
+  });
+
+  it("applies no concession for a full-range standing user", () => {
+    const result = applyWorkspaceConcessions(
+      criteria,
+      createCalibration(),
+      "standing",
+    );
+
+    expect(result.criteria.angleRanges).toEqual(criteria.angleRanges);
+    expect(result.concessionApplied).toBe(false);
+  });
+
+  it("widens ranges for reduced range of motion", () => {
+    const result = applyWorkspaceConcessions(
+      criteria,
+      createCalibration({ rangeOfMotionFactor: 0.8 }),
+      "standing",
+    );
+
+    /* Elbow span 120° × 20% = 24°, split across both ends */
+    const elbow = result.criteria.angleRanges[0]!;
+    expect(elbow.min).toBeCloseTo(28);
+    expect(elbow.max).toBeCloseTo(172);
+    expect(result.concessionApplied).toBe(true);
+  });
+
+  it("clamps widened ranges to 0-180 degrees", () => {
+    const result = applyWorkspaceConcessions(
+      criteria,
+      createCalibration({ rangeOfMotionFactor: 0.6 }),
+      "standing",
+    );
+
+    const knee = result.criteria.angleRanges[1]!;
+    expect(knee.max).toBe(180);
+  });
+
+  it("limits how far a very low factor can widen ranges", () => {
+    const result = applyWorkspaceConcessions(
+      criteria,
+      createCalibration({ rangeOfMotionFactor: 0.1 }),
+      "standing",
+    );
+
+    /* Floored at 0.5: 120° × 50% / 2 = 30° each side */
+    const elbow = result.criteria.angleRanges[0]!;
+    expect(elbow.min).toBeCloseTo(10);
+    expect(elbow.max).toBeCloseTo(180);
+  });
+
+  it("drops lower-body joints for seated users on standing exercises", () => {
+    const result = applyWorkspaceConcessions(
+      criteria,
+      createCalibration({ position: "seated" }),
+      "standing",
+    );
+
+    const joints = result.criteria.angleRanges.map((r) => r.joint);
+    expect(joints).toEqual(["left_elbow", "neck"]);
+    expect(result.concessionApplied).toBe(true);
+  });
+
+  it("keeps lower-body joints for seated exercises", () => {
+    const result = applyWorkspaceConcessions(
+      criteria,
+      createCalibration({ position: "seated" }),
+      "seated",
+    );
+
+    expect(result.criteria.angleRanges).toHaveLength(3);
+    expect(result.concessionApplied).toBe(false);
+  });
+
+  it("keeps lower-body joints when nothing else would be scored", () => {
+    const legsOnly: FormCriteria = {
+      ...criteria,
+      angleRanges: [{ joint: "left_knee", min: 90, max: 180, weight: 1 }],
+    };
+
+    const result = applyWorkspaceConcessions(
+      legsOnly,
+      createCalibration({ position: "seated" }),
+      "standing",
+    );
+
+    expect(result.criteria.angleRanges).toHaveLength(1);
+    expect(result.concessionApplied).toBe(false);
+  });
+
+  it("does not mutate the input criteria", () => {
+    applyWorkspaceConcessions(
+      criteria,
+      createCalibration({ position: "seated", rangeOfMotionFactor: 0.7 }),
+      "standing",
+    );
+
+    expect(criteria.angleRanges).toHaveLength(3);
+    expect(criteria.angleRanges[0]!.min).toBe(40);
+  });
+});
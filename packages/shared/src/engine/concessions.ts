@@ -0,0 +1,96 @@
+/**
+ * Workspace Concessions
+ *
+ * Adjusts form criteria for the user's calibrated workspace so
+ * people aren't penalized for constraints they can't change.
+ * Pure function — returns new criteria, never mutates the input.
+ *
+ * Rules:
+ *   - Reduced range of motion widens every angle range in proportion
+ *   - Seated users doing a standing exercise aren't scored on lower-body
+ *     joints, which the chair holds in place
+ *   - Angles are clamped to 0-180 degrees
+ */
+
+import type {
+  AngleRange,
+  ExercisePosition,
+  FormCriteria,
+} from "../types/exercise";
+import type { WorkspaceCalibration } from "../types/schedule";
+
+export interface ConcessionResult {
+  criteria: FormCriteria;
+  concessionApplied: boolean;
+}
+
+/** Floor for the calibrated factor so ranges never widen absurdly */
+const MIN_RANGE_OF_MOTION_FACTOR = 0.5;
+
+/** Joints a chair constrains when the user is seated */
+const SEATED_CONSTRAINED_JOINTS = new Set([
+  "left_hip",
+  "right_hip",
+  "left_knee",
+  "right_knee",
+  "left_ankle",
+  "right_ankle",
+  "torso",
+]);
+
+/** Widen a range on both sides by the share of motion the user can't reach */
+function widenRange(
+  range: AngleRange,
+  rangeOfMotionFactor: number,
+): AngleRange {
+  const span = range.max - range.min;
+  const tolerance = (span * (1 - rangeOfMotionFactor)) / 2;
+
+  return {
+    ...range,
+    min: Math.max(0, range.min - tolerance),
+    max: Math.min(180, range.max + tolerance),
+  };
+}
+
+/**
+ * Apply the user's workspace calibration to an exercise's form criteria.
+ * Without a calibration the criteria are returned unchanged.
+ */
+export function applyWorkspaceConcessions(
+  criteria: FormCriteria,
+  calibration: WorkspaceCalibration | null,
+  exercisePosition: ExercisePosition,
+): ConcessionResult {
+  if (!calibration) return { criteria, concessionApplied: false };
+
+  let concessionApplied = false;
+  let angleRanges = criteria.angleRanges;
+
+  if (calibration.position === "seated" && exercisePosition === "standing") {
+    const unconstrained = angleRanges.filter(
+      (range) => !SEATED_CONSTRAINED_JOINTS.has(range.joint),
+    );
+
+    /* Only drop joints if something is left to score */
+    if (unconstrained.length > 0 && unconstrained.length < angleRanges.length) {
+      angleRanges = unconstrained;
+      concessionApplied = true;
+    }
+  }
+
+  const factor = Math.min(
+    1,
+    Math.max(MIN_RANGE_OF_MOTION_FACTOR, calibration.rangeOfMotionFactor),
+  );
+
+  if (factor < 1) {
+    angleRanges = angleRanges.map((range) => widenRange(range, factor));
+    concessionApplied = true;
+  }
+
+  return {
+    criteria: { ...criteria, angleRanges },
+    concessionApplied,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { getCloseOutStatus } from "./day-close";
+
+const none = { total: 0, completed: 0 };
+
+describe("getCloseOutStatus", () => {
+  it("marks sessions that never started as missed", () => {
+    expect(getCloseOutStatus("scheduled", none)).toBe("missed");
+    expect(getCloseOutStatus("notified", none)).toBe("missed");
+    expect(getCloseOutStatus("confirmed", { total: 4, completed: 0 })).toBe(
+      "missed",
+    );
+    expect(getCloseOutStatus("deferred", none)).toBe("missed");
+  });
+
+  it("completes an in-progress session that recorded any results", () => {
+    expect(getCloseOutStatus("in_progress", { total: 4, completed: 2 })).toBe(
+      "completed",
+    );
+  });
+
+  it("abandons an in-progress session with no results", () => {
+    expect(getCloseOutStatus("in_progress", { total: 4, completed: 0 })).toBe(
+      "missed",
+    );
+  });
+
+  it("leaves final statuses alone", () => {
+    expect(getCloseOutStatus("completed", none)).toBeNull();
+    expect(getCloseOutStatus("skipped", none)).toBeNull();
+    expect(getCloseOutStatus("missed", none)).toBeNull();
+  });
+});
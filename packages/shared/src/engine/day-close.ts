@@ -0,0 +1,47 @@
+/**
+ * Day Close-Out
+ *
+ * Decides the final status of sessions left open when a user's
+ * local day ends. Pure function — the end-of-day sweep loads the
+ * sessions and writes the result.
+ *
+ * Rules:
+ *   - Sessions never started (scheduled, notified, confirmed or
+ *     deferred) become missed
+ *   - An in-progress session with at least one exercise result is
+ *     completed, keeping the work the user did; with none it was
+ *     abandoned and becomes missed
+ *   - Completed, skipped and missed sessions are already final
+ */
+
+import type { SessionStatus } from "../types/session";
+
+export interface ExerciseProgress {
+  /** Exercises written to the session */
+  total: number;
+  /** Exercises with a recorded result */
+  completed: number;
+}
+
+/** Statuses the sweep closes out */
+export const OPEN_SESSION_STATUSES: SessionStatus[] = [
+  "scheduled",
+  "notified",
+  "confirmed",
+  "deferred",
+  "in_progress",
+];
+
+/** The status to close a session with, or null if it's already final */
+export function getCloseOutStatus(
+  status: SessionStatus,
+  progress: ExerciseProgress,
+): SessionStatus | null {
+  if (!OPEN_SESSION_STATUSES.includes(status)) return null;
+
+  if (status === "in_progress" && progress.completed > 0) {
+    return "completed";
+  }
+
+  return "missed";
+}
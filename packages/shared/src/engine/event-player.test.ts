@@ -0,0 +1,289 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  validateEventFile,
+  parseEventFile,
+  loadEventFile,
+  createEventPlayer,
+} from "./event-player";
+import type { EventEmission } from "./event-player";
+import type { ExerciseEventFile, TimedEvent } from "../types/events";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+function createEvent(overrides: Partial<TimedEvent> = {}): TimedEvent {
+  return {
+    eventId: "e1",
+    timestampStart: 0,
+    timestampEnd: null,
+    content: "Hello",
+    type: "caption",
+    trigger: null,
+    ...overrides,
+  };
+}
+
+const file: ExerciseEventFile = {
+  exerciseId: "ex-1",
+  exerciseName: "Shoulder Rolls",
+  events: [
+    createEvent({ eventId: "intro", timestampStart: 0, timestampEnd: 3000 }),
+    createEvent({
+      eventId: "tip",
+      timestampStart: 2000,
+      timestampEnd: 5000,
+      type: "tip",
+    }),
+    createEvent({
+      eventId: "cheer",
+      timestampStart: 4000,
+      type: "encouragement",
+    }),
+    createEvent({
+      eventId: "streak",
+      timestampStart: 0,
+      type: "encouragement",
+      trigger: "good_streak_3",
+    }),
+  ],
+};
+
+/** Controllable clock for the player */
+function createClock() {
+  let time = 1000;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+function describeEmissions(emissions: EventEmission[]): string[] {
+  return emissions.map((e) => `${e.kind}:${e.event.eventId}`);
+}
+
+/* ─── Validation ───────────────────────────────────────────────────── */
+
+describe("validateEventFile", () => {
+  it("accepts a well-formed file", () => {
+    expect(validateEventFile(file)).toEqual([]);
+  });
+
+  it("rejects non-objects", () => {
+    expect(validateEventFile(null)).toEqual(["Event file must be an object."]);
+  });
+
+  it("reports every invalid field", () => {
+    const errors = validateEventFile({
+      exerciseId: "",
+      exerciseName: "X",
+      events: [
+        createEvent({ timestampStart: -1 }),
+        createEvent({ timestampStart: 500, timestampEnd: 200 }),
+        { ...createEvent({ eventId: "e2" }), type: "shout" },
+      ],
+    });
+
+    expect(errors).toEqual([
+      "exerciseId must be a non-empty string.",
+      "events[0].timestampStart must be a non-negative number.",
+      'events[1].eventId "e1" is duplicated.',
+      "events[1].timestampEnd must be after timestampStart.",
+      expect.stringContaining("events[2].type must be one of"),
+    ]);
+  });
+});
+
+describe("parseEventFile", () => {
+  it("normalizes missing optional fields and sorts by start", () => {
+    const parsed = parseEventFile({
+      exerciseId: "ex-1",
+      exerciseName: "X",
+      events: [
+        { eventId: "b", timestampStart: 900, content: "B", type: "tip" },
+        { eventId: "a", timestampStart: 100, content: "A", type: "tip" },
+      ],
+    });
+
+    expect(parsed.events.map((e) => e.eventId)).toEqual(["a", "b"]);
+    expect(parsed.events[0]).toMatchObject({
+      timestampEnd: null,
+      trigger: null,
+    });
+  });
+
+  it("throws with the validation errors", () => {
+    expect(() => parseEventFile({ exerciseId: "x" })).toThrow(
+      "Invalid event file",
+    );
+  });
+});
+
+describe("loadEventFile", () => {
+  it("fetches and parses the file", async () => {
+    const fetchFn = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(file),
+    });
+
+    const loaded = await loadEventFile("https://cdn/ex-1.json", fetchFn);
+
+    expect(fetchFn).toHaveBeenCalledWith("https://cdn/ex-1.json");
+    expect(loaded.exerciseId).toBe("ex-1");
+  });
+
+  it("throws on a failed response", async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 404 });
+
+    await expect(loadEventFile("https://cdn/x.json", fetchFn)).rejects.toThrow(
+      "404",
+    );
+  });
+});
+
+/* ─── Playback ─────────────────────────────────────────────────────── */
+
+describe("createEventPlayer", () => {
+  it("does not advance until played", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+
+    clock.advance(1000);
+
+    expect(player.getPosition()).toBe(0);
+    expect(player.tick()).toEqual([]);
+  });
+
+  it("emits starts and ends as the timeline plays", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+
+    expect(describeEmissions(player.tick())).toEqual(["start:intro"]);
+    clock.advance(2500);
+    expect(describeEmissions(player.tick())).toEqual(["start:tip"]);
+    clock.advance(1000);
+    expect(describeEmissions(player.tick())).toEqual(["end:intro"]);
+    clock.advance(1000);
+    expect(describeEmissions(player.tick())).toEqual(["start:cheer"]);
+    clock.advance(1000);
+    expect(describeEmissions(player.tick())).toEqual(["end:tip"]);
+    expect(player.isFinished()).toBe(true);
+  });
+
+  it("tracks the active events", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    clock.advance(2500);
+    player.tick();
+
+    expect(player.getActiveEvents().map((e) => e.eventId)).toEqual([
+      "intro",
+      "tip",
+    ]);
+  });
+
+  it("emits events skipped over within a single tick", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    player.tick();
+
+    clock.advance(6000);
+
+    expect(describeEmissions(player.tick())).toEqual([
+      "end:intro",
+      "start:tip",
+      "end:tip",
+      "start:cheer",
+    ]);
+  });
+
+  it("ignores triggered events on the timeline", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+
+    const ids = player.tick().map((e) => e.event.eventId);
+
+    expect(ids).not.toContain("streak");
+    expect(player.getTriggeredEvents().map((e) => e.eventId)).toEqual([
+      "streak",
+    ]);
+  });
+
+  it("holds position while paused", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    clock.advance(1000);
+    player.pause();
+
+    clock.advance(5000);
+
+    expect(player.getPosition()).toBe(1000);
+    expect(player.isPlaying()).toBe(false);
+  });
+
+  it("scales progress by the playback rate", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    clock.advance(1000);
+
+    player.setRate(2);
+    clock.advance(1000);
+
+    expect(player.getPosition()).toBe(3000);
+  });
+
+  it("rejects a non-positive rate", () => {
+    const player = createEventPlayer(file, createClock());
+
+    expect(() => player.setRate(0)).toThrow("greater than zero");
+  });
+
+  it("seeks without firing skipped instant events", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    player.tick();
+
+    const emissions = player.seek(4500);
+
+    expect(describeEmissions(emissions)).toEqual(["end:intro", "start:tip"]);
+  });
+
+  it("restarts duration events when seeking backwards", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    clock.advance(4500);
+    player.tick();
+
+    const emissions = player.seek(1000);
+
+    expect(describeEmissions(emissions)).toEqual(["end:tip", "start:intro"]);
+    clock.advance(500);
+    expect(player.tick()).toEqual([]);
+  });
+
+  it("reports the timeline duration", () => {
+    expect(createEventPlayer(file).getDuration()).toBe(5000);
+  });
+
+  it("resets to the start", () => {
+    const clock = createClock();
+    const player = createEventPlayer(file, clock);
+    player.play();
+    clock.advance(2500);
+    player.tick();
+
+    player.reset();
+
+    expect(player.getPosition()).toBe(0);
+    expect(player.getActiveEvents()).toEqual([]);
+    expect(player.isPlaying()).toBe(false);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Event Player
+ *
+ * Plays an ExerciseEventFile timeline against a controllable clock
+ * and reports when events start and end.
+ * Platform-agnostic — the caller drives it with `tick` (e.g. from
+ * requestAnimationFrame or an interval) and renders the results.
+ *
+ * Rules:
+ *   - Only timed events (trigger === null) are scheduled; triggered
+ *     events are fired by form analysis instead
+ *   - An event with a duration is active while start ≤ position < end
+ *   - An instant event (timestampEnd === null) emits a single "start"
+ *   - Playing past an event within one tick still emits its start and end
+ *   - Seeking never fires instant events that were jumped over, but
+ *     does end and start duration events to match the new position
+ */
+
+import type { EventType, ExerciseEventFile, TimedEvent } from "../types/events";
+
+export const EVENT_TYPES: EventType[] = [
+  "caption",
+  "instruction",
+  "tip",
+  "encouragement",
+  "correction",
+  "transition",
+  "meditation",
+];
+
+export interface EventEmission {
+  kind: "start" | "end";
+  event: TimedEvent;
+  /** Timeline position in ms when the emission was produced */
+  position: number;
+}
+
+export interface EventPlayerOptions {
+  /** Monotonic clock in ms. Defaults to Date.now. */
+  now?: () => number;
+}
+
+/* ─── Validation ───────────────────────────────────────────────────── */
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check raw JSON against the ExerciseEventFile shape.
+ * Returns every problem found; an empty list means the file is valid.
+ */
+export function validateEventFile(data: unknown): string[] {
+  if (!isRecord(data)) return ["Event file must be an object."];
+
+  const errors: string[] = [];
+
+  if (typeof data.exerciseId !== "string" || data.exerciseId === "") {
+    errors.push("exerciseId must be a non-empty string.");
+  }
+  if (typeof data.exerciseName !== "string") {
+    errors.push("exerciseName must be a string.");
+  }
+  if (!Array.isArray(data.events)) {
+    errors.push("events must be an array.");
+    return errors;
+  }
+
+  const seenIds = new Set<string>();
+
+  data.events.forEach((event: unknown, i: number) => {
+    const at = `events[${i}]`;
+
+    if (!isRecord(event)) {
+      errors.push(`${at} must be an object.`);
+      return;
+    }
+
+    if (typeof event.eventId !== "string" || event.eventId === "") {
+      errors.push(`${at}.eventId must be a non-empty string.`);
+    } else if (seenIds.has(event.eventId)) {
+      errors.push(`${at}.eventId "${event.eventId}" is duplicated.`);
+    } else {
+      seenIds.add(event.eventId);
+    }
+
+    if (!isTimestamp(event.timestampStart)) {
+      errors.push(`${at}.timestampStart must be a non-negative number.`);
+    }
+    if (event.timestampEnd !== undefined && event.timestampEnd !== null) {
+      if (!isTimestamp(event.timestampEnd)) {
+        errors.push(`${at}.timestampEnd must be a non-negative number.`);
+      } else if (
+        isTimestamp(event.timestampStart) &&
+        event.timestampEnd <= event.timestampStart
+      ) {
+        errors.push(`${at}.timestampEnd must be after timestampStart.`);
+      }
+    }
+
+    if (typeof event.content !== "string") {
+      errors.push(`${at}.content must be a string.`);
+    }
+    if (!EVENT_TYPES.includes(event.type as EventType)) {
+      errors.push(`${at}.type must be one of ${EVENT_TYPES.join(", ")}.`);
+    }
+    if (
+      event.trigger !== undefined &&
+      event.trigger !== null &&
+      typeof event.trigger !== "string"
+    ) {
+      errors.push(`${at}.trigger must be a string or null.`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate and normalize raw JSON into an ExerciseEventFile.
+ * Missing `timestampEnd` / `trigger` become null and events are
+ * sorted by start time. Throws listing every problem when invalid.
+ */
+export function parseEventFile(data: unknown): ExerciseEventFile {
+  const errors = validateEventFile(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid event file: ${errors.join(" ")}`);
+  }
+
+  const file = data as ExerciseEventFile;
+  const events = file.events
+    .map((event) => ({
+      eventId: event.eventId,
+      timestampStart: event.timestampStart,
+      timestampEnd: event.timestampEnd ?? null,
+      content: event.content,
+      type: event.type,
+      trigger: event.trigger ?? null,
+    }))
+    .sort((a, b) => a.timestampStart - b.timestampStart);
+
+  return {
+    exerciseId: file.exerciseId,
+    exerciseName: file.exerciseName,
+    events,
+  };
+}
+
+/** Fetch an event file from a URL and parse it */
+export async function loadEventFile(
+  url: string,
+  fetchFn: typeof fetch = fetch,
+): Promise<ExerciseEventFile> {
+  const response = await fetchFn(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load event file: ${response.status}`);
+  }
+  return parseEventFile(await response.json());
+}
+
+/* ─── Player ───────────────────────────────────────────────────────── */
+
+/**
+ * Stateful timeline player for one event file.
+ *
+ * The position only moves while playing; `tick` reads the clock,
+ * advances the position and returns the emissions since the last tick.
+ * `seek` returns the emissions needed to match the new position.
+ */
+export function createEventPlayer(
+  file: ExerciseEventFile,
+  options: EventPlayerOptions = {},
+) {
+  const now = options.now ?? (() => Date.now());
+  const timed = file.events.filter((event) => event.trigger === null);
+  const duration = timed.reduce(
+    (max, event) => Math.max(max, event.timestampEnd ?? event.timestampStart),
+    0,
+  );
+
+  let playing = false;
+  let rate = 1;
+  /* Position at the last clock rebase, and when that happened */
+  let basePosition = 0;
+  let baseTime = 0;
+  /* Position up to which events have been emitted; null before the first update */
+  let emittedTo: number | null = null;
+  const active = new Map<string, TimedEvent>();
+
+  function getPosition(): number {
+    if (!playing) return basePosition;
+    return basePosition + (now() - baseTime) * rate;
+  }
+
+  function rebase(position: number): void {
+    basePosition = Math.max(0, position);
+    baseTime = now();
+  }
+
+  function isActiveAt(event: TimedEvent, position: number): boolean {
+    return (
+      event.timestampEnd !== null &&
+      event.timestampStart <= position &&
+      position < event.timestampEnd
+    );
+  }
+
+  /**
+   * Move the emitted position to `position`. When `continuous`, events
+   * passed over since the last update also fire.
+   */
+  function advanceTo(position: number, continuous: boolean): EventEmission[] {
+    const emissions: EventEmission[] = [];
+    const from = emittedTo ?? -Infinity;
+
+    for (const [eventId, event] of active) {
+      if (!isActiveAt(event, position)) {
+        active.delete(eventId);
+        emissions.push({ kind: "end", event, position });
+      }
+    }
+
+    for (const event of timed) {
+      const crossed =
+        continuous &&
+        event.timestampStart > from &&
+        event.timestampStart <= position;
+
+      if (event.timestampEnd === null) {
+        if (crossed) emissions.push({ kind: "start", event, position });
+      } else if (isActiveAt(event, position)) {
+        if (!active.has(event.eventId)) {
+          active.set(event.eventId, event);
+          emissions.push({ kind: "start", event, position });
+        }
+      } else if (crossed && event.timestampEnd <= position) {
+        /* Started and finished between two ticks */
+        emissions.push({ kind: "start", event, position });
+        emissions.push({ kind: "end", event, position });
+      }
+    }
+
+    emittedTo = position;
+    return emissions;
+  }
+
+  function play(): void {
+    if (playing) return;
+    rebase(basePosition);
+    playing = true;
+  }
+
+  function pause(): void {
+    if (!playing) return;
+    rebase(getPosition());
+    playing = false;
+  }
+
+  function seek(position: number): EventEmission[] {
+    rebase(position);
+    return advanceTo(basePosition, false);
+  }
+
+  function setRate(nextRate: number): void {
+    if (!(nextRate > 0)) {
+      throw new Error("Playback rate must be greater than zero.");
+    }
+    rebase(getPosition());
+    rate = nextRate;
+  }
+
+  function tick(): EventEmission[] {
+    if (!playing) return [];
+    const position = getPosition();
+    if (position === emittedTo) return [];
+    return advanceTo(position, true);
+  }
+
+  function getRate(): number {
+    return rate;
+  }
+
+  function getDuration(): number {
+    return duration;
+  }
+
+  function isPlaying(): boolean {
+    return playing;
+  }
+
+  function getActiveEvents(): TimedEvent[] {
+    return [...active.values()];
+  }
+
+  /** Events fired by form analysis rather than the timeline */
+  function getTriggeredEvents(): TimedEvent[] {
+    return file.events.filter((event) => event.trigger !== null);
+  }
+
+  function isFinished(): boolean {
+    return getPosition() >= duration;
+  }
+
+  function reset(): void {
+    playing = false;
+    rate = 1;
+    basePosition = 0;
+    baseTime = 0;
+    emittedTo = null;
+    active.clear();
+  }
+
+  return {
+    play,
+    pause,
+    seek,
+    setRate,
+    tick,
+    getPosition,
+    getRate,
+    getDuration,
+    isPlaying,
+    isFinished,
+    getActiveEvents,
+    getTriggeredEvents,
+    reset,
+  };
+}
+
+export type EventPlayer = ReturnType<typeof createEventPlayer>;
@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregateDeviations,
+  describeDeviation,
+  generateFormFeedback,
+} from "./form-feedback";
+import type { FeedbackExercise } from "./form-feedback";
+import type { AngleRange } from "../types/exercise";
+import type { AngleDeviation, FormScore } from "../types/form";
+import { classifyDeviation } from "./form-scoring";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+const elbowRange: AngleRange = {
+  joint: "left_elbow",
+  min: 40,
+  max: 160,
+  weight: 0.6,
+};
+const neckRange: AngleRange = {
+  joint: "neck",
+  min: 160,
+  max: 180,
+  weight: 0.4,
+};
+
+const exercise: FeedbackExercise = {
+  formCriteria: {
+    angleRanges: [elbowRange, neckRange],
+    expectedReps: 8,
+    minimumScore: 60,
+  },
+  commonMistakes: [
+    {
+      description: "Letting the head drop toward the chest",
+      correction: "Keep your chin level and eyes forward.",
+    },
+  ],
+  proTips: ["Squeeze your elbows in at the top of each curl."],
+};
+
+function deviation(range: AngleRange, measuredAngle: number): AngleDeviation {
+  const degrees = Math.max(
+    0,
+    range.min - measuredAngle,
+    measuredAngle - range.max,
+  );
+  return {
+    joint: range.joint,
+    expectedRange: range,
+    measuredAngle,
+    deviationDegrees: degrees,
+    severity: classifyDeviation(degrees),
+  };
+}
+
+/** One rep: elbow and neck measured at the given angles */
+function rep(score: number, elbow: number, neck: number): FormScore {
+  return {
+    score,
+    deviations: [deviation(elbowRange, elbow), deviation(neckRange, neck)],
+    concessionApplied: false,
+    timestamp: 0,
+  };
+}
+
+/* ─── Descriptions ─────────────────────────────────────────────────── */
+
+describe("describeDeviation", () => {
+  it("phrases head deviations", () => {
+    expect(describeDeviation("neck", "below")).toBe("head tilted forward");
+  });
+
+  it("includes the side for paired joints", () => {
+    expect(describeDeviation("right_elbow", "above")).toBe(
+      "right elbow not bent enough",
+    );
+  });
+
+  it("falls back for unknown joints", () => {
+    expect(describeDeviation("left_pinky", "below")).toBe(
+      "left pinky below range",
+    );
+  });
+});
+
+/* ─── Aggregation ──────────────────────────────────────────────────── */
+
+describe("aggregateDeviations", () => {
+  it("groups deviations by joint and direction", () => {
+    const issues = aggregateDeviations([
+      rep(80, 100, 150),
+      rep(70, 30, 145),
+      rep(90, 100, 170),
+    ]);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatchObject({
+      joint: "neck",
+      direction: "below",
+      repCount: 2,
+      severityCounts: { minor: 1, moderate: 1, major: 0 },
+      worstSeverity: "moderate",
+      maxDeviationDegrees: 15,
+    });
+    expect(issues[1]).toMatchObject({
+      joint: "left_elbow",
+      direction: "below",
+      repCount: 1,
+    });
+  });
+
+  it("ignores in-range measurements", () => {
+    expect(aggregateDeviations([rep(100, 100, 170)])).toEqual([]);
+  });
+});
+
+/* ─── Feedback ─────────────────────────────────────────────────────── */
+
+describe("generateFormFeedback", () => {
+  it("summarizes a recurring issue with its rep share", () => {
+    const scores = [
+      rep(80, 100, 150),
+      rep(82, 100, 152),
+      rep(78, 100, 148),
+      ...Array.from({ length: 5 }, () => rep(100, 100, 170)),
+    ];
+
+    const feedback = generateFormFeedback(scores, exercise);
+
+    expect(feedback.summary).toBe(
+      "Great form but head tilted forward on 3/8 reps",
+    );
+    expect(feedback.totalReps).toBe(8);
+    expect(feedback.averageScore).toBe(93);
+  });
+
+  it("pairs issues with the matching common mistake correction", () => {
+    const feedback = generateFormFeedback(
+      [rep(80, 100, 150), rep(80, 100, 150)],
+      exercise,
+    );
+
+    expect(feedback.improvements).toEqual([
+      "Head tilted forward on 2/2 reps. Keep your chin level and eyes forward.",
+    ]);
+  });
+
+  it("falls back to a matching pro tip", () => {
+    const feedback = generateFormFeedback(
+      [rep(70, 30, 170), rep(70, 30, 170)],
+      exercise,
+    );
+
+    expect(feedback.improvements).toEqual([
+      "Left elbow bent too far on 2/2 reps. Squeeze your elbows in at the top of each curl.",
+    ]);
+  });
+
+  it("skips occasional minor slips", () => {
+    const scores = [
+      rep(95, 100, 155),
+      ...Array.from({ length: 7 }, () => rep(100, 100, 170)),
+    ];
+
+    const feedback = generateFormFeedback(scores, exercise);
+
+    expect(feedback.improvements).toEqual([]);
+    expect(feedback.summary).toBe("Great form across all 8 reps");
+  });
+
+  it("always reports a major deviation", () => {
+    const scores = [
+      rep(40, 100, 120),
+      ...Array.from({ length: 7 }, () => rep(100, 100, 170)),
+    ];
+
+    const feedback = generateFormFeedback(scores, exercise);
+
+    expect(feedback.improvements).toHaveLength(1);
+    expect(feedback.improvements[0]).toContain("1/8 reps");
+  });
+
+  it("lists joints that stayed in range as strengths", () => {
+    const scores = Array.from({ length: 8 }, () => rep(85, 100, 150));
+
+    const feedback = generateFormFeedback(scores, exercise);
+
+    expect(feedback.strengths).toEqual([
+      "Completed all 8 reps",
+      "Good left elbow position on every rep",
+    ]);
+  });
+
+  it("words reps beyond the target separately from a full set", () => {
+    const scores = Array.from({ length: 10 }, () => rep(85, 100, 150));
+
+    const feedback = generateFormFeedback(scores, exercise);
+
+    expect(feedback.strengths[0]).toBe(
+      "Completed 10 reps, 2 past the target of 8",
+    );
+  });
+
+  it("flags a low average score", () => {
+    const feedback = generateFormFeedback(
+      [rep(30, 10, 130), rep(40, 15, 135)],
+      exercise,
+    );
+
+    expect(feedback.summary).toMatch(/^Form needs work: /);
+    expect(feedback.strengths).toEqual([]);
+  });
+
+  it("handles a set with no reps", () => {
+    const feedback = generateFormFeedback([], exercise);
+
+    expect(feedback).toEqual({
+      summary: "No reps were detected.",
+      strengths: [],
+      improvements: [],
+      averageScore: 0,
+      totalReps: 0,
+    });
+  });
+});
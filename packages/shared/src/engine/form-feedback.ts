@@ -0,0 +1,288 @@
+/**
+ * Form Feedback Generator
+ *
+ * Turns a set's per-rep FormScores into the natural-language
+ * FormFeedback shown in the post-workout summary.
+ * Pure functions — the caller supplies the scores and the exercise.
+ *
+ * Rules:
+ *   - Deviations are grouped by joint and direction (below / above range)
+ *   - An issue is recurring when it affects ≥ 25% of reps, or is ever major
+ *   - Issues are ranked by reps affected, then worst severity, then degrees
+ *   - Each issue is paired with the best matching common mistake correction,
+ *     falling back to a matching pro tip
+ *   - A joint that never deviated on any rep is reported as a strength
+ */
+
+import type { DeviationSeverity, FormFeedback, FormScore } from "../types/form";
+import type { Exercise } from "../types/exercise";
+
+/** Which side of the expected range the measured angle fell on */
+export type DeviationDirection = "below" | "above";
+
+/** A recurring deviation aggregated across a set of reps */
+export interface FormIssue {
+  joint: string;
+  direction: DeviationDirection;
+  /** Human description, e.g. "head tilted forward" */
+  description: string;
+  /** Number of reps where this deviation occurred */
+  repCount: number;
+  /** Reps per severity level */
+  severityCounts: Record<Exclude<DeviationSeverity, "none">, number>;
+  worstSeverity: Exclude<DeviationSeverity, "none">;
+  /** Largest deviation seen, in degrees */
+  maxDeviationDegrees: number;
+}
+
+/** The exercise fields feedback is cross-referenced against */
+export type FeedbackExercise = Pick<
+  Exercise,
+  "formCriteria" | "commonMistakes" | "proTips"
+>;
+
+const RECURRING_SHARE = 0.25;
+const GREAT_SCORE = 85;
+
+const SEVERITY_RANK: Record<DeviationSeverity, number> = {
+  none: 0,
+  minor: 1,
+  moderate: 2,
+  major: 3,
+};
+
+/** Phrasing per joint family for angles below / above the expected range */
+const JOINT_PHRASES: Record<string, Record<DeviationDirection, string>> = {
+  neck: { below: "head tilted forward", above: "head tilted back" },
+  torso: { below: "torso leaning forward", above: "torso leaning back" },
+  elbow: {
+    below: "{side} elbow bent too far",
+    above: "{side} elbow not bent enough",
+  },
+  shoulder: {
+    below: "{side} arm not raised enough",
+    above: "{side} arm raised too high",
+  },
+  wrist: {
+    below: "{side} wrist bent too far",
+    above: "{side} wrist not bent enough",
+  },
+  hip: {
+    below: "{side} hip bent too far",
+    above: "{side} hip not bent enough",
+  },
+  knee: {
+    below: "{side} knee bent too far",
+    above: "{side} knee not bent enough",
+  },
+  ankle: {
+    below: "{side} ankle flexed too far",
+    above: "{side} ankle not flexed enough",
+  },
+};
+
+/** Words that tie a mistake or tip to a joint family */
+const JOINT_KEYWORDS: Record<string, string[]> = {
+  neck: ["head", "neck", "chin"],
+  torso: ["torso", "back", "spine", "lean", "leaning"],
+  elbow: ["elbow", "elbows"],
+  shoulder: ["shoulder", "shoulders", "arm", "arms"],
+  wrist: ["wrist", "wrists", "hand", "hands"],
+  hip: ["hip", "hips"],
+  knee: ["knee", "knees"],
+  ankle: ["ankle", "ankles", "foot", "feet"],
+};
+
+/** Split "left_elbow" into side and family; "neck" has no side */
+function parseJoint(joint: string): { side: string | null; family: string } {
+  const [, side, family] = /^(left|right)_(.+)$/.exec(joint) ?? [];
+  return side && family ? { side, family } : { side: null, family: joint };
+}
+
+/** Readable joint name, e.g. "left elbow" or "head" */
+export function describeJoint(joint: string): string {
+  if (joint === "neck") return "head";
+  return joint.replace(/_/g, " ");
+}
+
+/** Readable description of a deviation, e.g. "left elbow bent too far" */
+export function describeDeviation(
+  joint: string,
+  direction: DeviationDirection,
+): string {
+  const { side, family } = parseJoint(joint);
+  const phrase = JOINT_PHRASES[family]?.[direction];
+
+  if (!phrase) {
+    return `${describeJoint(joint)} ${direction === "below" ? "below" : "above"} range`;
+  }
+
+  return side ? phrase.replace("{side}", side) : phrase.replace("{side} ", "");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** True when the text mentions a keyword for the joint's family */
+function mentionsJoint(text: string, joint: string): boolean {
+  const keywords = JOINT_KEYWORDS[parseJoint(joint).family] ?? [];
+  const words: string[] = text.toLowerCase().match(/[a-z]+/g) ?? [];
+  return keywords.some((keyword) => words.includes(keyword));
+}
+
+/**
+ * Group deviations across reps by joint and direction.
+ * Returns every issue seen, most significant first — callers decide
+ * which ones are recurring.
+ */
+export function aggregateDeviations(scores: FormScore[]): FormIssue[] {
+  const issues = new Map<string, FormIssue>();
+
+  for (const score of scores) {
+    for (const deviation of score.deviations) {
+      if (deviation.severity === "none") continue;
+
+      const direction: DeviationDirection =
+        deviation.measuredAngle < deviation.expectedRange.min
+          ? "below"
+          : "above";
+      const key = `${deviation.joint}:${direction}`;
+
+      let issue = issues.get(key);
+      if (!issue) {
+        issue = {
+          joint: deviation.joint,
+          direction,
+          description: describeDeviation(deviation.joint, direction),
+          repCount: 0,
+          severityCounts: { minor: 0, moderate: 0, major: 0 },
+          worstSeverity: deviation.severity,
+          maxDeviationDegrees: 0,
+        };
+        issues.set(key, issue);
+      }
+
+      issue.repCount++;
+      issue.severityCounts[deviation.severity]++;
+      if (
+        SEVERITY_RANK[deviation.severity] > SEVERITY_RANK[issue.worstSeverity]
+      ) {
+        issue.worstSeverity = deviation.severity;
+      }
+      issue.maxDeviationDegrees = Math.max(
+        issue.maxDeviationDegrees,
+        deviation.deviationDegrees,
+      );
+    }
+  }
+
+  return [...issues.values()].sort(
+    (a, b) =>
+      b.repCount - a.repCount ||
+      SEVERITY_RANK[b.worstSeverity] - SEVERITY_RANK[a.worstSeverity] ||
+      b.maxDeviationDegrees - a.maxDeviationDegrees,
+  );
+}
+
+/** Whether an issue happened often enough, or badly enough, to report */
+function isRecurring(issue: FormIssue, totalReps: number): boolean {
+  return (
+    issue.worstSeverity === "major" ||
+    issue.repCount >= Math.max(1, Math.ceil(totalReps * RECURRING_SHARE))
+  );
+}
+
+/**
+ * Build post-workout feedback for one exercise from its rep scores.
+ */
+export function generateFormFeedback(
+  scores: FormScore[],
+  exercise: FeedbackExercise,
+): FormFeedback {
+  const totalReps = scores.length;
+
+  if (totalReps === 0) {
+    return {
+      summary: "No reps were detected.",
+      strengths: [],
+      improvements: [],
+      averageScore: 0,
+      totalReps: 0,
+    };
+  }
+
+  const averageScore = Math.round(
+    scores.reduce((sum, s) => sum + s.score, 0) / totalReps,
+  );
+  const issues = aggregateDeviations(scores).filter((issue) =>
+    isRecurring(issue, totalReps),
+  );
+
+  /* Each mistake or tip is only used once, for the first issue it matches */
+  const mistakes = [...(exercise.commonMistakes ?? [])];
+  const tips = [...(exercise.proTips ?? [])];
+
+  const improvements = issues.map((issue) => {
+    let text = `${capitalize(issue.description)} on ${issue.repCount}/${totalReps} reps`;
+
+    const mistakeIndex = mistakes.findIndex((m) =>
+      mentionsJoint(m.description, issue.joint),
+    );
+    const [mistake] = mistakeIndex >= 0 ? mistakes.splice(mistakeIndex, 1) : [];
+    if (mistake) {
+      return `${text}. ${mistake.correction}`;
+    }
+
+    const tipIndex = tips.findIndex((t) => mentionsJoint(t, issue.joint));
+    if (tipIndex >= 0) {
+      const [tip] = tips.splice(tipIndex, 1);
+      text = `${text}. ${tip}`;
+    }
+
+    return text;
+  });
+
+  /* Joints measured on at least one rep and never out of range */
+  const measured = new Set<string>();
+  const deviated = new Set<string>();
+  for (const score of scores) {
+    for (const deviation of score.deviations) {
+      measured.add(deviation.joint);
+      if (deviation.severity !== "none") deviated.add(deviation.joint);
+    }
+  }
+
+  const strengths: string[] = [];
+  const { expectedReps } = exercise.formCriteria;
+  if (totalReps === expectedReps) {
+    strengths.push(`Completed all ${totalReps} reps`);
+  } else if (totalReps > expectedReps) {
+    strengths.push(
+      `Completed ${totalReps} reps, ${totalReps - expectedReps} past the target of ${expectedReps}`,
+    );
+  }
+  for (const range of exercise.formCriteria.angleRanges) {
+    if (measured.has(range.joint) && !deviated.has(range.joint)) {
+      strengths.push(
+        `Good ${describeJoint(range.joint)} position on every rep`,
+      );
+    }
+  }
+
+  const topIssue = issues[0];
+  let summary: string;
+
+  if (averageScore < exercise.formCriteria.minimumScore) {
+    summary = topIssue
+      ? `Form needs work: ${topIssue.description} on ${topIssue.repCount}/${totalReps} reps`
+      : `Form was inconsistent across ${totalReps} reps`;
+  } else {
+    const lead = averageScore >= GREAT_SCORE ? "Great form" : "Good effort";
+    summary = topIssue
+      ? `${lead} but ${topIssue.description} on ${topIssue.repCount}/${totalReps} reps`
+      : `${lead} across all ${totalReps} reps`;
+  }
+
+  return { summary, strengths, improvements, averageScore, totalReps };
+}
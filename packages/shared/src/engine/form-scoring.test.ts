@@ -0,0 +1,320 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateAngle,
+  measureJointAngle,
+  measureFrame,
+  deviationFromRange,
+  classifyDeviation,
+  measureFrameDeviations,
+  scoreRep,
+  createFormScorer,
+} from "./form-scoring";
+import type { FormCriteria } from "../types/exercise";
+import type { Landmark, LandmarkName, PoseLandmarks } from "../types/pose";
+import { LANDMARK_INDEX } from "../types/pose";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+function point(x: number, y: number, z = 0, visibility = 1): Landmark {
+  return { x, y, z, visibility };
+}
+
+function createPose(
+  overrides: Partial<Record<LandmarkName, Landmark>> = {},
+  timestamp = 0,
+): PoseLandmarks {
+  const landmarks: Landmark[] = Array.from({ length: 33 }, () =>
+    point(0, 0, 0, 1),
+  );
+
+  for (const [name, landmark] of Object.entries(overrides)) {
+    landmarks[LANDMARK_INDEX[name as LandmarkName]] = landmark;
+  }
+
+  return { landmarks, timestamp };
+}
+
+/** Pose with the left elbow bent to the given angle in degrees */
+function elbowPose(degrees: number, timestamp = 0): PoseLandmarks {
+  const radians = (degrees * Math.PI) / 180;
+  return createPose(
+    {
+      LEFT_SHOULDER: point(0, 1),
+      LEFT_ELBOW: point(0, 0),
+      LEFT_WRIST: point(Math.sin(radians), Math.cos(radians)),
+    },
+    timestamp,
+  );
+}
+
+const elbowCriteria: FormCriteria = {
+  angleRanges: [{ joint: "left_elbow", min: 40, max: 160, weight: 1 }],
+  expectedReps: 8,
+  minimumScore: 60,
+};
+
+/* ─── Angle Calculation ────────────────────────────────────────────── */
+
+describe("calculateAngle", () => {
+  it("measures a right angle", () => {
+    expect(calculateAngle(point(0, 1), point(0, 0), point(1, 0))).toBeCloseTo(
+      90,
+    );
+  });
+
+  it("measures a straight line as 180 degrees", () => {
+    expect(calculateAngle(point(-1, 0), point(0, 0), point(1, 0))).toBeCloseTo(
+      180,
+    );
+  });
+
+  it("uses the z axis", () => {
+    expect(
+      calculateAngle(point(0, 0, 1), point(0, 0, 0), point(1, 0, 0)),
+    ).toBeCloseTo(90);
+  });
+
+  it("returns 0 for a zero-length segment", () => {
+    expect(calculateAngle(point(0, 0), point(0, 0), point(1, 0))).toBe(0);
+  });
+});
+
+describe("measureJointAngle", () => {
+  it("measures a named joint from landmarks", () => {
+    expect(measureJointAngle("left_elbow", elbowPose(75))).toBeCloseTo(75);
+  });
+
+  it("returns null for an unknown joint", () => {
+    expect(measureJointAngle("left_antenna", elbowPose(75))).toBeNull();
+  });
+
+  it("returns null when a landmark is poorly visible", () => {
+    const pose = elbowPose(75);
+    pose.landmarks[LANDMARK_INDEX.LEFT_WRIST]!.visibility = 0.2;
+
+    expect(measureJointAngle("left_elbow", pose)).toBeNull();
+  });
+
+  it("averages paired landmarks for midline joints", () => {
+    const pose = createPose({
+      LEFT_EAR: point(-1, 2),
+      RIGHT_EAR: point(1, 2),
+      LEFT_SHOULDER: point(-1, 1),
+      RIGHT_SHOULDER: point(1, 1),
+      LEFT_HIP: point(-1, 0),
+      RIGHT_HIP: point(1, 0),
+    });
+
+    expect(measureJointAngle("neck", pose)).toBeCloseTo(180);
+  });
+});
+
+describe("measureFrame", () => {
+  it("omits joints that cannot be measured", () => {
+    const criteria: FormCriteria = {
+      ...elbowCriteria,
+      angleRanges: [
+        { joint: "left_elbow", min: 40, max: 160, weight: 0.5 },
+        { joint: "unknown_joint", min: 0, max: 90, weight: 0.5 },
+      ],
+    };
+
+    const frame = measureFrame(elbowPose(90, 1234), criteria);
+
+    expect(Object.keys(frame.angles)).toEqual(["left_elbow"]);
+    expect(frame.timestamp).toBe(1234);
+  });
+});
+
+/* ─── Deviation ────────────────────────────────────────────────────── */
+
+describe("deviationFromRange", () => {
+  const range = { joint: "left_elbow", min: 40, max: 160, weight: 1 };
+
+  it("returns 0 within range", () => {
+    expect(deviationFromRange(90, range)).toBe(0);
+    expect(deviationFromRange(40, range)).toBe(0);
+    expect(deviationFromRange(160, range)).toBe(0);
+  });
+
+  it("measures distance below and above the range", () => {
+    expect(deviationFromRange(30, range)).toBe(10);
+    expect(deviationFromRange(175, range)).toBe(15);
+  });
+});
+
+describe("classifyDeviation", () => {
+  it("classifies severity by degrees", () => {
+    expect(classifyDeviation(0)).toBe("none");
+    expect(classifyDeviation(5)).toBe("minor");
+    expect(classifyDeviation(10)).toBe("minor");
+    expect(classifyDeviation(15)).toBe("moderate");
+    expect(classifyDeviation(20)).toBe("moderate");
+    expect(classifyDeviation(25)).toBe("major");
+  });
+});
+
+describe("measureFrameDeviations", () => {
+  it("reports the deviation of each measured joint", () => {
+    const deviations = measureFrameDeviations(
+      { angles: { left_elbow: 25 }, timestamp: 0 },
+      elbowCriteria,
+    );
+
+    expect(deviations).toEqual([
+      {
+        joint: "left_elbow",
+        expectedRange: elbowCriteria.angleRanges[0],
+        measuredAngle: 25,
+        deviationDegrees: 15,
+        severity: "moderate",
+      },
+    ]);
+  });
+
+  it("omits joints missing from the frame", () => {
+    expect(
+      measureFrameDeviations({ angles: {}, timestamp: 0 }, elbowCriteria),
+    ).toEqual([]);
+  });
+});
+
+/* ─── Rep Scoring ──────────────────────────────────────────────────── */
+
+describe("scoreRep", () => {
+  it("scores 100 when every frame is within range", () => {
+    const frames = [60, 100, 150].map((deg, i) =>
+      measureFrame(elbowPose(deg, i * 100), elbowCriteria),
+    );
+
+    const result = scoreRep(frames, elbowCriteria);
+
+    expect(result.score).toBe(100);
+    expect(result.deviations[0]!.severity).toBe("none");
+    expect(result.concessionApplied).toBe(false);
+    expect(result.timestamp).toBe(200);
+  });
+
+  it("keeps the worst frame for each joint", () => {
+    const frames = [60, 175, 150].map((deg) =>
+      measureFrame(elbowPose(deg), elbowCriteria),
+    );
+
+    const result = scoreRep(frames, elbowCriteria);
+    const deviation = result.deviations[0]!;
+
+    expect(deviation.measuredAngle).toBeCloseTo(175);
+    expect(deviation.deviationDegrees).toBeCloseTo(15);
+    expect(deviation.severity).toBe("moderate");
+    expect(result.score).toBe(50);
+  });
+
+  it("scores 0 at 30 degrees of deviation or more", () => {
+    const frames = [measureFrame(elbowPose(5), elbowCriteria)];
+
+    expect(scoreRep(frames, elbowCriteria).score).toBe(0);
+  });
+
+  it("weights joints by their criteria weight", () => {
+    const criteria: FormCriteria = {
+      ...elbowCriteria,
+      angleRanges: [
+        { joint: "left_elbow", min: 40, max: 160, weight: 0.75 },
+        { joint: "right_elbow", min: 40, max: 160, weight: 0.25 },
+      ],
+    };
+    const frames = [
+      { angles: { left_elbow: 100, right_elbow: 190 }, timestamp: 0 },
+    ];
+
+    /* left = 100 * 0.75, right = 0 * 0.25 */
+    expect(scoreRep(frames, criteria).score).toBe(75);
+  });
+
+  it("renormalizes weights when a joint is never seen", () => {
+    const criteria: FormCriteria = {
+      ...elbowCriteria,
+      angleRanges: [
+        { joint: "left_elbow", min: 40, max: 160, weight: 0.5 },
+        { joint: "right_elbow", min: 40, max: 160, weight: 0.5 },
+      ],
+    };
+    const frames = [{ angles: { left_elbow: 100 }, timestamp: 0 }];
+
+    const result = scoreRep(frames, criteria);
+
+    expect(result.score).toBe(100);
+    expect(result.deviations).toHaveLength(1);
+  });
+
+  it("scores 0 when no joints were measured", () => {
+    expect(scoreRep([], elbowCriteria).score).toBe(0);
+  });
+});
+
+/* ─── Live Scorer ──────────────────────────────────────────────────── */
+
+describe("createFormScorer", () => {
+  it("emits one FormScore per completed rep", () => {
+    const scorer = createFormScorer(elbowCriteria);
+
+    scorer.addFrame(elbowPose(150, 0));
+    scorer.addFrame(elbowPose(50, 500));
+    const first = scorer.completeRep();
+
+    scorer.addFrame(elbowPose(175, 1000));
+    const second = scorer.completeRep();
+
+    expect(first!.score).toBe(100);
+    expect(second!.score).toBe(50);
+    expect(scorer.getScores()).toHaveLength(2);
+  });
+
+  it("returns null when a rep has no frames", () => {
+    const scorer = createFormScorer(elbowCriteria);
+
+    expect(scorer.completeRep()).toBeNull();
+  });
+
+  it("scores against the calibrated workspace", () => {
+    const scorer = createFormScorer(elbowCriteria, {
+      calibration: {
+        position: "standing",
+        rangeOfMotionFactor: 0.5,
+        calibratedAt: "2026-03-09T09:00:00Z",
+      },
+      exercisePosition: "standing",
+    });
+
+    /* 175° is 15° past 160 normally, but within the widened 190° limit */
+    scorer.addFrame(elbowPose(175));
+    const score = scorer.completeRep();
+
+    expect(score!.score).toBe(100);
+    expect(score!.concessionApplied).toBe(true);
+    expect(scorer.getCriteria().angleRanges[0]!.max).toBe(180);
+  });
+
+  it("does not flag concessions without a calibration", () => {
+    const scorer = createFormScorer(elbowCriteria, {
+      calibration: null,
+      exercisePosition: "standing",
+    });
+
+    scorer.addFrame(elbowPose(90));
+
+    expect(scorer.completeRep()!.concessionApplied).toBe(false);
+  });
+
+  it("clears scores and buffered frames on reset", () => {
+    const scorer = createFormScorer(elbowCriteria);
+    scorer.addFrame(elbowPose(90));
+    scorer.completeRep();
+    scorer.addFrame(elbowPose(90));
+
+    scorer.reset();
+
+    expect(scorer.getScores()).toHaveLength(0);
+    expect(scorer.completeRep()).toBeNull();
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Form Scoring Engine
+ *
+ * Turns pose landmarks into per-rep form scores.
+ * Pure functions — no camera, model or platform dependencies.
+ *
+ * Rules:
+ *   - Joint angles are measured in 3D from world landmarks
+ *   - A joint is ignored for a frame if any of its landmarks is poorly visible
+ *   - Each rep keeps the worst measured angle per joint
+ *   - Deviation severity: 0° none, ≤10° minor, ≤20° moderate, >20° major
+ *   - Score is the weighted average of per-joint scores, 0° = 100, ≥30° = 0
+ *   - Workspace calibration, when given, adjusts the criteria before scoring
+ */
+
+import type {
+  FormCriteria,
+  AngleRange,
+  ExercisePosition,
+} from "../types/exercise";
+import type {
+  FormScore,
+  AngleDeviation,
+  DeviationSeverity,
+} from "../types/form";
+import type { Landmark, LandmarkName, PoseLandmarks } from "../types/pose";
+import type { WorkspaceCalibration } from "../types/schedule";
+import { LANDMARK_INDEX } from "../types/pose";
+import { applyWorkspaceConcessions } from "./concessions";
+
+/**
+ * A point used in an angle calculation. Either a single landmark
+ * or the midpoint of several (e.g. the centre of both shoulders).
+ */
+type JointPoint = LandmarkName | LandmarkName[];
+
+/** Three points defining an angle, measured at the middle point */
+export type JointDefinition = [JointPoint, JointPoint, JointPoint];
+
+/** Angles measured for one frame, keyed by joint name */
+export interface FrameAngles {
+  angles: Record<string, number>;
+  timestamp: number;
+}
+
+/** The user's workspace, used to apply scoring concessions */
+export interface ScoringContext {
+  calibration: WorkspaceCalibration | null;
+  exercisePosition: ExercisePosition;
+}
+
+const MIN_VISIBILITY = 0.5;
+const MINOR_DEVIATION_DEGREES = 10;
+const MODERATE_DEVIATION_DEGREES = 20;
+const ZERO_SCORE_DEVIATION_DEGREES = 30;
+
+/**
+ * Named joints that can appear in `AngleRange.joint`.
+ * Names match the snake_case convention used in exercise form criteria.
+ */
+export const JOINT_DEFINITIONS: Record<string, JointDefinition> = {
+  left_elbow: ["LEFT_SHOULDER", "LEFT_ELBOW", "LEFT_WRIST"],
+  right_elbow: ["RIGHT_SHOULDER", "RIGHT_ELBOW", "RIGHT_WRIST"],
+  left_shoulder: ["LEFT_ELBOW", "LEFT_SHOULDER", "LEFT_HIP"],
+  right_shoulder: ["RIGHT_ELBOW", "RIGHT_SHOULDER", "RIGHT_HIP"],
+  left_wrist: ["LEFT_ELBOW", "LEFT_WRIST", "LEFT_INDEX"],
+  right_wrist: ["RIGHT_ELBOW", "RIGHT_WRIST", "RIGHT_INDEX"],
+  left_hip: ["LEFT_SHOULDER", "LEFT_HIP", "LEFT_KNEE"],
+  right_hip: ["RIGHT_SHOULDER", "RIGHT_HIP", "RIGHT_KNEE"],
+  left_knee: ["LEFT_HIP", "LEFT_KNEE", "LEFT_ANKLE"],
+  right_knee: ["RIGHT_HIP", "RIGHT_KNEE", "RIGHT_ANKLE"],
+  left_ankle: ["LEFT_KNEE", "LEFT_ANKLE", "LEFT_FOOT_INDEX"],
+  right_ankle: ["RIGHT_KNEE", "RIGHT_ANKLE", "RIGHT_FOOT_INDEX"],
+  neck: [
+    ["LEFT_EAR", "RIGHT_EAR"],
+    ["LEFT_SHOULDER", "RIGHT_SHOULDER"],
+    ["LEFT_HIP", "RIGHT_HIP"],
+  ],
+  torso: [
+    ["LEFT_SHOULDER", "RIGHT_SHOULDER"],
+    ["LEFT_HIP", "RIGHT_HIP"],
+    ["LEFT_KNEE", "RIGHT_KNEE"],
+  ],
+};
+
+/**
+ * Angle in degrees at point b, formed by the segments b→a and b→c.
+ * Returns 0 when either segment has zero length.
+ */
+export function calculateAngle(a: Landmark, b: Landmark, c: Landmark): number {
+  const ba = { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+  const bc = { x: c.x - b.x, y: c.y - b.y, z: c.z - b.z };
+
+  const dot = ba.x * bc.x + ba.y * bc.y + ba.z * bc.z;
+  const magnitude = Math.hypot(ba.x, ba.y, ba.z) * Math.hypot(bc.x, bc.y, bc.z);
+
+  if (magnitude === 0) return 0;
+
+  /* Clamp to guard against floating point drift outside [-1, 1] */
+  const cosine = Math.min(1, Math.max(-1, dot / magnitude));
+  return (Math.acos(cosine) * 180) / Math.PI;
+}
+
+/**
+ * Resolve a joint point to a landmark, averaging when it names several.
+ * Returns null if any contributing landmark is missing or poorly visible.
+ */
+function resolvePoint(
+  point: JointPoint,
+  landmarks: Landmark[],
+): Landmark | null {
+  const names = Array.isArray(point) ? point : [point];
+  const resolved: Landmark[] = [];
+
+  for (const name of names) {
+    const landmark = landmarks[LANDMARK_INDEX[name]];
+    if (!landmark || landmark.visibility < MIN_VISIBILITY) return null;
+    resolved.push(landmark);
+  }
+
+  const count = resolved.length;
+  return {
+    x: resolved.reduce((sum, l) => sum + l.x, 0) / count,
+    y: resolved.reduce((sum, l) => sum + l.y, 0) / count,
+    z: resolved.reduce((sum, l) => sum + l.z, 0) / count,
+    visibility: Math.min(...resolved.map((l) => l.visibility)),
+  };
+}
+
+/**
+ * Measure a named joint angle for one frame.
+ * Returns null for unknown joints or when the joint isn't visible.
+ */
+export function measureJointAngle(
+  joint: string,
+  pose: PoseLandmarks,
+): number | null {
+  const definition = JOINT_DEFINITIONS[joint];
+  if (!definition) return null;
+
+  const [first, vertex, last] = definition;
+  const a = resolvePoint(first, pose.landmarks);
+  const b = resolvePoint(vertex, pose.landmarks);
+  const c = resolvePoint(last, pose.landmarks);
+
+  if (!a || !b || !c) return null;
+
+  return calculateAngle(a, b, c);
+}
+
+/**
+ * Measure every joint referenced by the criteria for one frame.
+ * Joints that can't be measured are omitted from the result.
+ */
+export function measureFrame(
+  pose: PoseLandmarks,
+  criteria: FormCriteria,
+): FrameAngles {
+  const angles: Record<string, number> = {};
+
+  for (const range of criteria.angleRanges) {
+    const angle = measureJointAngle(range.joint, pose);
+    if (angle !== null) angles[range.joint] = angle;
+  }
+
+  return { angles, timestamp: pose.timestamp };
+}
+
+/** Degrees a measured angle falls outside its range (0 = within range) */
+export function deviationFromRange(angle: number, range: AngleRange): number {
+  if (angle < range.min) return range.min - angle;
+  if (angle > range.max) return angle - range.max;
+  return 0;
+}
+
+/** Classify how serious a deviation is */
+export function classifyDeviation(degrees: number): DeviationSeverity {
+  if (degrees <= 0) return "none";
+  if (degrees <= MINOR_DEVIATION_DEGREES) return "minor";
+  if (degrees <= MODERATE_DEVIATION_DEGREES) return "moderate";
+  return "major";
+}
+
+/**
+ * Deviations for a single frame, for live feedback between reps.
+ * Joints missing from the frame are omitted.
+ */
+export function measureFrameDeviations(
+  frame: FrameAngles,
+  criteria: FormCriteria,
+): AngleDeviation[] {
+  const deviations: AngleDeviation[] = [];
+
+  for (const range of criteria.angleRanges) {
+    const angle = frame.angles[range.joint];
+    if (angle === undefined) continue;
+
+    const deviation = deviationFromRange(angle, range);
+    deviations.push({
+      joint: range.joint,
+      expectedRange: range,
+      measuredAngle: round(angle),
+      deviationDegrees: round(deviation),
+      severity: classifyDeviation(deviation),
+    });
+  }
+
+  return deviations;
+}
+
+/** Map a deviation to a 0-100 joint score, falling linearly to 0 at 30° */
+function jointScore(deviationDegrees: number): number {
+  const ratio = Math.min(1, deviationDegrees / ZERO_SCORE_DEVIATION_DEGREES);
+  return (1 - ratio) * 100;
+}
+
+/**
+ * Score one rep from the frames captured during it.
+ *
+ * For each joint, the frame with the largest deviation is kept —
+ * a rep that drifts out of range at any point is penalized.
+ * Weights are renormalized over the joints that were actually seen,
+ * so a briefly occluded joint doesn't drag the score to zero.
+ *
+ * `concessionApplied` is passed through for criteria that were
+ * already adjusted by `applyWorkspaceConcessions`.
+ */
+export function scoreRep(
+  frames: FrameAngles[],
+  criteria: FormCriteria,
+  concessionApplied = false,
+): FormScore {
+  const deviations: AngleDeviation[] = [];
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  for (const range of criteria.angleRanges) {
+    let worst: { angle: number; deviation: number } | null = null;
+
+    for (const frame of frames) {
+      const angle = frame.angles[range.joint];
+      if (angle === undefined) continue;
+
+      const deviation = deviationFromRange(angle, range);
+      if (!worst || deviation > worst.deviation) {
+        worst = { angle, deviation };
+      }
+    }
+
+    if (!worst) continue;
+
+    deviations.push({
+      joint: range.joint,
+      expectedRange: range,
+      measuredAngle: round(worst.angle),
+      deviationDegrees: round(worst.deviation),
+      severity: classifyDeviation(worst.deviation),
+    });
+
+    weightedScore += jointScore(worst.deviation) * range.weight;
+    totalWeight += range.weight;
+  }
+
+  const score = totalWeight > 0 ? Math.round(weightedScore / totalWeight) : 0;
+  const lastFrame = frames[frames.length - 1];
+
+  return {
+    score,
+    deviations,
+    concessionApplied,
+    timestamp: lastFrame?.timestamp ?? 0,
+  };
+}
+
+/**
+ * Stateful scorer for a live landmark stream.
+ *
+ * Frames are buffered with `addFrame` and folded into a FormScore
+ * each time the caller marks a rep boundary with `completeRep`.
+ * Pass a scoring context to score against the user's calibrated workspace.
+ */
+export function createFormScorer(
+  baseCriteria: FormCriteria,
+  context: ScoringContext | null = null,
+) {
+  const { criteria, concessionApplied } = context
+    ? applyWorkspaceConcessions(
+        baseCriteria,
+        context.calibration,
+        context.exercisePosition,
+      )
+    : { criteria: baseCriteria, concessionApplied: false };
+
+  let frames: FrameAngles[] = [];
+  const scores: FormScore[] = [];
+
+  function addFrame(pose: PoseLandmarks): FrameAngles {
+    const measured = measureFrame(pose, criteria);
+    frames.push(measured);
+    return measured;
+  }
+
+  /** Close the current rep. Returns null if no frames were captured. */
+  function completeRep(): FormScore | null {
+    if (frames.length === 0) return null;
+
+    const score = scoreRep(frames, criteria, concessionApplied);
+    scores.push(score);
+    frames = [];
+    return score;
+  }
+
+  function getScores(): FormScore[] {
+    return [...scores];
+  }
+
+  /** The criteria actually scored against, after concessions */
+  function getCriteria(): FormCriteria {
+    return criteria;
+  }
+
+  function reset(): void {
+    frames = [];
+    scores.length = 0;
+  }
+
+  return { addFrame, completeRep, getScores, getCriteria, reset };
+}
+
+export type FormScorer = ReturnType<typeof createFormScorer>;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
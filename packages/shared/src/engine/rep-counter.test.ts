@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest";
+import { createRepCounter, getPrimaryAngleRange } from "./rep-counter";
+import type { RepCounter, RepEvent } from "./rep-counter";
+import type { FormCriteria } from "../types/exercise";
+import type { Landmark, PoseLandmarks } from "../types/pose";
+import { LANDMARK_INDEX } from "../types/pose";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+const criteria: FormCriteria = {
+  angleRanges: [
+    { joint: "left_elbow", min: 40, max: 160, weight: 0.7 },
+    { joint: "left_shoulder", min: 0, max: 30, weight: 0.3 },
+  ],
+  expectedReps: 8,
+  minimumScore: 60,
+};
+
+/** Feed angles at a fixed frame interval, collecting completed reps */
+function feed(
+  counter: RepCounter,
+  angles: number[],
+  startMs = 0,
+  intervalMs = 50,
+): RepEvent[] {
+  const reps: RepEvent[] = [];
+  angles.forEach((angle, i) => {
+    const rep = counter.addAngle(angle, startMs + i * intervalMs);
+    if (rep) reps.push(rep);
+  });
+  return reps;
+}
+
+/** Sampled cosine wave between `low` and `high`, starting at `high` */
+function wave(
+  cycles: number,
+  periodMs: number,
+  low = 45,
+  high = 155,
+  intervalMs = 50,
+): number[] {
+  const mid = (high + low) / 2;
+  const amplitude = (high - low) / 2;
+  const samples = Math.round((cycles * periodMs) / intervalMs);
+  const angles: number[] = [];
+
+  for (let i = 0; i <= samples; i++) {
+    const t = i * intervalMs;
+    angles.push(mid + amplitude * Math.cos((2 * Math.PI * t) / periodMs));
+  }
+
+  /* Hold the final position so the last phase change can settle */
+  return [...angles, high, high, high];
+}
+
+function elbowPose(degrees: number, timestamp: number): PoseLandmarks {
+  const radians = (degrees * Math.PI) / 180;
+  const landmarks: Landmark[] = Array.from({ length: 33 }, () => ({
+    x: 0,
+    y: 0,
+    z: 0,
+    visibility: 1,
+  }));
+  landmarks[LANDMARK_INDEX.LEFT_SHOULDER] = { x: 0, y: 1, z: 0, visibility: 1 };
+  landmarks[LANDMARK_INDEX.LEFT_WRIST] = {
+    x: Math.sin(radians),
+    y: Math.cos(radians),
+    z: 0,
+    visibility: 1,
+  };
+  return { landmarks, timestamp };
+}
+
+/* ─── Primary Joint ────────────────────────────────────────────────── */
+
+describe("getPrimaryAngleRange", () => {
+  it("picks the highest-weighted angle range", () => {
+    expect(getPrimaryAngleRange(criteria)?.joint).toBe("left_elbow");
+  });
+
+  it("returns null when there are no angle ranges", () => {
+    expect(getPrimaryAngleRange({ ...criteria, angleRanges: [] })).toBeNull();
+  });
+});
+
+describe("createRepCounter", () => {
+  it("throws when no joint can be tracked", () => {
+    expect(() => createRepCounter({ ...criteria, angleRanges: [] })).toThrow(
+      "angle range",
+    );
+  });
+
+  it("tracks an explicitly requested joint", () => {
+    const counter = createRepCounter(criteria, { joint: "left_shoulder" });
+
+    expect(counter.getJoint()).toBe("left_shoulder");
+  });
+});
+
+/* ─── Counting ─────────────────────────────────────────────────────── */
+
+describe("rep counting", () => {
+  it("counts one rep per full peak/valley cycle", () => {
+    const counter = createRepCounter(criteria);
+
+    const reps = feed(counter, wave(5, 2000));
+
+    expect(reps).toHaveLength(5);
+    expect(counter.getCount()).toBe(5);
+    expect(reps.map((r) => r.repNumber)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("reports start and end timestamps for each rep", () => {
+    const counter = createRepCounter(criteria);
+
+    const reps = feed(counter, wave(3, 2000));
+
+    for (const rep of reps) {
+      expect(rep.endTimestamp).toBeGreaterThan(rep.startTimestamp);
+      expect(rep.endTimestamp - rep.startTimestamp).toBeLessThanOrEqual(2000);
+    }
+    /* Reps follow each other without overlapping */
+    expect(reps[1]!.startTimestamp).toBeGreaterThanOrEqual(
+      reps[0]!.endTimestamp,
+    );
+  });
+
+  it("records the angle extremes reached during a rep", () => {
+    const counter = createRepCounter(criteria);
+
+    const [rep] = feed(counter, wave(1, 2000));
+
+    expect(rep!.valleyAngle).toBeLessThan(60);
+    expect(rep!.peakAngle).toBeGreaterThan(140);
+  });
+
+  it("counts reps that start from the valley", () => {
+    const counter = createRepCounter(criteria);
+    const fromValley = wave(3, 2000).map((a) => 200 - a);
+
+    feed(counter, [...fromValley, 45, 45, 45]);
+
+    expect(counter.getCount()).toBe(3);
+  });
+
+  it("ignores movement inside the hysteresis band", () => {
+    const counter = createRepCounter(criteria);
+
+    feed(counter, wave(5, 2000, 80, 120));
+
+    expect(counter.getCount()).toBe(0);
+    expect(counter.getPhase()).toBe("unknown");
+  });
+
+  it("debounces single-frame spikes", () => {
+    const counter = createRepCounter(criteria, { smoothing: 1 });
+
+    feed(counter, [150, 150, 150, 150, 40, 150, 150, 150, 150]);
+
+    expect(counter.getCount()).toBe(0);
+  });
+
+  it("discards cycles shorter than the minimum rep duration", () => {
+    const counter = createRepCounter(criteria, {
+      smoothing: 1,
+      minRepDurationMs: 1000,
+    });
+
+    feed(counter, [150, 150, 150, 40, 40, 150, 150], 0, 100);
+
+    expect(counter.getCount()).toBe(0);
+  });
+
+  it("counts shallower reps with a reduced range of motion", () => {
+    const shallow = wave(3, 2000, 75, 125);
+
+    const full = createRepCounter(criteria);
+    feed(full, shallow);
+    const reduced = createRepCounter(criteria, { rangeOfMotionFactor: 0.5 });
+    feed(reduced, shallow);
+
+    expect(full.getCount()).toBe(0);
+    expect(reduced.getCount()).toBe(3);
+  });
+
+  it("resets all state", () => {
+    const counter = createRepCounter(criteria);
+    feed(counter, wave(2, 2000));
+
+    counter.reset();
+
+    expect(counter.getCount()).toBe(0);
+    expect(counter.getReps()).toHaveLength(0);
+    expect(counter.getPhase()).toBe("unknown");
+  });
+});
+
+/* ─── Pose Frames ──────────────────────────────────────────────────── */
+
+describe("addFrame", () => {
+  it("measures the tracked joint from landmarks", () => {
+    const counter = createRepCounter(criteria);
+    const angles = wave(2, 2000);
+
+    angles.forEach((angle, i) => counter.addFrame(elbowPose(angle, i * 50)));
+
+    expect(counter.getCount()).toBe(2);
+  });
+
+  it("skips frames where the joint is not visible", () => {
+    const counter = createRepCounter(criteria);
+    const hidden = elbowPose(40, 0);
+    hidden.landmarks[LANDMARK_INDEX.LEFT_WRIST]!.visibility = 0;
+
+    expect(counter.addFrame(hidden)).toBeNull();
+    expect(counter.getPhase()).toBe("unknown");
+  });
+});
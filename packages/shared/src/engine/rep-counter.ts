@@ -0,0 +1,253 @@
+/**
+ * Rep Counter
+ *
+ * Counts reps by following one joint angle through a peak/valley cycle.
+ * Pure state machine — feed it frames, it reports completed reps.
+ *
+ * Rules:
+ *   - The primary joint is the highest-weighted angle in the form criteria
+ *   - Angles are smoothed before thresholding to suppress landmark jitter
+ *   - Upper/lower thresholds sit inside the expected range (hysteresis band)
+ *   - Reduced range of motion pulls both thresholds toward the middle
+ *   - A phase change needs several consecutive frames past a threshold
+ *   - A rep is a return to the starting extreme after visiting the other one
+ *   - Cycles faster than the minimum rep duration are discarded as noise
+ */
+
+import type { FormCriteria, AngleRange } from "../types/exercise";
+import type { PoseLandmarks } from "../types/pose";
+import { measureJointAngle } from "./form-scoring";
+
+export type RepPhase = "unknown" | "peak" | "valley";
+
+export interface RepEvent {
+  /** 1-based rep number */
+  repNumber: number;
+  /** Timestamp the rep started (left the starting extreme) in ms */
+  startTimestamp: number;
+  /** Timestamp the rep completed (returned to the starting extreme) in ms */
+  endTimestamp: number;
+  /** Largest smoothed angle seen during the rep */
+  peakAngle: number;
+  /** Smallest smoothed angle seen during the rep */
+  valleyAngle: number;
+}
+
+export interface RepCounterOptions {
+  /** Joint to track. Defaults to the highest-weighted angle range. */
+  joint: string;
+  /** Fraction of the range kept clear at each end, 0-0.5 */
+  thresholdFraction: number;
+  /** Consecutive frames past a threshold before the phase changes */
+  debounceFrames: number;
+  /** Reps shorter than this are ignored */
+  minRepDurationMs: number;
+  /** Exponential smoothing weight of the newest angle, 0-1 */
+  smoothing: number;
+  /** Calibrated range of motion, 0-1 (see WorkspaceCalibration) */
+  rangeOfMotionFactor: number;
+}
+
+const DEFAULT_OPTIONS: Omit<RepCounterOptions, "joint"> = {
+  thresholdFraction: 0.25,
+  debounceFrames: 2,
+  minRepDurationMs: 600,
+  smoothing: 0.5,
+  rangeOfMotionFactor: 1,
+};
+
+/**
+ * Pick the joint that drives rep detection for an exercise.
+ * Returns null if the criteria define no angle ranges.
+ */
+export function getPrimaryAngleRange(
+  criteria: FormCriteria,
+): AngleRange | null {
+  let primary: AngleRange | null = null;
+
+  for (const range of criteria.angleRanges) {
+    if (!primary || range.weight > primary.weight) primary = range;
+  }
+
+  return primary;
+}
+
+/**
+ * Create a rep counter for one exercise.
+ * Pass the exercise's original criteria, not the concession-widened
+ * ones — reduced range of motion is handled by `rangeOfMotionFactor`.
+ * Throws if no primary joint can be determined.
+ */
+export function createRepCounter(
+  criteria: FormCriteria,
+  userOptions: Partial<RepCounterOptions> = {},
+) {
+  const range = userOptions.joint
+    ? criteria.angleRanges.find((r) => r.joint === userOptions.joint)
+    : getPrimaryAngleRange(criteria);
+
+  if (!range) {
+    throw new Error("Rep counter needs an angle range to track.");
+  }
+
+  const options: RepCounterOptions = {
+    ...DEFAULT_OPTIONS,
+    ...userOptions,
+    joint: range.joint,
+  };
+
+  /* Shrink the tracked range around its midpoint for reduced mobility */
+  const factor = Math.min(1, Math.max(0, options.rangeOfMotionFactor));
+  const midpoint = (range.min + range.max) / 2;
+  const span = (range.max - range.min) * factor;
+  const lowerThreshold = midpoint - span / 2 + span * options.thresholdFraction;
+  const upperThreshold = midpoint + span / 2 - span * options.thresholdFraction;
+
+  let phase: RepPhase = "unknown";
+  let startPhase: RepPhase = "unknown";
+  let smoothed: number | null = null;
+  let pendingPhase: RepPhase = "unknown";
+  let pendingFrames = 0;
+  let repStart: number | null = null;
+  let lastAtStart: number | null = null;
+  let peakAngle = -Infinity;
+  let valleyAngle = Infinity;
+  const reps: RepEvent[] = [];
+
+  function classify(angle: number): RepPhase {
+    if (angle >= upperThreshold) return "peak";
+    if (angle <= lowerThreshold) return "valley";
+    return "unknown";
+  }
+
+  function resetCycle(): void {
+    repStart = null;
+    peakAngle = smoothed ?? -Infinity;
+    valleyAngle = smoothed ?? Infinity;
+  }
+
+  /**
+   * Feed one measured angle. Returns the completed rep, if this
+   * sample closed one.
+   */
+  function addAngle(angle: number, timestamp: number): RepEvent | null {
+    smoothed =
+      smoothed === null
+        ? angle
+        : smoothed + (angle - smoothed) * options.smoothing;
+
+    peakAngle = Math.max(peakAngle, smoothed);
+    valleyAngle = Math.min(valleyAngle, smoothed);
+
+    const candidate = classify(smoothed);
+
+    /* Remember the last moment spent at the starting extreme */
+    if (phase !== "unknown" && phase === startPhase && candidate === phase) {
+      lastAtStart = timestamp;
+    }
+
+    /* Inside the hysteresis band — keep the current phase */
+    if (candidate === "unknown" || candidate === phase) {
+      pendingPhase = "unknown";
+      pendingFrames = 0;
+      return null;
+    }
+
+    if (candidate !== pendingPhase) {
+      pendingPhase = candidate;
+      pendingFrames = 0;
+    }
+    pendingFrames++;
+
+    if (pendingFrames < options.debounceFrames) return null;
+
+    const previous = phase;
+    phase = candidate;
+    pendingPhase = "unknown";
+    pendingFrames = 0;
+
+    /* First settled extreme defines where each rep starts and ends */
+    if (previous === "unknown") {
+      startPhase = phase;
+      lastAtStart = timestamp;
+      resetCycle();
+      return null;
+    }
+
+    if (phase !== startPhase) {
+      repStart = lastAtStart ?? timestamp;
+      return null;
+    }
+
+    if (repStart === null) return null;
+
+    const duration = timestamp - repStart;
+    lastAtStart = timestamp;
+
+    if (duration < options.minRepDurationMs) {
+      resetCycle();
+      return null;
+    }
+
+    const rep: RepEvent = {
+      repNumber: reps.length + 1,
+      startTimestamp: repStart,
+      endTimestamp: timestamp,
+      peakAngle: Math.round(peakAngle * 10) / 10,
+      valleyAngle: Math.round(valleyAngle * 10) / 10,
+    };
+
+    reps.push(rep);
+    resetCycle();
+    return rep;
+  }
+
+  /**
+   * Feed one pose frame. Frames where the tracked joint isn't
+   * visible are skipped without affecting the state machine.
+   */
+  function addFrame(pose: PoseLandmarks): RepEvent | null {
+    const angle = measureJointAngle(options.joint, pose);
+    if (angle === null) return null;
+    return addAngle(angle, pose.timestamp);
+  }
+
+  function getCount(): number {
+    return reps.length;
+  }
+
+  function getReps(): RepEvent[] {
+    return [...reps];
+  }
+
+  function getPhase(): RepPhase {
+    return phase;
+  }
+
+  function getJoint(): string {
+    return options.joint;
+  }
+
+  function reset(): void {
+    phase = "unknown";
+    startPhase = "unknown";
+    smoothed = null;
+    pendingPhase = "unknown";
+    pendingFrames = 0;
+    lastAtStart = null;
+    reps.length = 0;
+    resetCycle();
+  }
+
+  return {
+    addAngle,
+    addFrame,
+    getCount,
+    getReps,
+    getPhase,
+    getJoint,
+    reset,
+  };
+}
+
+export type RepCounter = ReturnType<typeof createRepCounter>;
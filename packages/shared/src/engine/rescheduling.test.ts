@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { planReschedule } from "./rescheduling";
+import type { RescheduleInput } from "./rescheduling";
+import type { SessionStatus, SessionType } from "../types/session";
+
+function at(time: string): string {
+  return `2026-03-10T${time}:00-06:00`;
+}
+
+function daySession(
+  id: string,
+  time: string,
+  sessionType: SessionType = "physical",
+  status: SessionStatus = "scheduled",
+) {
+  return { id, sessionType, status, scheduledTime: at(time) };
+}
+
+/* Denver, MDT: 09:00–17:00 with the mental session at 16:20 */
+const daySessions = [
+  daySession("s1", "11:00", "physical", "completed"),
+  daySession("s2", "12:00", "physical", "deferred"),
+  daySession("s3", "13:00"),
+  daySession("s4", "14:00"),
+  daySession("s5", "15:00"),
+  daySession("s6", "16:20", "mental"),
+];
+
+function input(overrides: Partial<RescheduleInput> = {}): RescheduleInput {
+  return {
+    session: {
+      id: "s2",
+      sessionType: "physical",
+      scheduledTime: at("12:00"),
+      deferCount: 0,
+    },
+    daySessions,
+    workWindowStart: "09:00",
+    workWindowEnd: "17:00",
+    availabilityBlocks: [{ start: "09:00", end: "17:00" }],
+    timezone: "America/Denver",
+    now: new Date(at("11:56")),
+    ...overrides,
+  };
+}
+
+describe("planReschedule", () => {
+  it("picks the next grid time at least the minimum gap from now", () => {
+    expect(planReschedule(input())).toEqual({
+      action: "reschedule",
+      time: at("12:20"),
+    });
+  });
+
+  it("keeps the gap from sessions holding time but ignores released ones", () => {
+    const result = planReschedule(
+      input({
+        daySessions: [
+          ...daySessions.filter((s) => s.id !== "s3"),
+          daySession("s3", "12:35"),
+          daySession("x", "12:20", "physical", "skipped"),
+        ],
+      }),
+    );
+
+    expect(result).toEqual({ action: "reschedule", time: at("12:55") });
+  });
+
+  it("only uses available time", () => {
+    const result = planReschedule(
+      input({
+        availabilityBlocks: [
+          { start: "09:00", end: "12:00" },
+          { start: "13:30", end: "17:00" },
+        ],
+      }),
+    );
+
+    expect(result).toEqual({ action: "reschedule", time: at("13:30") });
+  });
+
+  it("misses a physical session with no room before the mental slot", () => {
+    const result = planReschedule(
+      input({
+        session: {
+          id: "s5",
+          sessionType: "physical",
+          scheduledTime: at("15:00"),
+          deferCount: 0,
+        },
+        now: new Date(at("15:45")),
+      }),
+    );
+
+    expect(result).toEqual({ action: "miss", reason: "no_time" });
+  });
+
+  it("keeps a deferred mental session inside its buffer before shift end", () => {
+    const mental = {
+      id: "s6",
+      sessionType: "mental" as const,
+      scheduledTime: at("15:45"),
+      deferCount: 0,
+    };
+
+    expect(
+      planReschedule(
+        input({
+          session: mental,
+          now: new Date(at("15:41")),
+          rules: { mentalSlotBufferMaxMinutes: 90 },
+        }),
+      ),
+    ).toEqual({ action: "reschedule", time: at("16:05") });
+
+    /* Default buffer closes at 16:30 */
+    expect(
+      planReschedule(input({ session: mental, now: new Date(at("16:15")) })),
+    ).toEqual({ action: "miss", reason: "no_time" });
+  });
+
+  it("misses a session once it has used up its deferrals", () => {
+    const result = planReschedule(
+      input({
+        session: {
+          id: "s2",
+          sessionType: "physical",
+          scheduledTime: at("12:20"),
+          deferCount: 2,
+        },
+      }),
+    );
+
+    expect(result).toEqual({ action: "miss", reason: "max_deferrals" });
+    expect(
+      planReschedule(
+        input({
+          session: { ...input().session, deferCount: 2 },
+          rules: { maxDeferrals: 3 },
+        }),
+      ).action,
+    ).toBe("reschedule");
+  });
+});
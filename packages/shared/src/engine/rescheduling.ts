@@ -0,0 +1,142 @@
+/**
+ * Rescheduling Engine
+ *
+ * Finds a new time for a deferred session later the same day.
+ * Pure function — the caller loads the day and writes the result.
+ *
+ * Rules:
+ *   - A session deferred more than `maxDeferrals` times is missed
+ *   - The new time is at least the minimum gap from now, on a
+ *     5-minute grid of the user's local time
+ *   - It must fit inside an availability block, clear of the
+ *     startup buffer and the work window end
+ *   - It keeps the minimum gap from every session still holding time
+ *     (scheduled, notified, confirmed, in progress or completed)
+ *   - Physical sessions stay before the mental session; a deferred
+ *     mental session stays inside its buffer before shift end and
+ *     after every physical session
+ *   - No valid time left today means the session is missed
+ */
+
+import type { AvailabilityBlock, SchedulingRules } from "../types/schedule";
+import type { Session, SessionStatus } from "../types/session";
+import {
+  getSchedulableBlocks,
+  resolveSchedulingRules,
+  timeToMinutes,
+} from "./scheduling";
+import { formatZonedISO, getZonedParts, zonedTimeToInstant } from "./timezone";
+
+export type RescheduleOutcome =
+  | { action: "reschedule"; time: string }
+  | { action: "miss"; reason: "max_deferrals" | "no_time" };
+
+export interface RescheduleInput {
+  session: Pick<Session, "id" | "sessionType" | "scheduledTime" | "deferCount">;
+  /** Every session on the same day, including the deferred one */
+  daySessions: Pick<
+    Session,
+    "id" | "sessionType" | "status" | "scheduledTime"
+  >[];
+  workWindowStart: string;
+  workWindowEnd: string;
+  availabilityBlocks: AvailabilityBlock[];
+  timezone: string;
+  now: Date;
+  rules?: Partial<SchedulingRules> | null;
+}
+
+const GRID_MINUTES = 5;
+const MINUTE_MS = 60 * 1000;
+
+/** Statuses whose time is still spoken for */
+const HOLDING_STATUSES: SessionStatus[] = [
+  "scheduled",
+  "notified",
+  "confirmed",
+  "in_progress",
+  "completed",
+];
+
+/**
+ * Decide what happens to a session that was just deferred:
+ * a new time today, or missed.
+ */
+export function planReschedule(input: RescheduleInput): RescheduleOutcome {
+  const rules = resolveSchedulingRules(input.rules);
+  const { session, timezone } = input;
+
+  if (session.deferCount >= rules.maxDeferrals) {
+    return { action: "miss", reason: "max_deferrals" };
+  }
+
+  const { date } = getZonedParts(new Date(session.scheduledTime), timezone);
+  const earliest = input.now.getTime() + rules.minGapMinutes * MINUTE_MS;
+
+  const others = input.daySessions
+    .filter((s) => s.id !== session.id && HOLDING_STATUSES.includes(s.status))
+    .map((s) => ({
+      type: s.sessionType,
+      time: new Date(s.scheduledTime).getTime(),
+    }));
+
+  const workStart = timeToMinutes(input.workWindowStart);
+  const workEnd = timeToMinutes(input.workWindowEnd);
+  let blocks = getSchedulableBlocks(
+    workStart,
+    workEnd,
+    input.availabilityBlocks,
+    rules,
+  );
+
+  /* Keep the deferred session on its side of the mental slot */
+  const mentalStart = workEnd - rules.mentalSlotBufferMaxMinutes;
+  const mentalEnd = workEnd - rules.mentalSlotBufferMinMinutes;
+  const mental = others.find((s) => s.type === "mental");
+  const lastPhysical = Math.max(
+    -Infinity,
+    ...others.filter((s) => s.type === "physical").map((s) => s.time),
+  );
+
+  if (session.sessionType === "mental") {
+    blocks = blocks
+      .map((b) => ({
+        start: Math.max(b.start, mentalStart),
+        end: Math.min(b.end, mentalEnd + rules.sessionDurationMinutes),
+      }))
+      .filter((b) => b.end - b.start >= rules.sessionDurationMinutes);
+  } else if (!mental) {
+    blocks = blocks
+      .map((b) => ({ start: b.start, end: Math.min(b.end, mentalStart) }))
+      .filter((b) => b.end - b.start >= rules.sessionDurationMinutes);
+  }
+
+  for (const block of blocks) {
+    const first = Math.ceil(block.start / GRID_MINUTES) * GRID_MINUTES;
+    const last = block.end - rules.sessionDurationMinutes;
+
+    for (let minute = first; minute <= last; minute += GRID_MINUTES) {
+      const instant = zonedTimeToInstant(date, minute, timezone).getTime();
+      if (instant < earliest) continue;
+
+      if (session.sessionType === "physical" && mental) {
+        if (instant >= mental.time) continue;
+      }
+      if (session.sessionType === "mental" && instant <= lastPhysical) {
+        continue;
+      }
+
+      const clear = others.every(
+        (s) => Math.abs(instant - s.time) >= rules.minGapMinutes * MINUTE_MS,
+      );
+      if (clear) {
+        return {
+          action: "reschedule",
+          time: formatZonedISO(new Date(instant), timezone),
+        };
+      }
+    }
+  }
+
+  return { action: "miss", reason: "no_time" };
+}
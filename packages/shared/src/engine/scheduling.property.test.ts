@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import { proposeSchedule, timeToMinutes, minutesToTime } from "./scheduling";
+import { validateFullSchedule } from "./validateSchedule";
+import type { ScheduleProposal, SchedulingInput } from "./scheduling";
+
+/* ─── Helpers ──────────────────────────────────────────────────────── */
+
+/* UTC keeps wall-clock minutes and elapsed minutes the same */
+const base = {
+  date: "2026-03-09",
+  timezone: "UTC",
+} as const;
+
+function slotMinutes(proposal: ScheduleProposal): number[] {
+  return proposal.slots.map((slot) => timeToMinutes(slot.time.slice(11, 16)));
+}
+
+function minSpacing(proposal: ScheduleProposal): number {
+  const minutes = slotMinutes(proposal);
+  let smallest = Infinity;
+  for (let i = 1; i < minutes.length; i++) {
+    smallest = Math.min(smallest, (minutes[i] ?? 0) - (minutes[i - 1] ?? 0));
+  }
+  return smallest;
+}
+
+/**
+ * A work window with a few availability blocks cut out of it. Block
+ * edges fall on 5-minute marks, like blocks entered in the app.
+ */
+const dayArb = fc
+  .record({
+    startHour: fc.integer({ min: 6, max: 10 }),
+    lengthHours: fc.integer({ min: 5, max: 12 }),
+    cuts: fc.uniqueArray(fc.integer({ min: 1, max: 143 }), {
+      minLength: 0,
+      maxLength: 6,
+    }),
+    keep: fc.array(fc.boolean(), { minLength: 7, maxLength: 7 }),
+  })
+  .map(({ startHour, lengthHours, cuts, keep }) => {
+    const start = startHour * 60;
+    const end = start + lengthHours * 60;
+    const edges = [
+      start,
+      ...cuts
+        .map((cut) => start + cut * 5)
+        .filter((minute) => minute < end)
+        .sort((a, b) => a - b),
+      end,
+    ];
+
+    const availabilityBlocks = [];
+    for (let i = 1; i < edges.length; i++) {
+      /* Always keep the last block so the mental slot has somewhere to go */
+      if (keep[i - 1] || i === edges.length - 1) {
+        availabilityBlocks.push({
+          start: minutesToTime(edges[i - 1] ?? start),
+          end: minutesToTime(edges[i] ?? end),
+        });
+      }
+    }
+
+    return {
+      ...base,
+      workWindowStart: minutesToTime(start),
+      workWindowEnd: minutesToTime(end),
+      availabilityBlocks,
+    } satisfies SchedulingInput;
+  });
+
+/* ─── Max-Spacing Strategy ─────────────────────────────────────────── */
+
+describe("proposeSchedule max-spacing strategy", () => {
+  it("keeps every slot inside availability with at least the minimum gap", () => {
+    fc.assert(
+      fc.property(dayArb, (input) => {
+        const proposal = proposeSchedule({ ...input, strategy: "max-spacing" });
+        const result = validateFullSchedule(
+          proposal.slots,
+          input.availabilityBlocks,
+          input.timezone,
+        );
+        expect(result).toEqual({ valid: true, error: null });
+      }),
+    );
+  });
+
+  it("fits at least as many sessions as the even strategy", () => {
+    fc.assert(
+      fc.property(dayArb, (input) => {
+        const even = proposeSchedule(input);
+        const spaced = proposeSchedule({ ...input, strategy: "max-spacing" });
+        expect(spaced.slots.length).toBeGreaterThanOrEqual(even.slots.length);
+      }),
+    );
+  });
+
+  it("never spaces sessions more tightly than the even strategy", () => {
+    fc.assert(
+      fc.property(dayArb, (input) => {
+        const even = proposeSchedule(input);
+        const spaced = proposeSchedule({ ...input, strategy: "max-spacing" });
+        fc.pre(spaced.slots.length === even.slots.length);
+        expect(minSpacing(spaced)).toBeGreaterThanOrEqual(minSpacing(even));
+      }),
+    );
+  });
+
+  it("keeps the same mental slot as the even strategy", () => {
+    fc.assert(
+      fc.property(dayArb, (input) => {
+        const even = proposeSchedule(input);
+        const spaced = proposeSchedule({ ...input, strategy: "max-spacing" });
+        fc.pre(even.slots.length > 0);
+        expect(spaced.slots.at(-1)?.time).toBe(even.slots.at(-1)?.time);
+      }),
+    );
+  });
+
+  it("balances slots around a gap in availability", () => {
+    const input: SchedulingInput = {
+      ...base,
+      workWindowStart: "07:00",
+      workWindowEnd: "17:00",
+      availabilityBlocks: [
+        { start: "09:00", end: "10:00" },
+        { start: "14:00", end: "17:00" },
+      ],
+    };
+
+    const even = proposeSchedule(input);
+    const spaced = proposeSchedule({ ...input, strategy: "max-spacing" });
+
+    expect(spaced.slots).toHaveLength(6);
+    expect(minSpacing(spaced)).toBeGreaterThan(minSpacing(even));
+    expect(
+      validateFullSchedule(spaced.slots, input.availabilityBlocks, "UTC"),
+    ).toEqual({ valid: true, error: null });
+  });
+
+  it("pins a preferred time and spaces the rest around it", () => {
+    const input: SchedulingInput = {
+      ...base,
+      workWindowStart: "07:00",
+      workWindowEnd: "17:00",
+      availabilityBlocks: [{ start: "09:00", end: "17:00" }],
+      rules: { totalSlots: 3 },
+    };
+
+    const plain = slotMinutes(
+      proposeSchedule({ ...input, strategy: "max-spacing" }),
+    );
+    const preferred = slotMinutes(
+      proposeSchedule({
+        ...input,
+        strategy: "max-spacing",
+        preferredTimes: ["09:30"],
+      }),
+    );
+
+    expect(preferred).toContain(timeToMinutes("09:30"));
+    expect(preferred).not.toEqual(plain);
+  });
+
+  it("names the slots it couldn't fit", () => {
+    /* The mental window sits mid-afternoon, so the afternoon's free
+       time counts toward the day but can't hold physical sessions */
+    const spaced = proposeSchedule({
+      ...base,
+      workWindowStart: "09:00",
+      workWindowEnd: "17:00",
+      availabilityBlocks: [
+        { start: "09:00", end: "09:10" },
+        { start: "14:20", end: "17:00" },
+      ],
+      rules: {
+        startupBufferMinutes: 0,
+        mentalSlotBufferMinMinutes: 120,
+        mentalSlotBufferMaxMinutes: 150,
+      },
+      strategy: "max-spacing",
+    });
+
+    expect(spaced.slots).toHaveLength(4);
+    expect(spaced.diagnostics).toContainEqual({
+      code: "slots_dropped",
+      placed: 4,
+      requested: 6,
+      dropped: [
+        { idealTime: "2026-03-09T10:53:00+00:00", reason: "no_block" },
+        { idealTime: "2026-03-09T11:50:00+00:00", reason: "no_block" },
+      ],
+    });
+  });
+});
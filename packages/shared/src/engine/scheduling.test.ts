@@ -4,8 +4,16 @@ import {
   timeToMinutes,
   minutesToTime,
   getSchedulableBlocks,
+  resolveSchedulingRules,
+  validateSchedulingRules,
+  DEFAULT_SCHEDULING_RULES,
+  describeScheduleDiagnostic,
 } from "./scheduling";
-import { validateSlotMove, validateFullSchedule } from "./validateSchedule";
+import {
+  validateSlotMove,
+  validateFullSchedule,
+  moveSlot,
+} from "./validateSchedule";
 import type { SchedulingInput } from "./scheduling";
 
 /* ─── Helper Utilities ─────────────────────────────────────────────── */
@@ -79,6 +87,7 @@ describe("proposeSchedule", () => {
     workWindowEnd: "17:00",
     availabilityBlocks: [{ start: "09:00", end: "17:00" }],
     date: "2026-03-09",
+    timezone: "America/Denver",
   };
 
   it("proposes 6 slots for a standard work day", () => {
@@ -236,8 +245,293 @@ describe("proposeSchedule", () => {
     const result = proposeSchedule(standardInput);
 
     result.slots.forEach((slot) => {
-      expect(slot.time).toMatch(/^2026-03-09T\d{2}:\d{2}:00$/);
+      expect(slot.time).toMatch(/^2026-03-09T\d{2}:\d{2}:00-06:00$/);
+    });
+  });
+  it("keeps physical slots clear of a mental slot that lands in a late block", () => {
+    const input: SchedulingInput = {
+      date: "2026-03-09",
+      timezone: "UTC",
+      workWindowStart: "06:00",
+      workWindowEnd: "18:00",
+      availabilityBlocks: [
+        { start: "06:00", end: "09:30" },
+        { start: "17:15", end: "18:00" },
+      ],
+    };
+
+    const result = proposeSchedule(input);
+    const mental = result.slots.at(-1);
+
+    expect(mental?.sessionType).toBe("mental");
+    expect(mental?.time).toBe("2026-03-09T17:30:00+00:00");
+    result.slots.slice(0, -1).forEach((slot) => {
+      expect(slot.sessionType).toBe("physical");
+      expect(timeToMinutes(slot.time.slice(11, 16))).toBeLessThanOrEqual(
+        timeToMinutes("17:30") - DEFAULT_SCHEDULING_RULES.minGapMinutes,
+      );
+    });
+    expect(
+      validateFullSchedule(result.slots, input.availabilityBlocks, "UTC"),
+    ).toEqual({ valid: true, error: null });
+  });
+});
+
+/* ─── Scheduling Rules ─────────────────────────────────────────────── */
+
+describe("scheduling rules", () => {
+  const baseInput: SchedulingInput = {
+    workWindowStart: "09:00",
+    workWindowEnd: "17:00",
+    availabilityBlocks: [{ start: "09:00", end: "17:00" }],
+    date: "2026-03-09",
+    timezone: "America/Denver",
+  };
+
+  it("fills missing rules with the defaults", () => {
+    expect(resolveSchedulingRules({ totalSlots: 3 })).toEqual({
+      ...DEFAULT_SCHEDULING_RULES,
+      totalSlots: 3,
+    });
+    expect(resolveSchedulingRules(null)).toEqual(DEFAULT_SCHEDULING_RULES);
+  });
+
+  it("proposes fewer sessions for part-timers", () => {
+    const result = proposeSchedule({ ...baseInput, rules: { totalSlots: 3 } });
+
+    expect(result.slots).toHaveLength(3);
+    expect(result.slots.map((s) => s.sessionType)).toEqual([
+      "physical",
+      "physical",
+      "mental",
+    ]);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("honours a shorter startup buffer", () => {
+    const result = proposeSchedule({
+      ...baseInput,
+      rules: { startupBufferMinutes: 30 },
+    });
+
+    const firstSlot = timeToMinutes(result.slots[0]!.time.split("T")[1]!);
+    expect(firstSlot).toBeGreaterThanOrEqual(timeToMinutes("09:30"));
+    expect(firstSlot).toBeLessThan(timeToMinutes("11:00"));
+  });
+
+  it("mentions the configured buffer when nothing is left after it", () => {
+    const result = proposeSchedule({
+      ...baseInput,
+      availabilityBlocks: [{ start: "09:00", end: "10:00" }],
+      rules: { startupBufferMinutes: 90 },
+    });
+
+    expect(result.warnings[0]).toContain("90-minute startup buffer");
+  });
+
+  it("spaces slots by the configured gap", () => {
+    const result = proposeSchedule({
+      ...baseInput,
+      rules: { minGapMinutes: 60 },
+    });
+    const times = result.slots.map((s) => Date.parse(s.time));
+
+    for (let i = 1; i < times.length; i++) {
+      expect(times[i]! - times[i - 1]!).toBeGreaterThanOrEqual(60 * 60 * 1000);
+    }
+  });
+
+  it("rejects unusable rules instead of proposing", () => {
+    const result = proposeSchedule({ ...baseInput, rules: { totalSlots: 8 } });
+
+    expect(result.slots).toHaveLength(0);
+    expect(result.warnings[0]).toContain("1 to 6");
+  });
+
+  it("reports every problem with a set of rules", () => {
+    const errors = validateSchedulingRules({
+      ...DEFAULT_SCHEDULING_RULES,
+      minGapMinutes: 5,
+      mentalSlotBufferMinMinutes: 50,
     });
+
+    expect(errors).toHaveLength(2);
+    expect(validateSchedulingRules(DEFAULT_SCHEDULING_RULES)).toEqual([]);
+  });
+});
+
+/* ─── Timezones ────────────────────────────────────────────────────── */
+
+describe("proposeSchedule timezones", () => {
+  const baseInput: SchedulingInput = {
+    workWindowStart: "09:00",
+    workWindowEnd: "17:00",
+    availabilityBlocks: [{ start: "09:00", end: "17:00" }],
+    date: "2026-03-09",
+    timezone: "Asia/Tokyo",
+  };
+
+  it("gives users in different timezones the same local slot times", () => {
+    const tokyo = proposeSchedule(baseInput);
+    const denver = proposeSchedule({
+      ...baseInput,
+      timezone: "America/Denver",
+    });
+
+    const localTimes = (slots: { time: string }[]) =>
+      slots.map((s) => s.time.slice(11, 16));
+
+    expect(localTimes(tokyo.slots)).toEqual(localTimes(denver.slots));
+    expect(tokyo.slots[0]!.time).toMatch(/\+09:00$/);
+    expect(denver.slots[0]!.time).toMatch(/-06:00$/);
+    expect(Date.parse(tokyo.slots[0]!.time)).not.toBe(
+      Date.parse(denver.slots[0]!.time),
+    );
+  });
+
+  it("keeps real 20-minute gaps across a spring-forward night shift", () => {
+    /* Denver skips 02:00–03:00 on 2026-03-08 */
+    const result = proposeSchedule({
+      workWindowStart: "00:00",
+      workWindowEnd: "06:00",
+      availabilityBlocks: [{ start: "00:00", end: "06:00" }],
+      date: "2026-03-08",
+      timezone: "America/Denver",
+    });
+
+    const instants = result.slots.map((s) => Date.parse(s.time));
+    for (let i = 1; i < instants.length; i++) {
+      expect(instants[i]! - instants[i - 1]!).toBeGreaterThanOrEqual(
+        20 * 60 * 1000,
+      );
+    }
+
+    /* Mental slot still lands 30–45 real minutes before the shift ends */
+    const shiftEnd = Date.parse("2026-03-08T06:00:00-06:00");
+    const mental = result.slots.find((s) => s.sessionType === "mental")!;
+    const minutesBefore = (shiftEnd - Date.parse(mental.time)) / 60000;
+    expect(minutesBefore).toBeGreaterThanOrEqual(30);
+    expect(minutesBefore).toBeLessThanOrEqual(45);
+  });
+
+  it("never proposes a local time that doesn't exist", () => {
+    const result = proposeSchedule({
+      workWindowStart: "00:00",
+      workWindowEnd: "06:00",
+      availabilityBlocks: [{ start: "00:00", end: "06:00" }],
+      date: "2026-03-08",
+      timezone: "America/Denver",
+    });
+
+    result.slots.forEach((slot) => {
+      expect(slot.time.slice(11, 13)).not.toBe("02");
+    });
+  });
+});
+
+/* ─── Diagnostics ──────────────────────────────────────────────────── */
+
+describe("proposeSchedule diagnostics", () => {
+  const day: SchedulingInput = {
+    workWindowStart: "09:00",
+    workWindowEnd: "17:00",
+    availabilityBlocks: [{ start: "09:00", end: "17:00" }],
+    date: "2026-03-09",
+    timezone: "America/Denver",
+  };
+
+  it("explains every slot of a clean day", () => {
+    const result = proposeSchedule(day);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.placements.map((p) => p.slotNumber)).toEqual([
+      1, 2, 3, 4, 5, 6,
+    ]);
+    expect(result.placements.slice(0, 5).map((p) => p.reason)).toEqual(
+      Array(5).fill("ideal_time"),
+    );
+    expect(result.placements[5]?.reason).toBe("mental_window");
+  });
+
+  it("reports the numbers behind a short day", () => {
+    const result = proposeSchedule({
+      ...day,
+      workWindowEnd: "12:30",
+      availabilityBlocks: [{ start: "09:00", end: "12:30" }],
+    });
+
+    expect(result.diagnostics[0]).toEqual({
+      code: "insufficient_time",
+      availableMinutes: 90,
+      requiredMinutes: 162,
+      fits: 3,
+      requested: 6,
+      minutesForNextSlot: 18,
+    });
+  });
+
+  it("records where a slot would have gone before snapping out of a gap", () => {
+    const result = proposeSchedule({
+      ...day,
+      availabilityBlocks: [
+        { start: "09:00", end: "12:00" },
+        { start: "13:00", end: "17:00" },
+      ],
+    });
+
+    const snapped = result.placements.find(
+      (p) => p.reason === "snapped_to_block",
+    );
+    const ideal = timeToMinutes(snapped?.idealTime?.split("T")[1] ?? "");
+    expect(ideal).toBeGreaterThanOrEqual(720);
+    expect(ideal).toBeLessThan(780);
+  });
+
+  it("flags a mental session pushed out of its end-of-day window", () => {
+    const result = proposeSchedule({
+      ...day,
+      availabilityBlocks: [{ start: "09:00", end: "15:00" }],
+    });
+
+    expect(result.diagnostics).toContainEqual({
+      code: "mental_slot_fallback",
+      time: "14:53",
+      windowStart: "16:15",
+      windowEnd: "16:30",
+    });
+    expect(result.placements.at(-1)).toMatchObject({
+      reason: "mental_fallback",
+      idealTime: "2026-03-09T16:30:00-06:00",
+    });
+  });
+
+  it("gives an invalid work window a code as well as text", () => {
+    const result = proposeSchedule({
+      ...day,
+      workWindowStart: "17:00",
+      workWindowEnd: "09:00",
+    });
+
+    expect(result.diagnostics).toEqual([
+      {
+        code: "invalid_work_window",
+        workWindowStart: "17:00",
+        workWindowEnd: "09:00",
+      },
+    ]);
+    expect(result.placements).toEqual([]);
+  });
+
+  it("keeps warnings in step with the diagnostics", () => {
+    const result = proposeSchedule({
+      ...day,
+      workWindowEnd: "12:30",
+      availabilityBlocks: [{ start: "09:00", end: "12:30" }],
+    });
+
+    expect(result.warnings).toEqual(
+      result.diagnostics.map(describeScheduleDiagnostic),
+    );
   });
 });
 
@@ -288,6 +582,7 @@ describe("validateSlotMove", () => {
       "2026-03-09T11:00:00",
       existingSlots,
       availability,
+      "America/Denver",
     );
     expect(result.valid).toBe(true);
   });
@@ -298,6 +593,7 @@ describe("validateSlotMove", () => {
       "2026-03-09T12:30:00",
       existingSlots,
       availability,
+      "America/Denver",
     );
     expect(result.valid).toBe(false);
     expect(result.error).toContain("available time blocks");
@@ -309,6 +605,7 @@ describe("validateSlotMove", () => {
       "2026-03-09T13:20:00",
       existingSlots,
       availability,
+      "America/Denver",
     );
     expect(result.valid).toBe(false);
     expect(result.error).toContain("20 minutes");
@@ -320,6 +617,7 @@ describe("validateSlotMove", () => {
       "2026-03-09T13:10:00",
       existingSlots,
       availability,
+      "America/Denver",
     );
     expect(result.valid).toBe(true);
   });
@@ -364,7 +662,7 @@ describe("validateFullSchedule", () => {
       },
     ];
 
-    const result = validateFullSchedule(slots, availability);
+    const result = validateFullSchedule(slots, availability, "America/Denver");
     expect(result.valid).toBe(true);
   });
 
@@ -382,7 +680,7 @@ describe("validateFullSchedule", () => {
       },
     ];
 
-    const result = validateFullSchedule(slots, availability);
+    const result = validateFullSchedule(slots, availability, "America/Denver");
     expect(result.valid).toBe(false);
     expect(result.error).toContain("outside");
   });
@@ -401,8 +699,120 @@ describe("validateFullSchedule", () => {
       },
     ];
 
-    const result = validateFullSchedule(slots, availability);
+    const result = validateFullSchedule(slots, availability, "America/Denver");
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("20 minutes");
+  });
+
+  it("rejects more slots than the user's daily sessions", () => {
+    const slots = [
+      {
+        slotNumber: 1 as const,
+        time: "2026-03-09T11:00:00",
+        sessionType: "physical" as const,
+      },
+      {
+        slotNumber: 2 as const,
+        time: "2026-03-09T13:00:00",
+        sessionType: "mental" as const,
+      },
+    ];
+
+    const result = validateFullSchedule(slots, availability, "America/Denver", {
+      totalSlots: 1,
+    });
+    expect(result.valid).toBe(false);
+  });
+
+  it("measures gaps in real time across a DST change", () => {
+    /* 01:50 MST and 03:05 MDT are only 15 minutes apart */
+    const slots = [
+      {
+        slotNumber: 1 as const,
+        time: "2026-03-08T01:50:00-07:00",
+        sessionType: "physical" as const,
+      },
+      {
+        slotNumber: 2 as const,
+        time: "2026-03-08T03:05:00-06:00",
+        sessionType: "physical" as const,
+      },
+    ];
+
+    const result = validateFullSchedule(
+      slots,
+      [{ start: "00:00", end: "06:00" }],
+      "America/Denver",
+    );
     expect(result.valid).toBe(false);
     expect(result.error).toContain("20 minutes");
   });
+
+  it("rejects a physical session after the mental one", () => {
+    const slots = [
+      {
+        slotNumber: 1 as const,
+        time: "2026-03-09T11:00:00",
+        sessionType: "mental" as const,
+      },
+      {
+        slotNumber: 2 as const,
+        time: "2026-03-09T12:00:00",
+        sessionType: "physical" as const,
+      },
+    ];
+
+    const result = validateFullSchedule(slots, availability, "America/Denver");
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("mental session");
+  });
+});
+
+/* ─── Slot Moves ───────────────────────────────────────────────────── */
+
+describe("moveSlot", () => {
+  const slots = [
+    {
+      slotNumber: 1 as const,
+      time: "2026-03-09T11:00:00-06:00",
+      sessionType: "physical" as const,
+    },
+    {
+      slotNumber: 2 as const,
+      time: "2026-03-09T12:00:00-06:00",
+      sessionType: "physical" as const,
+    },
+    {
+      slotNumber: 3 as const,
+      time: "2026-03-09T16:15:00-06:00",
+      sessionType: "mental" as const,
+    },
+  ];
+
+  it("moves a slot and keeps the day in time order", () => {
+    const moved = moveSlot(1, "2026-03-09T13:00:00", slots, "America/Denver");
+
+    expect(moved).toEqual([
+      {
+        slotNumber: 1,
+        time: "2026-03-09T12:00:00-06:00",
+        sessionType: "physical",
+      },
+      {
+        slotNumber: 2,
+        time: "2026-03-09T13:00:00-06:00",
+        sessionType: "physical",
+      },
+      {
+        slotNumber: 3,
+        time: "2026-03-09T16:15:00-06:00",
+        sessionType: "mental",
+      },
+    ]);
+  });
+
+  it("leaves the original slots untouched", () => {
+    moveSlot(2, "2026-03-09T14:00:00", slots, "America/Denver");
+    expect(slots[1]?.time).toBe("2026-03-09T12:00:00-06:00");
+  });
 });
@@ -1,38 +1,181 @@
 /**
  * Scheduling Engine
  *
- * Distributes 6 workout slots across a user's available time.
+ * Distributes the day's workout slots across a user's available time.
  * Pure function — no database or platform dependencies.
  *
- * Rules:
+ * Rules (defaults in DEFAULT_SCHEDULING_RULES, overridable per user):
  *   - First 2 hours of work window are workout-free
- *   - Slot 6 (mental) placed 30-45 min before shift end
- *   - Slots 1-5 distributed evenly across remaining time
+ *   - The last slot (mental) placed 30-45 min before shift end
+ *   - The other 5 slots distributed evenly across remaining time
  *   - Minimum 20 minutes between any two slots
  *   - If insufficient time, reports how many slots can fit
+ *   - Times are in the user's timezone. Spacing is measured in real
+ *     elapsed minutes, so gaps hold on 23- and 25-hour DST days
+ *
+ * Strategies for the physical slots:
+ *   - "even" (default): ideal times evenly spaced from the first block
+ *     to the mental slot, each snapped into the nearest block
+ *   - "max-spacing": the largest possible minimum gap between
+ *     consecutive sessions across the union of blocks. Preferred
+ *     times are pinned first unless that would cost a session, and
+ *     any slack the gap leaves is spread through the available time
+ *
+ * Every proposal explains itself: `diagnostics` carry a typed code and
+ * the numbers behind each problem, and `placements` say why each slot
+ * landed where it did. `warnings` are the same diagnostics as English
+ * text, via describeScheduleDiagnostic.
  */
 
-import type { AvailabilityBlock, ProposedSlot } from "../types/schedule";
+import type {
+  AvailabilityBlock,
+  ProposedSlot,
+  SchedulingRules,
+} from "../types/schedule";
 import type { SessionType } from "../types/session";
+import { formatZonedISO, zonedTimeToInstant } from "./timezone";
+
+/** Why a slot landed at its time */
+export type SlotReason =
+  /* Mental slot inside its buffer before work end */
+  | "mental_window"
+  /* Mental slot snapped outside the buffer, nothing free inside it */
+  | "mental_fallback"
+  /* Physical slot at its evenly spaced ideal time */
+  | "ideal_time"
+  /* Ideal time fell in a gap; moved to the nearest block */
+  | "snapped_to_block"
+  /* Moved off its ideal time to keep the minimum gap */
+  | "shifted_for_gap"
+  /* Placed by the max-spacing strategy */
+  | "max_spacing"
+  /* Pinned to one of the user's preferred times */
+  | "preferred_time";
+
+export interface SlotPlacement {
+  slotNumber: ProposedSlot["slotNumber"];
+  reason: SlotReason;
+  /** Where the slot would have gone before adjustment, ISO 8601 */
+  idealTime: string | null;
+}
+
+/** A physical slot a strategy aimed for but couldn't place */
+export interface DroppedSlot {
+  idealTime: string;
+  /* no_block: no block within reach; gap_conflict: too close to others */
+  reason: "no_block" | "gap_conflict";
+}
+
+/**
+ * A problem with a proposal and the numbers behind it, so the app can
+ * phrase its own guidance. Wall-clock times are "HH:MM".
+ */
+export type ScheduleDiagnostic =
+  | { code: "invalid_rule"; error: string }
+  | {
+      code: "invalid_work_window";
+      workWindowStart: string;
+      workWindowEnd: string;
+    }
+  | { code: "no_time_after_buffer"; startupBufferMinutes: number }
+  | {
+      code: "insufficient_time";
+      availableMinutes: number;
+      requiredMinutes: number;
+      fits: number;
+      requested: number;
+      /** Extra available minutes needed to fit one more session */
+      minutesForNextSlot: number;
+    }
+  | { code: "mental_slot_unplaceable"; windowStart: string; windowEnd: string }
+  | {
+      code: "mental_slot_fallback";
+      time: string;
+      windowStart: string;
+      windowEnd: string;
+    }
+  | {
+      code: "slots_dropped";
+      placed: number;
+      requested: number;
+      dropped: DroppedSlot[];
+    };
 
 export interface ScheduleProposal {
   slots: ProposedSlot[];
+  /** English text for each diagnostic */
   warnings: string[];
+  diagnostics: ScheduleDiagnostic[];
+  /** One per slot, in slot order */
+  placements: SlotPlacement[];
 }
 
+export type SchedulingStrategy = "even" | "max-spacing";
+
 export interface SchedulingInput {
   workWindowStart: string;
   workWindowEnd: string;
   availabilityBlocks: AvailabilityBlock[];
   date: string;
+  /** IANA timezone the work window and blocks are expressed in */
+  timezone: string;
+  /** Per-user overrides; anything omitted uses the default */
+  rules?: Partial<SchedulingRules> | null;
+  /** How physical slots are spread; defaults to "even" */
+  strategy?: SchedulingStrategy;
+  /** "HH:MM" times to pull sessions toward, for "max-spacing" */
+  preferredTimes?: string[];
+}
+
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+  totalSlots: 6,
+  startupBufferMinutes: 120,
+  minGapMinutes: 20,
+  sessionDurationMinutes: 7,
+  mentalSlotBufferMinMinutes: 30,
+  mentalSlotBufferMaxMinutes: 45,
+  maxDeferrals: 2,
+};
+
+/** Fill in any rules the user hasn't overridden with the defaults */
+export function resolveSchedulingRules(
+  overrides?: Partial<SchedulingRules> | null,
+): SchedulingRules {
+  return { ...DEFAULT_SCHEDULING_RULES, ...overrides };
 }
 
-const TOTAL_SLOTS = 6;
-const BUFFER_MINUTES = 120;
-const MIN_GAP_MINUTES = 20;
-const SESSION_DURATION_MINUTES = 7;
-const MENTAL_SLOT_BUFFER_MIN = 30;
-const MENTAL_SLOT_BUFFER_MAX = 45;
+/** Problems with a set of rules, or an empty array if they're usable */
+export function validateSchedulingRules(rules: SchedulingRules): string[] {
+  const errors: string[] = [];
+
+  if (
+    !Number.isInteger(rules.totalSlots) ||
+    rules.totalSlots < 1 ||
+    rules.totalSlots > 6
+  ) {
+    errors.push("Sessions per day must be a whole number from 1 to 6.");
+  }
+  if (rules.startupBufferMinutes < 0) {
+    errors.push("Startup buffer cannot be negative.");
+  }
+  if (rules.sessionDurationMinutes <= 0) {
+    errors.push("Session duration must be greater than zero.");
+  }
+  if (rules.minGapMinutes < rules.sessionDurationMinutes) {
+    errors.push("Minimum gap must be at least the session duration.");
+  }
+  if (rules.mentalSlotBufferMinMinutes < 0) {
+    errors.push("Mental session buffer cannot be negative.");
+  }
+  if (rules.mentalSlotBufferMaxMinutes < rules.mentalSlotBufferMinMinutes) {
+    errors.push("Mental session buffer range is reversed.");
+  }
+  if (!Number.isInteger(rules.maxDeferrals) || rules.maxDeferrals < 0) {
+    errors.push("Deferral limit must be a whole number of zero or more.");
+  }
+
+  return errors;
+}
 
 /** Convert "HH:MM" to minutes since midnight */
 export function timeToMinutes(time: string): number {
@@ -49,10 +192,31 @@ export function minutesToTime(minutes: number): string {
   return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
 }
 
-/** Convert minutes since midnight + date/timezone to ISO timestamp */
-function minutesToISO(minutes: number, date: string): string {
-  const time = minutesToTime(minutes);
-  return `${date}T${time}:00`;
+/**
+ * Converts between "HH:MM" wall-clock times on the scheduled date and
+ * minutes elapsed since local midnight. The two only differ on DST
+ * transition days.
+ */
+function createDayClock(date: string, timezone: string) {
+  const midnight = zonedTimeToInstant(date, 0, timezone).getTime();
+
+  /** Minutes elapsed since local midnight at a wall-clock time */
+  function toElapsed(time: string): number {
+    const instant = zonedTimeToInstant(date, timeToMinutes(time), timezone);
+    return Math.round((instant.getTime() - midnight) / 60000);
+  }
+
+  /** Convert elapsed minutes + date/timezone to ISO timestamp */
+  function minutesToISO(minutes: number): string {
+    return formatZonedISO(new Date(midnight + minutes * 60000), timezone);
+  }
+
+  /** Wall-clock "HH:MM" at elapsed minutes */
+  function toWallClock(minutes: number): string {
+    return minutesToISO(minutes).slice(11, 16);
+  }
+
+  return { toElapsed, minutesToISO, toWallClock };
 }
 
 /**
@@ -63,8 +227,9 @@ export function getSchedulableBlocks(
   workStart: number,
   workEnd: number,
   blocks: AvailabilityBlock[],
+  rules: SchedulingRules = DEFAULT_SCHEDULING_RULES,
 ): { start: number; end: number }[] {
-  const bufferEnd = workStart + BUFFER_MINUTES;
+  const bufferEnd = workStart + rules.startupBufferMinutes;
 
   return blocks
     .map((block) => {
@@ -72,10 +237,37 @@ export function getSchedulableBlocks(
       const end = Math.min(timeToMinutes(block.end), workEnd);
       return { start, end };
     })
-    .filter((block) => block.end - block.start >= SESSION_DURATION_MINUTES)
+    .filter((block) => block.end - block.start >= rules.sessionDurationMinutes)
     .sort((a, b) => a.start - b.start);
 }
 
+/** "2-hour", "90-minute" — for warnings that mention a rule */
+function formatDuration(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}-hour` : `${minutes}-minute`;
+}
+
+/** English text for a diagnostic, as shown in `warnings` */
+export function describeScheduleDiagnostic(
+  diagnostic: ScheduleDiagnostic,
+): string {
+  switch (diagnostic.code) {
+    case "invalid_rule":
+      return diagnostic.error;
+    case "invalid_work_window":
+      return "Work window end must be after start.";
+    case "no_time_after_buffer":
+      return `No available time after the ${formatDuration(diagnostic.startupBufferMinutes)} startup buffer.`;
+    case "insufficient_time":
+      return `Only ${diagnostic.availableMinutes} minutes available. Can fit ${diagnostic.fits} of ${diagnostic.requested} sessions.`;
+    case "mental_slot_unplaceable":
+      return "Cannot place the mental session near end of day.";
+    case "mental_slot_fallback":
+      return `No free time between ${diagnostic.windowStart} and ${diagnostic.windowEnd}; the mental session moved to ${diagnostic.time}.`;
+    case "slots_dropped":
+      return `Could only fit ${diagnostic.placed} of ${diagnostic.requested} sessions.`;
+  }
+}
+
 /**
  * Calculate total available minutes across all schedulable blocks.
  */
@@ -91,24 +283,29 @@ function totalAvailableMinutes(
 function findBlock(
   minute: number,
   blocks: { start: number; end: number }[],
+  rules: SchedulingRules,
 ): { start: number; end: number } | null {
   return (
     blocks.find(
-      (b) => minute >= b.start && minute <= b.end - SESSION_DURATION_MINUTES,
+      (b) =>
+        minute >= b.start && minute <= b.end - rules.sessionDurationMinutes,
     ) ?? null
   );
 }
 
 /**
  * Snap a time to the nearest valid position within availability blocks.
- * Searches forward first, then backward.
+ * Searches forward first, then backward. Starts after `latestStart`
+ * are never returned.
  */
 function snapToAvailable(
   targetMinute: number,
   blocks: { start: number; end: number }[],
+  rules: SchedulingRules,
+  latestStart = Infinity,
 ): number | null {
-  const containing = findBlock(targetMinute, blocks);
-  if (containing) return targetMinute;
+  const containing = findBlock(targetMinute, blocks, rules);
+  if (containing && targetMinute <= latestStart) return targetMinute;
 
   let nearestForward: number | null = null;
   let nearestBackward: number | null = null;
@@ -116,7 +313,8 @@ function snapToAvailable(
   for (const block of blocks) {
     if (
       block.start >= targetMinute &&
-      block.end - block.start >= SESSION_DURATION_MINUTES
+      block.start <= latestStart &&
+      block.end - block.start >= rules.sessionDurationMinutes
     ) {
       nearestForward = block.start;
       break;
@@ -126,12 +324,12 @@ function snapToAvailable(
   for (let i = blocks.length - 1; i >= 0; i--) {
     const block = blocks[i];
     if (!block) continue;
-    const latestStart = block.end - SESSION_DURATION_MINUTES;
-    if (
-      latestStart <= targetMinute &&
-      block.end - block.start >= SESSION_DURATION_MINUTES
-    ) {
-      nearestBackward = Math.min(targetMinute, latestStart);
+    const blockLatest = Math.min(
+      block.end - rules.sessionDurationMinutes,
+      latestStart,
+    );
+    if (blockLatest >= block.start && blockLatest <= targetMinute) {
+      nearestBackward = blockLatest;
       break;
     }
   }
@@ -146,87 +344,128 @@ function snapToAvailable(
 }
 
 /**
- * Place the mental session (slot 6) 30-45 minutes before shift end.
+ * Place the mental session (last slot) 30-45 minutes before shift end.
  * Finds the latest position within the last available block that
  * falls in the 30-45 min buffer zone.
  */
 function placeMentalSlot(
   workEnd: number,
   blocks: { start: number; end: number }[],
-): number | null {
-  const idealStart = workEnd - MENTAL_SLOT_BUFFER_MAX;
-  const latestStart = workEnd - MENTAL_SLOT_BUFFER_MIN;
+  rules: SchedulingRules,
+): { minute: number; fallback: boolean } | null {
+  const idealStart = workEnd - rules.mentalSlotBufferMaxMinutes;
+  const latestStart = workEnd - rules.mentalSlotBufferMinMinutes;
 
   /* Try to place within the ideal range */
   for (let minute = latestStart; minute >= idealStart; minute--) {
-    if (findBlock(minute, blocks)) return minute;
+    if (findBlock(minute, blocks, rules)) return { minute, fallback: false };
   }
 
   /* Fall back to snapping to nearest available spot near end of day */
-  return snapToAvailable(latestStart, blocks);
+  const snapped = snapToAvailable(latestStart, blocks, rules);
+  return snapped === null ? null : { minute: snapped, fallback: true };
+}
+
+/** A slot's start and why it's there, in elapsed minutes */
+interface PlannedSlot {
+  minute: number;
+  reason: SlotReason;
+  ideal: number | null;
 }
 
 /**
- * Distribute slots 1-5 evenly across schedulable time,
- * excluding the time occupied by the mental slot.
+ * Distribute the physical slots evenly across schedulable time,
+ * excluding the time occupied by the mental slot. Every physical
+ * slot starts at least the minimum gap before the mental slot, so
+ * the mental session stays last.
  */
 function distributePhysicalSlots(
   blocks: { start: number; end: number }[],
   mentalSlotTime: number,
   count: number,
-): number[] {
+  rules: SchedulingRules,
+): {
+  placed: PlannedSlot[];
+  dropped: { ideal: number; reason: DroppedSlot["reason"] }[];
+} {
   /* Calculate total schedulable minutes excluding mental slot zone */
   const availableStart = blocks[0]?.start ?? 0;
-  const availableEnd = mentalSlotTime - MIN_GAP_MINUTES;
+  const availableEnd = mentalSlotTime - rules.minGapMinutes;
 
-  if (availableEnd <= availableStart) return [];
+  if (availableEnd <= availableStart) return { placed: [], dropped: [] };
 
   const totalMinutes = availableEnd - availableStart;
   const gap = totalMinutes / (count + 1);
 
-  const slots: number[] = [];
+  const placed: PlannedSlot[] = [];
+  const dropped: { ideal: number; reason: DroppedSlot["reason"] }[] = [];
 
   for (let i = 1; i <= count; i++) {
     const idealMinute = Math.round(availableStart + gap * i);
-    const snapped = snapToAvailable(idealMinute, blocks);
+    const snapped = snapToAvailable(idealMinute, blocks, rules, availableEnd);
 
-    if (snapped === null) continue;
+    if (snapped === null) {
+      dropped.push({ ideal: idealMinute, reason: "no_block" });
+      continue;
+    }
 
-    /* Ensure minimum gap from previously placed slots */
+    /* Ensure minimum gap from previously placed slots and the mental slot */
+    const slots = [...placed.map((p) => p.minute), mentalSlotTime];
     const tooClose = slots.some(
-      (existing) => Math.abs(snapped - existing) < MIN_GAP_MINUTES,
+      (existing) => Math.abs(snapped - existing) < rules.minGapMinutes,
     );
 
     if (tooClose) {
       /* Try shifting forward or backward to find valid placement */
-      const shifted = findValidPlacement(snapped, slots, blocks);
-      if (shifted !== null) slots.push(shifted);
+      const shifted = findValidPlacement(
+        snapped,
+        slots,
+        blocks,
+        rules,
+        availableEnd,
+      );
+      if (shifted === null) {
+        dropped.push({ ideal: idealMinute, reason: "gap_conflict" });
+      } else {
+        placed.push({
+          minute: shifted,
+          reason: "shifted_for_gap",
+          ideal: idealMinute,
+        });
+      }
     } else {
-      slots.push(snapped);
+      placed.push({
+        minute: snapped,
+        reason: snapped === idealMinute ? "ideal_time" : "snapped_to_block",
+        ideal: idealMinute,
+      });
     }
   }
 
-  return slots.sort((a, b) => a - b);
+  return { placed: placed.sort((a, b) => a.minute - b.minute), dropped };
 }
 
 /**
  * When a proposed time is too close to existing slots,
- * search nearby for a valid placement.
+ * search nearby for a valid placement no later than `latestStart`.
  */
 function findValidPlacement(
   target: number,
   existingSlots: number[],
   blocks: { start: number; end: number }[],
+  rules: SchedulingRules,
+  latestStart: number,
 ): number | null {
   for (let offset = 1; offset <= 60; offset++) {
     for (const direction of [1, -1]) {
       const candidate = target + offset * direction;
-      const inBlock = findBlock(candidate, blocks);
+      if (candidate > latestStart) continue;
 
+      const inBlock = findBlock(candidate, blocks, rules);
       if (!inBlock) continue;
 
       const valid = existingSlots.every(
-        (existing) => Math.abs(candidate - existing) >= MIN_GAP_MINUTES,
+        (existing) => Math.abs(candidate - existing) >= rules.minGapMinutes,
       );
 
       if (valid) return candidate;
@@ -235,99 +474,488 @@ function findValidPlacement(
   return null;
 }
 
+/* ─── Max-Spacing Strategy ─────────────────────────────────────────── */
+
+/** Inclusive range of minutes a session may start at */
+type StartRange = { start: number; end: number };
+
+function getStartRanges(
+  blocks: { start: number; end: number }[],
+  limit: number,
+  rules: SchedulingRules,
+): StartRange[] {
+  return blocks
+    .map((b) => ({
+      start: b.start,
+      end: Math.min(b.end - rules.sessionDurationMinutes, limit),
+    }))
+    .filter((r) => r.end >= r.start);
+}
+
+function isStartable(minute: number, ranges: StartRange[]): boolean {
+  return ranges.some((r) => minute >= r.start && minute <= r.end);
+}
+
+function earliestFrom(minute: number, ranges: StartRange[]): number | null {
+  for (const r of ranges) {
+    if (r.end >= minute) return Math.max(r.start, minute);
+  }
+  return null;
+}
+
+function latestUpTo(minute: number, ranges: StartRange[]): number | null {
+  for (let i = ranges.length - 1; i >= 0; i--) {
+    const r = ranges[i];
+    if (r && r.start <= minute) return Math.min(r.end, minute);
+  }
+  return null;
+}
+
+/** The start in [lo, hi] closest to target, or null if there is none */
+function nearestBetween(
+  target: number,
+  lo: number,
+  hi: number,
+  ranges: StartRange[],
+): number | null {
+  let best: number | null = null;
+  for (const r of ranges) {
+    const start = Math.max(r.start, lo);
+    const end = Math.min(r.end, hi);
+    if (end < start) continue;
+    const candidate = Math.min(Math.max(target, start), end);
+    if (best === null || Math.abs(candidate - target) < Math.abs(best - target))
+      best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Place `count` free slots as early as possible, each at least
+ * `spacing` from its neighbours, around the fixed `anchors` (ascending,
+ * the mental slot last). Returns the slots placed before each anchor,
+ * or null if they don't all fit. Earliest-first placement fits
+ * whenever any placement does.
+ */
+function placeAroundAnchors(
+  ranges: StartRange[],
+  anchors: number[],
+  count: number,
+  spacing: number,
+): number[][] | null {
+  const segments: number[][] = [];
+  let next = -Infinity;
+  let remaining = count;
+
+  for (const anchor of anchors) {
+    if (anchor < next) return null;
+    const segment: number[] = [];
+    while (remaining > 0) {
+      const minute = earliestFrom(next, ranges);
+      if (minute === null || minute > anchor - spacing) break;
+      segment.push(minute);
+      next = minute + spacing;
+      remaining--;
+    }
+    segments.push(segment);
+    next = anchor + spacing;
+  }
+
+  return remaining === 0 ? segments : null;
+}
+
+/** Times splitting the startable minutes in [lo, hi] into equal shares */
+function spreadTargets(
+  ranges: StartRange[],
+  lo: number,
+  hi: number,
+  count: number,
+): number[] {
+  const clipped = ranges
+    .map((r) => ({ start: Math.max(r.start, lo), end: Math.min(r.end, hi) }))
+    .filter((r) => r.end >= r.start);
+  const total = clipped.reduce((sum, r) => sum + (r.end - r.start), 0);
+  const targets: number[] = [];
+
+  for (let k = 1; k <= count; k++) {
+    let offset = (total * k) / (count + 1);
+    for (const r of clipped) {
+      const width = r.end - r.start;
+      if (offset <= width) {
+        targets.push(Math.round(r.start + offset));
+        break;
+      }
+      offset -= width;
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Spread one segment's slots through the room it has. Each slot can
+ * sit anywhere between its earliest start (`earliest`) and its latest
+ * start counting back from the anchor, without crowding its neighbours.
+ */
+function spreadSegment(
+  ranges: StartRange[],
+  earliest: number[],
+  lowerBound: number,
+  anchor: number,
+  spacing: number,
+): number[] {
+  const latest: number[] = [];
+  let next = anchor - spacing;
+  for (let i = 0; i < earliest.length; i++) {
+    const minute = latestUpTo(next, ranges);
+    if (minute === null) break;
+    latest.unshift(minute);
+    next = minute - spacing;
+  }
+
+  const targets = spreadTargets(
+    ranges,
+    lowerBound,
+    anchor - spacing,
+    earliest.length,
+  );
+
+  const slots: number[] = [];
+  let previous = -Infinity;
+  earliest.forEach((lo, i) => {
+    const minute =
+      nearestBetween(
+        targets[i] ?? lo,
+        Math.max(lo, previous + spacing),
+        latest[i] ?? lo,
+        ranges,
+      ) ?? lo;
+    slots.push(minute);
+    previous = minute;
+  });
+
+  return slots;
+}
+
+/** Most free slots (up to `count`) that fit at the minimum gap */
+function maxFreeSlots(
+  ranges: StartRange[],
+  anchors: number[],
+  count: number,
+  rules: SchedulingRules,
+): number {
+  let fit = count;
+  while (
+    fit > 0 &&
+    !placeAroundAnchors(ranges, anchors, fit, rules.minGapMinutes)
+  ) {
+    fit--;
+  }
+  return fit;
+}
+
+/**
+ * Place physical slots to maximise the smallest gap between any two
+ * consecutive sessions (the mental slot included).
+ *
+ * Preferred times that are startable and at least the minimum gap
+ * apart are pinned first, unless pinning them would cost a session.
+ * The remaining slots are then spaced around them.
+ */
+function spreadPhysicalSlots(
+  blocks: { start: number; end: number }[],
+  mentalSlotTime: number,
+  count: number,
+  rules: SchedulingRules,
+  preferredMinutes: number[],
+): {
+  placed: PlannedSlot[];
+  dropped: { ideal: number; reason: DroppedSlot["reason"] }[];
+} {
+  const ranges = getStartRanges(
+    blocks,
+    mentalSlotTime - rules.minGapMinutes,
+    rules,
+  );
+  const firstStart = ranges[0]?.start;
+  if (firstStart === undefined || count <= 0) {
+    return {
+      placed: [],
+      dropped: unplacedIdeals(blocks, ranges, [], mentalSlotTime, count, rules),
+    };
+  }
+
+  const pinned: number[] = [];
+  for (const minute of [...preferredMinutes].sort((a, b) => a - b)) {
+    const last = pinned[pinned.length - 1];
+    if (pinned.length >= count || !isStartable(minute, ranges)) continue;
+    if (last !== undefined && minute - last < rules.minGapMinutes) continue;
+    pinned.push(minute);
+  }
+
+  const target = maxFreeSlots(ranges, [mentalSlotTime], count, rules);
+  let free = 0;
+  while (pinned.length > 0) {
+    free = maxFreeSlots(
+      ranges,
+      [...pinned, mentalSlotTime],
+      count - pinned.length,
+      rules,
+    );
+    if (pinned.length + free >= target) break;
+    pinned.pop();
+  }
+  if (pinned.length === 0) free = target;
+
+  const anchors = [...pinned, mentalSlotTime];
+
+  /* Binary search the largest spacing that still fits */
+  let low = rules.minGapMinutes;
+  let high = mentalSlotTime - firstStart;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (placeAroundAnchors(ranges, anchors, free, mid)) low = mid;
+    else high = mid - 1;
+  }
+
+  const segments = placeAroundAnchors(ranges, anchors, free, low) ?? [];
+  const slots: PlannedSlot[] = pinned.map((minute) => ({
+    minute,
+    reason: "preferred_time",
+    ideal: minute,
+  }));
+
+  segments.forEach((earliest, i) => {
+    const previousAnchor = anchors[i - 1];
+    const spread = spreadSegment(
+      ranges,
+      earliest,
+      previousAnchor === undefined ? firstStart : previousAnchor + low,
+      anchors[i] ?? mentalSlotTime,
+      low,
+    );
+    for (const minute of spread) {
+      slots.push({ minute, reason: "max_spacing", ideal: null });
+    }
+  });
+
+  const placed = slots.sort((a, b) => a.minute - b.minute);
+  return {
+    placed,
+    dropped: unplacedIdeals(
+      blocks,
+      ranges,
+      placed.map((slot) => slot.minute),
+      mentalSlotTime,
+      count,
+      rules,
+    ),
+  };
+}
+
+/**
+ * Where the slots max-spacing couldn't fit would have gone: the even
+ * strategy's ideal times furthest from any placed slot, one per
+ * missing slot, in time order.
+ */
+function unplacedIdeals(
+  blocks: { start: number; end: number }[],
+  ranges: StartRange[],
+  placed: number[],
+  mentalSlotTime: number,
+  count: number,
+  rules: SchedulingRules,
+): { ideal: number; reason: DroppedSlot["reason"] }[] {
+  const missing = count - placed.length;
+  if (missing <= 0) return [];
+
+  const availableStart = blocks[0]?.start ?? 0;
+  const gap =
+    (mentalSlotTime - rules.minGapMinutes - availableStart) / (count + 1);
+  const distance = (minute: number) =>
+    Math.min(...[...placed, mentalSlotTime].map((p) => Math.abs(minute - p)));
+
+  return Array.from({ length: count }, (_, i) =>
+    Math.round(availableStart + gap * (i + 1)),
+  )
+    .sort((a, b) => distance(b) - distance(a))
+    .slice(0, missing)
+    .sort((a, b) => a - b)
+    .map((ideal) => ({
+      ideal,
+      reason: isStartable(ideal, ranges) ? "gap_conflict" : "no_block",
+    }));
+}
+
 /**
  * Main scheduling function.
  *
  * Takes the user's work window and availability, returns
- * a proposed schedule with 6 slots (or fewer with warnings).
+ * a proposed schedule with the rules' slot count (or fewer with warnings).
  */
 export function proposeSchedule(input: SchedulingInput): ScheduleProposal {
-  const warnings: string[] = [];
+  const diagnostics: ScheduleDiagnostic[] = [];
+
+  /** A proposal with no slots, explained by `found` */
+  const empty = (...found: ScheduleDiagnostic[]): ScheduleProposal => {
+    const all = [...diagnostics, ...found];
+    return {
+      slots: [],
+      warnings: all.map(describeScheduleDiagnostic),
+      diagnostics: all,
+      placements: [],
+    };
+  };
 
-  const workStart = timeToMinutes(input.workWindowStart);
-  const workEnd = timeToMinutes(input.workWindowEnd);
+  const rules = resolveSchedulingRules(input.rules);
+  const ruleErrors = validateSchedulingRules(rules);
+  if (ruleErrors.length > 0) {
+    return empty(
+      ...ruleErrors.map((error) => ({ code: "invalid_rule" as const, error })),
+    );
+  }
+  const slotSpan = rules.sessionDurationMinutes + rules.minGapMinutes;
+
+  const clock = createDayClock(input.date, input.timezone);
+  const workStart = clock.toElapsed(input.workWindowStart);
+  const workEnd = clock.toElapsed(input.workWindowEnd);
 
   if (workEnd <= workStart) {
-    return { slots: [], warnings: ["Work window end must be after start."] };
+    return empty({
+      code: "invalid_work_window",
+      workWindowStart: input.workWindowStart,
+      workWindowEnd: input.workWindowEnd,
+    });
   }
 
   const schedulableBlocks = getSchedulableBlocks(
     workStart,
     workEnd,
-    input.availabilityBlocks,
+    input.availabilityBlocks.map((block) => ({
+      start: minutesToTime(clock.toElapsed(block.start)),
+      end: minutesToTime(clock.toElapsed(block.end)),
+    })),
+    rules,
   );
 
   if (schedulableBlocks.length === 0) {
-    return {
-      slots: [],
-      warnings: ["No available time after the 2-hour startup buffer."],
-    };
+    return empty({
+      code: "no_time_after_buffer",
+      startupBufferMinutes: rules.startupBufferMinutes,
+    });
   }
 
   const totalMinutes = totalAvailableMinutes(schedulableBlocks);
-  const minimumRequired =
-    TOTAL_SLOTS * (SESSION_DURATION_MINUTES + MIN_GAP_MINUTES);
+  const minimumRequired = rules.totalSlots * slotSpan;
 
   if (totalMinutes < minimumRequired) {
-    const maxSlots = Math.floor(
-      totalMinutes / (SESSION_DURATION_MINUTES + MIN_GAP_MINUTES),
-    );
-    warnings.push(
-      `Only ${totalMinutes} minutes available. Can fit ${maxSlots} of ${TOTAL_SLOTS} sessions.`,
-    );
+    const maxSlots = Math.floor(totalMinutes / slotSpan);
+    diagnostics.push({
+      code: "insufficient_time",
+      availableMinutes: totalMinutes,
+      requiredMinutes: minimumRequired,
+      fits: maxSlots,
+      requested: rules.totalSlots,
+      minutesForNextSlot: (maxSlots + 1) * slotSpan - totalMinutes,
+    });
 
     if (maxSlots === 0) {
-      return { slots: [], warnings };
+      return empty();
     }
   }
 
-  /* Place the mental session first (slot 6) */
-  const mentalTime = placeMentalSlot(workEnd, schedulableBlocks);
+  /* Place the mental session first (last slot) */
+  const mental = placeMentalSlot(workEnd, schedulableBlocks, rules);
+  const mentalWindow = {
+    windowStart: clock.toWallClock(workEnd - rules.mentalSlotBufferMaxMinutes),
+    windowEnd: clock.toWallClock(workEnd - rules.mentalSlotBufferMinMinutes),
+  };
 
-  if (mentalTime === null) {
-    return {
-      slots: [],
-      warnings: ["Cannot place the mental session near end of day."],
-    };
+  if (mental === null) {
+    return empty({ code: "mental_slot_unplaceable", ...mentalWindow });
+  }
+  const mentalTime = mental.minute;
+
+  if (mental.fallback) {
+    diagnostics.push({
+      code: "mental_slot_fallback",
+      time: clock.toWallClock(mentalTime),
+      ...mentalWindow,
+    });
   }
 
   /* Determine how many physical slots to place */
   const physicalCount = Math.min(
-    TOTAL_SLOTS - 1,
+    rules.totalSlots - 1,
     totalMinutes < minimumRequired
-      ? Math.floor(
-          totalMinutes / (SESSION_DURATION_MINUTES + MIN_GAP_MINUTES),
-        ) - 1
-      : TOTAL_SLOTS - 1,
+      ? Math.floor(totalMinutes / slotSpan) - 1
+      : rules.totalSlots - 1,
   );
 
   /* Distribute physical slots */
-  const physicalTimes = distributePhysicalSlots(
-    schedulableBlocks,
-    mentalTime,
-    physicalCount,
-  );
-
-  if (physicalTimes.length < physicalCount) {
-    warnings.push(
-      `Could only fit ${physicalTimes.length + 1} of ${TOTAL_SLOTS} sessions.`,
-    );
+  const { placed: physical, dropped } =
+    input.strategy === "max-spacing"
+      ? spreadPhysicalSlots(
+          schedulableBlocks,
+          mentalTime,
+          physicalCount,
+          rules,
+          (input.preferredTimes ?? []).map((time) => clock.toElapsed(time)),
+        )
+      : distributePhysicalSlots(
+          schedulableBlocks,
+          mentalTime,
+          physicalCount,
+          rules,
+        );
+
+  if (physical.length < physicalCount) {
+    diagnostics.push({
+      code: "slots_dropped",
+      placed: physical.length + 1,
+      requested: rules.totalSlots,
+      dropped: dropped.map((slot) => ({
+        idealTime: clock.minutesToISO(slot.ideal),
+        reason: slot.reason,
+      })),
+    });
   }
 
   /* Build the final slot list */
-  const allTimes = [...physicalTimes, mentalTime].sort((a, b) => a - b);
+  const mentalPlacement: PlannedSlot = {
+    minute: mentalTime,
+    reason: mental.fallback ? "mental_fallback" : "mental_window",
+    ideal: workEnd - rules.mentalSlotBufferMinMinutes,
+  };
+  const all = [...physical, mentalPlacement].sort(
+    (a, b) => a.minute - b.minute,
+  );
+
+  const slots: ProposedSlot[] = [];
+  const placements: SlotPlacement[] = [];
 
-  const slots: ProposedSlot[] = allTimes.map((time, index) => {
-    const isMental = time === mentalTime;
+  all.forEach((placement, index) => {
+    const isMental = placement.minute === mentalTime;
     const slotNumber = (index + 1) as ProposedSlot["slotNumber"];
     const sessionType: SessionType = isMental ? "mental" : "physical";
 
-    return {
+    slots.push({
       slotNumber,
-      time: minutesToISO(time, input.date),
+      time: clock.minutesToISO(placement.minute),
       sessionType,
-    };
+    });
+    placements.push({
+      slotNumber,
+      reason: placement.reason,
+      idealTime:
+        placement.ideal === null ? null : clock.minutesToISO(placement.ideal),
+    });
   });
 
-  return { slots, warnings };
+  return {
+    slots,
+    warnings: diagnostics.map(describeScheduleDiagnostic),
+    diagnostics,
+    placements,
+  };
 }
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  SESSION_TRANSITIONS,
+  InvalidSessionTransitionError,
+  canTransitionSession,
+  assertSessionTransition,
+} from "./session-status";
+
+describe("canTransitionSession", () => {
+  it("walks the happy path", () => {
+    expect(canTransitionSession("scheduled", "notified")).toBe(true);
+    expect(canTransitionSession("notified", "confirmed")).toBe(true);
+    expect(canTransitionSession("confirmed", "in_progress")).toBe(true);
+    expect(canTransitionSession("in_progress", "completed")).toBe(true);
+  });
+
+  it("only defers notified sessions and sends them back to scheduled", () => {
+    expect(canTransitionSession("notified", "deferred")).toBe(true);
+    expect(canTransitionSession("scheduled", "deferred")).toBe(false);
+    expect(canTransitionSession("deferred", "scheduled")).toBe(true);
+    expect(canTransitionSession("deferred", "confirmed")).toBe(false);
+  });
+
+  it("stops skipping once the workout has started", () => {
+    expect(canTransitionSession("confirmed", "skipped")).toBe(true);
+    expect(canTransitionSession("in_progress", "skipped")).toBe(false);
+  });
+
+  it("treats completed, skipped and missed as final", () => {
+    for (const from of ["completed", "skipped", "missed"] as const) {
+      expect(SESSION_TRANSITIONS[from]).toEqual([]);
+    }
+  });
+});
+
+describe("assertSessionTransition", () => {
+  it("throws a typed error for an illegal move", () => {
+    let caught: unknown;
+    try {
+      assertSessionTransition("skipped", "completed");
+    } catch (err) {
+      caught = err;
+    }
+
+    expect(caught).toBeInstanceOf(InvalidSessionTransitionError);
+    expect(caught).toMatchObject({
+      from: "skipped",
+      to: "completed",
+      message: "Cannot move a skipped session to completed.",
+    });
+  });
+
+  it("allows a reloaded player to resume", () => {
+    expect(() =>
+      assertSessionTransition("in_progress", "in_progress"),
+    ).not.toThrow();
+  });
+});
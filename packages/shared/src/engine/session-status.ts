@@ -0,0 +1,63 @@
+/**
+ * Session Status Transitions
+ *
+ * The legal moves between SessionStatus values. Every status write
+ * goes through assertSessionTransition, so a route can't, say,
+ * complete a skipped session.
+ *
+ * Rules:
+ *   - Happy path: scheduled → notified → confirmed → in_progress → completed
+ *   - Skipping is allowed until the workout starts
+ *   - Only a notified session can be deferred; a deferred session is
+ *     rescheduled (back to scheduled) or missed
+ *   - Any open session can be missed; the end-of-day sweep also
+ *     completes in-progress sessions with recorded results
+ *   - in_progress → in_progress is allowed so a reloaded player can resume
+ *   - completed, skipped and missed are final
+ */
+
+import type { SessionStatus } from "../types/session";
+
+export const SESSION_TRANSITIONS: Record<
+  SessionStatus,
+  readonly SessionStatus[]
+> = {
+  scheduled: ["notified", "skipped", "missed"],
+  notified: ["confirmed", "skipped", "deferred", "missed"],
+  confirmed: ["in_progress", "skipped", "missed"],
+  in_progress: ["in_progress", "completed", "missed"],
+  deferred: ["scheduled", "missed"],
+  completed: [],
+  skipped: [],
+  missed: [],
+};
+
+/** Thrown when a status write isn't in SESSION_TRANSITIONS */
+export class InvalidSessionTransitionError extends Error {
+  readonly from: SessionStatus;
+  readonly to: SessionStatus;
+
+  constructor(from: SessionStatus, to: SessionStatus) {
+    super(`Cannot move a ${from} session to ${to}.`);
+    this.name = "InvalidSessionTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function canTransitionSession(
+  from: SessionStatus,
+  to: SessionStatus,
+): boolean {
+  return SESSION_TRANSITIONS[from].includes(to);
+}
+
+/** Throws InvalidSessionTransitionError unless `from → to` is legal */
+export function assertSessionTransition(
+  from: SessionStatus,
+  to: SessionStatus,
+): void {
+  if (!canTransitionSession(from, to)) {
+    throw new InvalidSessionTransitionError(from, to);
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  isValidTimeZone,
+  getTimeZoneOffsetMinutes,
+  zonedTimeToInstant,
+  getZonedParts,
+  toZonedISO,
+  isoToZonedMinutes,
+  getZonedToday,
+  getZonedDayBounds,
+} from "./timezone";
+
+/* ─── Offsets ──────────────────────────────────────────────────────── */
+
+describe("getTimeZoneOffsetMinutes", () => {
+  it("reports standard and daylight offsets", () => {
+    expect(
+      getTimeZoneOffsetMinutes("America/Denver", new Date("2026-01-15T12:00Z")),
+    ).toBe(-420);
+    expect(
+      getTimeZoneOffsetMinutes("America/Denver", new Date("2026-07-15T12:00Z")),
+    ).toBe(-360);
+    expect(
+      getTimeZoneOffsetMinutes("Asia/Tokyo", new Date("2026-07-15T12:00Z")),
+    ).toBe(540);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+/* ─── Local → Instant ──────────────────────────────────────────────── */
+
+describe("zonedTimeToInstant", () => {
+  it("converts a local time to the matching instant", () => {
+    expect(
+      zonedTimeToInstant("2026-03-09", 9 * 60, "Asia/Tokyo").toISOString(),
+    ).toBe("2026-03-09T00:00:00.000Z");
+    expect(
+      zonedTimeToInstant("2026-03-09", 9 * 60, "America/Denver").toISOString(),
+    ).toBe("2026-03-09T15:00:00.000Z");
+  });
+
+  it("moves a time skipped by spring-forward past the gap", () => {
+    /* 02:30 doesn't exist in Denver on 2026-03-08; it becomes 03:30 MDT */
+    expect(
+      zonedTimeToInstant(
+        "2026-03-08",
+        2 * 60 + 30,
+        "America/Denver",
+      ).toISOString(),
+    ).toBe("2026-03-08T09:30:00.000Z");
+  });
+
+  it("picks the earlier instant for a time repeated by fall-back", () => {
+    /* 01:30 happens twice in Denver on 2026-11-01; take the MDT one */
+    expect(
+      zonedTimeToInstant("2026-11-01", 60 + 30, "America/Denver").toISOString(),
+    ).toBe("2026-11-01T07:30:00.000Z");
+  });
+});
+
+/* ─── Instant → Local ──────────────────────────────────────────────── */
+
+describe("getZonedParts", () => {
+  it("returns the local date and minutes", () => {
+    expect(
+      getZonedParts(new Date("2026-03-09T16:30:00Z"), "Asia/Tokyo"),
+    ).toEqual({ date: "2026-03-10", minutes: 90 });
+  });
+});
+
+describe("toZonedISO", () => {
+  it("formats with the offset in effect on that day", () => {
+    expect(toZonedISO("2026-01-15", 13 * 60, "America/Denver")).toBe(
+      "2026-01-15T13:00:00-07:00",
+    );
+    expect(toZonedISO("2026-07-15", 13 * 60, "America/Denver")).toBe(
+      "2026-07-15T13:00:00-06:00",
+    );
+    expect(toZonedISO("2026-07-15", 13 * 60, "Asia/Tokyo")).toBe(
+      "2026-07-15T13:00:00+09:00",
+    );
+  });
+});
+
+describe("isoToZonedMinutes", () => {
+  it("converts offset timestamps into the user's local time", () => {
+    expect(isoToZonedMinutes("2026-03-09T00:00:00Z", "Asia/Tokyo")).toBe(540);
+    expect(
+      isoToZonedMinutes("2026-03-09T09:00:00-06:00", "America/Denver"),
+    ).toBe(540);
+  });
+
+  it("reads timestamps without an offset as local wall-clock time", () => {
+    expect(isoToZonedMinutes("2026-03-09T14:05:00", "Asia/Tokyo")).toBe(845);
+  });
+});
+
+/* ─── Days ─────────────────────────────────────────────────────────── */
+
+describe("getZonedToday", () => {
+  it("uses the user's calendar date, not the server's", () => {
+    const now = new Date("2026-03-09T20:00:00Z");
+
+    expect(getZonedToday("Asia/Tokyo", now)).toBe("2026-03-10");
+    expect(getZonedToday("America/Denver", now)).toBe("2026-03-09");
+  });
+});
+
+describe("getZonedDayBounds", () => {
+  it("spans local midnight to midnight", () => {
+    expect(getZonedDayBounds("2026-03-09", "Asia/Tokyo")).toEqual({
+      start: "2026-03-08T15:00:00.000Z",
+      end: "2026-03-09T15:00:00.000Z",
+    });
+  });
+
+  it("is 23 hours long on a spring-forward day", () => {
+    const { start, end } = getZonedDayBounds("2026-03-08", "America/Denver");
+
+    expect(Date.parse(end) - Date.parse(start)).toBe(23 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Timezone Helpers
+ *
+ * Converts between a user's local wall-clock time (date + minutes
+ * since midnight in their IANA timezone) and absolute instants.
+ * Uses Intl only — no timezone database dependency.
+ *
+ * Rules:
+ *   - A local time skipped by a DST spring-forward is moved forward
+ *     by the size of the gap (02:30 → 03:30), matching Temporal's
+ *     "compatible" disambiguation
+ *   - A local time repeated by a DST fall-back resolves to the
+ *     earlier of the two instants
+ *   - ISO strings without an offset are treated as wall-clock time
+ *     in the user's timezone
+ */
+
+export interface ZonedParts {
+  /** Local calendar date, YYYY-MM-DD */
+  date: string;
+  /** Local minutes since midnight */
+  minutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const OFFSET_PATTERN = /(?:[zZ]|[+-]\d{2}:?\d{2})$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+/** Local wall-clock fields for an instant, as a UTC timestamp */
+function wallClockAsUTC(instant: number, timeZone: string): number {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") fields[part.type] = Number(part.value);
+  }
+
+  return Date.UTC(
+    fields.year ?? 1970,
+    (fields.month ?? 1) - 1,
+    fields.day ?? 1,
+    fields.hour ?? 0,
+    fields.minute ?? 0,
+    fields.second ?? 0,
+  );
+}
+
+function parseDate(date: string): number {
+  const [year = 1970, month = 1, day = 1] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDate(utcMidnight: number): string {
+  const d = new Date(utcMidnight);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+/** True if the runtime recognises `timeZone` as an IANA zone */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes the timezone is ahead of UTC at an instant (Denver in winter: -420) */
+export function getTimeZoneOffsetMinutes(
+  timeZone: string,
+  instant: Date,
+): number {
+  const ms = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUTC(ms, timeZone) - ms) / MINUTE_MS);
+}
+
+/** The instant a local date + minutes since midnight occurs in a timezone */
+export function zonedTimeToInstant(
+  date: string,
+  minutes: number,
+  timeZone: string,
+): Date {
+  const wall = parseDate(date) + minutes * MINUTE_MS;
+
+  /* Offsets either side of the wall time cover at most one transition */
+  const offsetBefore = getTimeZoneOffsetMinutes(
+    timeZone,
+    new Date(wall - DAY_MS),
+  );
+  const offsetAfter = getTimeZoneOffsetMinutes(
+    timeZone,
+    new Date(wall + DAY_MS),
+  );
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wall - offset * MINUTE_MS)
+    .filter(
+      (instant) =>
+        wallClockAsUTC(Math.floor(instant / 1000) * 1000, timeZone) === wall,
+    )
+    .sort((a, b) => a - b);
+
+  const earliest = candidates[0];
+  if (earliest !== undefined) return new Date(earliest);
+
+  /* In a spring-forward gap: keep the pre-transition offset, landing after it */
+  return new Date(wall - offsetBefore * MINUTE_MS);
+}
+
+/** Local date and minutes since midnight for an instant */
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const wall = wallClockAsUTC(
+    Math.floor(instant.getTime() / 1000) * 1000,
+    timeZone,
+  );
+  const midnight = Math.floor(wall / DAY_MS) * DAY_MS;
+
+  return {
+    date: formatDate(midnight),
+    minutes: Math.floor((wall - midnight) / MINUTE_MS),
+  };
+}
+
+/**
+ * ISO 8601 timestamp for an instant in the timezone's local time,
+ * e.g. "2026-03-09T09:00:00-06:00".
+ */
+export function formatZonedISO(instant: Date, timeZone: string): string {
+  const offset = getTimeZoneOffsetMinutes(timeZone, instant);
+  const local = getZonedParts(instant, timeZone);
+
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  const time = `${pad(Math.floor(local.minutes / 60))}:${pad(local.minutes % 60)}`;
+
+  return `${local.date}T${time}:00${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/** ISO 8601 timestamp with the timezone's offset for a local time */
+export function toZonedISO(
+  date: string,
+  minutes: number,
+  timeZone: string,
+): string {
+  return formatZonedISO(zonedTimeToInstant(date, minutes, timeZone), timeZone);
+}
+
+/** The instant an ISO timestamp refers to, reading offset-less ones as local */
+export function parseZonedISO(iso: string, timeZone: string): Date {
+  if (OFFSET_PATTERN.test(iso)) return new Date(iso);
+
+  const [date = "", time = ""] = iso.split("T");
+  const [hours = 0, minutes = 0] = time.split(":").map(Number);
+  return zonedTimeToInstant(date, hours * 60 + minutes, timeZone);
+}
+
+/** Local minutes since midnight for an ISO timestamp */
+export function isoToZonedMinutes(iso: string, timeZone: string): number {
+  if (OFFSET_PATTERN.test(iso)) {
+    return getZonedParts(new Date(iso), timeZone).minutes;
+  }
+
+  const timePart = iso.split("T")[1];
+  if (!timePart) return 0;
+  const [hours = 0, minutes = 0] = timePart.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Today's local date in a timezone */
+export function getZonedToday(
+  timeZone: string,
+  now: Date = new Date(),
+): string {
+  return getZonedParts(now, timeZone).date;
+}
+
+/**
+ * UTC bounds of a local calendar day, as [start, end) ISO strings.
+ * DST transition days are 23 or 25 hours long.
+ */
+export function getZonedDayBounds(
+  date: string,
+  timeZone: string,
+): { start: string; end: string } {
+  const nextDate = formatDate(parseDate(date) + DAY_MS);
+
+  return {
+    start: zonedTimeToInstant(date, 0, timeZone).toISOString(),
+    end: zonedTimeToInstant(nextDate, 0, timeZone).toISOString(),
+  };
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import { parseTrigger, createTriggerEvaluator } from "./triggers";
+import type { TimedEvent } from "../types/events";
+import type {
+  AngleDeviation,
+  DeviationSeverity,
+  FormScore,
+} from "../types/form";
+
+/* ─── Test Fixtures ────────────────────────────────────────────────── */
+
+function createEvent(eventId: string, trigger: string | null): TimedEvent {
+  return {
+    eventId,
+    timestampStart: 0,
+    timestampEnd: null,
+    content: eventId,
+    type: "correction",
+    trigger,
+  };
+}
+
+function deviation(joint: string, severity: DeviationSeverity): AngleDeviation {
+  return {
+    joint,
+    expectedRange: { joint, min: 40, max: 160, weight: 1 },
+    measuredAngle: 20,
+    deviationDegrees: 20,
+    severity,
+  };
+}
+
+function score(value: number, deviations: AngleDeviation[] = []): FormScore {
+  return { score: value, deviations, concessionApplied: false, timestamp: 0 };
+}
+
+function ids(events: TimedEvent[]): string[] {
+  return events.map((e) => e.eventId);
+}
+
+/* ─── Grammar ──────────────────────────────────────────────────────── */
+
+describe("parseTrigger", () => {
+  it("parses streaks, scores and rep numbers", () => {
+    expect(parseTrigger("good_streak_3")).toEqual({
+      kind: "good_streak",
+      count: 3,
+    });
+    expect(parseTrigger("score_below_50")).toEqual({
+      kind: "score_below",
+      score: 50,
+    });
+    expect(parseTrigger("rep_4")).toEqual({ kind: "rep", repNumber: 4 });
+  });
+
+  it("parses deviations by joint family or exact joint", () => {
+    expect(parseTrigger("elbow_deviation_high")).toEqual({
+      kind: "deviation",
+      joint: "elbow",
+      severity: "major",
+    });
+    expect(parseTrigger("left_knee_deviation_moderate")).toEqual({
+      kind: "deviation",
+      joint: "left_knee",
+      severity: "moderate",
+    });
+  });
+
+  it("maps head to the neck joint", () => {
+    expect(parseTrigger("head_deviation_low")).toMatchObject({
+      joint: "neck",
+      severity: "minor",
+    });
+  });
+
+  it("returns null for unknown triggers", () => {
+    expect(parseTrigger("jump_twice")).toBeNull();
+    expect(parseTrigger("elbow_deviation_extreme")).toBeNull();
+    expect(parseTrigger("good_streak_0")).toBeNull();
+  });
+});
+
+/* ─── Evaluation ───────────────────────────────────────────────────── */
+
+describe("createTriggerEvaluator", () => {
+  it("fires a good streak when it is reached", () => {
+    const evaluator = createTriggerEvaluator([
+      createEvent("streak", "good_streak_3"),
+    ]);
+
+    expect(evaluator.addScore(score(90), 0)).toEqual([]);
+    expect(evaluator.addScore(score(85), 1000)).toEqual([]);
+    expect(ids(evaluator.addScore(score(95), 2000))).toEqual(["streak"]);
+    /* Continuing the streak doesn't fire again */
+    expect(evaluator.addScore(score(95), 20000)).toEqual([]);
+  });
+
+  it("restarts the streak after a poor rep", () => {
+    const evaluator = createTriggerEvaluator(
+      [createEvent("streak", "good_streak_2")],
+      { cooldownMs: 0 },
+    );
+
+    evaluator.addScore(score(90), 0);
+    evaluator.addScore(score(50), 1000);
+    evaluator.addScore(score(90), 2000);
+
+    expect(ids(evaluator.addScore(score(90), 3000))).toEqual(["streak"]);
+  });
+
+  it("fires on low scores and rep numbers", () => {
+    const evaluator = createTriggerEvaluator([
+      createEvent("low", "score_below_60"),
+      createEvent("halfway", "rep_2"),
+    ]);
+
+    expect(ids(evaluator.addScore(score(40), 0))).toEqual(["low"]);
+    expect(ids(evaluator.addScore(score(90), 1000))).toEqual(["halfway"]);
+  });
+
+  it("matches deviations at or above the trigger level", () => {
+    const evaluator = createTriggerEvaluator([
+      createEvent("elbow", "elbow_deviation_medium"),
+    ]);
+
+    expect(
+      evaluator.addDeviations([deviation("left_elbow", "minor")], 0),
+    ).toEqual([]);
+    expect(
+      ids(evaluator.addDeviations([deviation("right_elbow", "major")], 100)),
+    ).toEqual(["elbow"]);
+  });
+
+  it("limits exact-joint triggers to that joint", () => {
+    const evaluator = createTriggerEvaluator([
+      createEvent("left", "left_elbow_deviation_low"),
+    ]);
+
+    expect(
+      evaluator.addDeviations([deviation("right_elbow", "major")], 0),
+    ).toEqual([]);
+  });
+
+  it("checks deviations within completed reps", () => {
+    const evaluator = createTriggerEvaluator([
+      createEvent("any", "any_deviation_high"),
+    ]);
+
+    const fired = evaluator.addScore(
+      score(40, [deviation("neck", "major")]),
+      0,
+    );
+
+    expect(ids(fired)).toEqual(["any"]);
+  });
+
+  it("applies a cooldown per event", () => {
+    const evaluator = createTriggerEvaluator(
+      [
+        createEvent("elbow", "elbow_deviation_low"),
+        createEvent("knee", "knee_deviation_low"),
+      ],
+      { cooldownMs: 5000 },
+    );
+    const elbowFrame = [deviation("left_elbow", "minor")];
+
+    expect(ids(evaluator.addDeviations(elbowFrame, 0))).toEqual(["elbow"]);
+    expect(evaluator.addDeviations(elbowFrame, 100)).toEqual([]);
+    expect(
+      ids(evaluator.addDeviations([deviation("left_knee", "minor")], 200)),
+    ).toEqual(["knee"]);
+    expect(ids(evaluator.addDeviations(elbowFrame, 5000))).toEqual(["elbow"]);
+  });
+
+  it("ignores timed events and reports unsupported triggers", () => {
+    const evaluator = createTriggerEvaluator([
+      createEvent("timed", null),
+      createEvent("bad", "do_a_flip"),
+    ]);
+
+    expect(evaluator.addScore(score(10), 0)).toEqual([]);
+    expect(ids(evaluator.getUnsupportedEvents())).toEqual(["bad"]);
+  });
+
+  it("resets streaks, rep counts and cooldowns", () => {
+    const evaluator = createTriggerEvaluator([createEvent("first", "rep_1")]);
+    evaluator.addScore(score(90), 0);
+
+    evaluator.reset();
+
+    expect(ids(evaluator.addScore(score(90), 100))).toEqual(["first"]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Event Triggers
+ *
+ * Parses `TimedEvent.trigger` conditions and fires the matching
+ * events from the live form analysis stream.
+ * Pure state machine — the caller feeds scores and deviations with
+ * their timestamps and renders whatever fires.
+ *
+ * Grammar:
+ *   good_streak_<n>               n consecutive reps scoring ≥ goodScore
+ *   score_below_<n>               a rep scoring below n
+ *   rep_<n>                       the nth rep completes
+ *   <joint>_deviation_<level>     a deviation at or above level
+ *
+ *   <joint>  exact joint ("left_elbow"), joint family ("elbow" matches
+ *            both sides), "head" for the neck, or "any"
+ *   <level>  low | medium | high (or minor | moderate | major)
+ *
+ * Rules:
+ *   - Unrecognized triggers are never fired
+ *   - A fired event is silenced for `cooldownMs`, so a deviation held
+ *     across many frames produces one correction
+ *   - A streak fires when it reaches n, then must be broken to fire again
+ */
+
+import type { TimedEvent } from "../types/events";
+import type {
+  AngleDeviation,
+  DeviationSeverity,
+  FormScore,
+} from "../types/form";
+
+type Severity = Exclude<DeviationSeverity, "none">;
+
+export type TriggerCondition =
+  | { kind: "good_streak"; count: number }
+  | { kind: "score_below"; score: number }
+  | { kind: "rep"; repNumber: number }
+  | { kind: "deviation"; joint: string; severity: Severity };
+
+export interface TriggerEvaluatorOptions {
+  /** Minimum time between two firings of the same event */
+  cooldownMs?: number;
+  /** Rep score counted towards a good streak */
+  goodScore?: number;
+}
+
+const DEFAULT_COOLDOWN_MS = 10000;
+const DEFAULT_GOOD_SCORE = 80;
+
+const LEVELS: Record<string, Severity> = {
+  low: "minor",
+  medium: "moderate",
+  high: "major",
+  minor: "minor",
+  moderate: "moderate",
+  major: "major",
+};
+
+const SEVERITY_RANK: Record<DeviationSeverity, number> = {
+  none: 0,
+  minor: 1,
+  moderate: 2,
+  major: 3,
+};
+
+/**
+ * Parse a trigger string. Returns null when it doesn't match the grammar.
+ */
+export function parseTrigger(trigger: string): TriggerCondition | null {
+  const normalized = trigger.trim().toLowerCase();
+
+  const streak = /^good_streak_(\d+)$/.exec(normalized);
+  if (streak) {
+    const count = Number(streak[1]);
+    return count > 0 ? { kind: "good_streak", count } : null;
+  }
+
+  const below = /^score_below_(\d+)$/.exec(normalized);
+  if (below) return { kind: "score_below", score: Number(below[1]) };
+
+  const rep = /^rep_(\d+)$/.exec(normalized);
+  if (rep) {
+    const repNumber = Number(rep[1]);
+    return repNumber > 0 ? { kind: "rep", repNumber } : null;
+  }
+
+  const [, joint, level] =
+    /^([a-z_]+)_deviation_([a-z]+)$/.exec(normalized) ?? [];
+  if (joint && level) {
+    const severity = LEVELS[level];
+    if (!severity) return null;
+    return {
+      kind: "deviation",
+      joint: joint === "head" ? "neck" : joint,
+      severity,
+    };
+  }
+
+  return null;
+}
+
+/** Whether a deviation's joint matches the condition's joint selector */
+function matchesJoint(selector: string, joint: string): boolean {
+  return (
+    selector === "any" ||
+    selector === joint ||
+    selector === joint.replace(/^(left|right)_/, "")
+  );
+}
+
+function hasDeviation(
+  condition: Extract<TriggerCondition, { kind: "deviation" }>,
+  deviations: AngleDeviation[],
+): boolean {
+  return deviations.some(
+    (d) =>
+      matchesJoint(condition.joint, d.joint) &&
+      SEVERITY_RANK[d.severity] >= SEVERITY_RANK[condition.severity],
+  );
+}
+
+/**
+ * Stateful evaluator for one exercise's triggered events.
+ *
+ * `addScore` is called with each completed rep; `addDeviations` with
+ * live per-frame deviations between reps. Both return the events that
+ * fired, already filtered by cooldown.
+ */
+export function createTriggerEvaluator(
+  events: TimedEvent[],
+  options: TriggerEvaluatorOptions = {},
+) {
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  const goodScore = options.goodScore ?? DEFAULT_GOOD_SCORE;
+
+  const triggered: { event: TimedEvent; condition: TriggerCondition }[] = [];
+  const unsupported: TimedEvent[] = [];
+
+  for (const event of events) {
+    if (event.trigger === null) continue;
+    const condition = parseTrigger(event.trigger);
+    if (condition) triggered.push({ event, condition });
+    else unsupported.push(event);
+  }
+
+  const lastFiredAt = new Map<string, number>();
+  let repCount = 0;
+  let streak = 0;
+
+  /** Fire the event unless it's still cooling down */
+  function tryFire(event: TimedEvent, now: number, fired: TimedEvent[]): void {
+    const last = lastFiredAt.get(event.eventId);
+    if (last !== undefined && now - last < cooldownMs) return;
+
+    lastFiredAt.set(event.eventId, now);
+    fired.push(event);
+  }
+
+  /** Evaluate a completed rep */
+  function addScore(
+    score: FormScore,
+    now: number = score.timestamp,
+  ): TimedEvent[] {
+    repCount++;
+    streak = score.score >= goodScore ? streak + 1 : 0;
+
+    const fired: TimedEvent[] = [];
+
+    for (const { event, condition } of triggered) {
+      let matches = false;
+
+      switch (condition.kind) {
+        case "good_streak":
+          matches = streak === condition.count;
+          break;
+        case "score_below":
+          matches = score.score < condition.score;
+          break;
+        case "rep":
+          matches = repCount === condition.repNumber;
+          break;
+        case "deviation":
+          matches = hasDeviation(condition, score.deviations);
+          break;
+      }
+
+      if (matches) tryFire(event, now, fired);
+    }
+
+    return fired;
+  }
+
+  /** Evaluate live deviations from a single frame */
+  function addDeviations(
+    deviations: AngleDeviation[],
+    now: number,
+  ): TimedEvent[] {
+    const fired: TimedEvent[] = [];
+
+    for (const { event, condition } of triggered) {
+      if (
+        condition.kind === "deviation" &&
+        hasDeviation(condition, deviations)
+      ) {
+        tryFire(event, now, fired);
+      }
+    }
+
+    return fired;
+  }
+
+  /** Events whose trigger couldn't be parsed */
+  function getUnsupportedEvents(): TimedEvent[] {
+    return [...unsupported];
+  }
+
+  function reset(): void {
+    lastFiredAt.clear();
+    repCount = 0;
+    streak = 0;
+  }
+
+  return { addScore, addDeviations, getUnsupportedEvents, reset };
+}
+
+export type TriggerEvaluator = ReturnType<typeof createTriggerEvaluator>;
@@ -2,14 +2,19 @@
  * Schedule Validation
  *
  * Validates manual adjustments to proposed schedules.
- * Enforces minimum gap and availability block constraints.
+ * Enforces minimum gap and availability block constraints, and
+ * keeps the mental session last.
+ * Availability is checked in the user's local time; gaps are
+ * measured in real elapsed minutes.
  */
 
-import type { AvailabilityBlock, ProposedSlot } from "../types/schedule";
-import { timeToMinutes } from "./scheduling";
-
-const MIN_GAP_MINUTES = 20;
-const SESSION_DURATION_MINUTES = 7;
+import type {
+  AvailabilityBlock,
+  ProposedSlot,
+  SchedulingRules,
+} from "../types/schedule";
+import { resolveSchedulingRules, timeToMinutes } from "./scheduling";
+import { formatZonedISO, isoToZonedMinutes, parseZonedISO } from "./timezone";
 
 export interface ValidationResult {
   valid: boolean;
@@ -17,15 +22,15 @@ export interface ValidationResult {
 }
 
 /**
- * Parse time from an ISO timestamp to minutes since midnight.
+ * Real minutes between two slot timestamps.
  */
-function isoToMinutes(iso: string): number {
-  const timePart = iso.split("T")[1];
-  if (!timePart) return 0;
-  const parts = timePart.split(":").map(Number);
-  const hours = parts[0] ?? 0;
-  const minutes = parts[1] ?? 0;
-  return hours * 60 + minutes;
+function minutesBetween(a: string, b: string, timezone: string): number {
+  return (
+    Math.abs(
+      parseZonedISO(a, timezone).getTime() -
+        parseZonedISO(b, timezone).getTime(),
+    ) / 60000
+  );
 }
 
 /**
@@ -34,12 +39,13 @@ function isoToMinutes(iso: string): number {
 function isWithinAvailability(
   timeMinutes: number,
   blocks: AvailabilityBlock[],
+  rules: SchedulingRules,
 ): boolean {
   return blocks.some((block) => {
     const start = timeToMinutes(block.start);
     const end = timeToMinutes(block.end);
     return (
-      timeMinutes >= start && timeMinutes + SESSION_DURATION_MINUTES <= end
+      timeMinutes >= start && timeMinutes + rules.sessionDurationMinutes <= end
     );
   });
 }
@@ -49,17 +55,20 @@ function isWithinAvailability(
  *
  * Checks:
  *   1. New time falls within an availability block
- *   2. Minimum 20-minute gap from all other slots
+ *   2. Minimum gap (20 minutes by default) from all other slots
  */
 export function validateSlotMove(
   slotToMove: number,
   newTimeISO: string,
   allSlots: ProposedSlot[],
   availabilityBlocks: AvailabilityBlock[],
+  timezone: string,
+  ruleOverrides?: Partial<SchedulingRules> | null,
 ): ValidationResult {
-  const newMinutes = isoToMinutes(newTimeISO);
+  const rules = resolveSchedulingRules(ruleOverrides);
+  const newMinutes = isoToZonedMinutes(newTimeISO, timezone);
 
-  if (!isWithinAvailability(newMinutes, availabilityBlocks)) {
+  if (!isWithinAvailability(newMinutes, availabilityBlocks, rules)) {
     return {
       valid: false,
       error:
@@ -70,13 +79,12 @@ export function validateSlotMove(
   const otherSlots = allSlots.filter((s) => s.slotNumber !== slotToMove);
 
   for (const slot of otherSlots) {
-    const slotMinutes = isoToMinutes(slot.time);
-    const gap = Math.abs(newMinutes - slotMinutes);
+    const gap = minutesBetween(newTimeISO, slot.time, timezone);
 
-    if (gap < MIN_GAP_MINUTES) {
+    if (gap < rules.minGapMinutes) {
       return {
         valid: false,
-        error: `Cannot schedule workouts within ${MIN_GAP_MINUTES} minutes of each other.`,
+        error: `Cannot schedule workouts within ${rules.minGapMinutes} minutes of each other.`,
       };
     }
   }
@@ -85,21 +93,34 @@ export function validateSlotMove(
 }
 
 /**
- * Validate an entire schedule (all 6 slots).
+ * Validate an entire schedule (all of the day's slots).
  * Used when confirming a schedule after manual adjustments.
  */
 export function validateFullSchedule(
   slots: ProposedSlot[],
   availabilityBlocks: AvailabilityBlock[],
+  timezone: string,
+  ruleOverrides?: Partial<SchedulingRules> | null,
 ): ValidationResult {
+  const rules = resolveSchedulingRules(ruleOverrides);
+
+  if (slots.length > rules.totalSlots) {
+    return {
+      valid: false,
+      error: `Only ${rules.totalSlots} sessions are scheduled per day.`,
+    };
+  }
+
   const sorted = [...slots].sort(
-    (a, b) => isoToMinutes(a.time) - isoToMinutes(b.time),
+    (a, b) =>
+      parseZonedISO(a.time, timezone).getTime() -
+      parseZonedISO(b.time, timezone).getTime(),
   );
 
   for (const slot of sorted) {
-    const minutes = isoToMinutes(slot.time);
+    const minutes = isoToZonedMinutes(slot.time, timezone);
 
-    if (!isWithinAvailability(minutes, availabilityBlocks)) {
+    if (!isWithinAvailability(minutes, availabilityBlocks, rules)) {
       return {
         valid: false,
         error: `Slot ${slot.slotNumber} falls outside your available time blocks.`,
@@ -107,20 +128,51 @@ export function validateFullSchedule(
     }
   }
 
+  const mentalIndex = sorted.findIndex((s) => s.sessionType === "mental");
+  if (mentalIndex !== -1 && mentalIndex !== sorted.length - 1) {
+    return {
+      valid: false,
+      error: "The mental session must be the last of the day.",
+    };
+  }
+
   for (let i = 1; i < sorted.length; i++) {
     const prevSlot = sorted[i - 1];
     const currSlot = sorted[i];
     if (!prevSlot || !currSlot) continue;
-    const prev = isoToMinutes(prevSlot.time);
-    const curr = isoToMinutes(currSlot.time);
-    const gap = curr - prev;
-    if (gap < MIN_GAP_MINUTES) {
+    const gap = minutesBetween(prevSlot.time, currSlot.time, timezone);
+    if (gap < rules.minGapMinutes) {
       return {
         valid: false,
-        error: `Cannot schedule workouts within ${MIN_GAP_MINUTES} minutes of each other.`,
+        error: `Cannot schedule workouts within ${rules.minGapMinutes} minutes of each other.`,
       };
     }
   }
 
   return { valid: true, error: null };
 }
+
+/**
+ * The day's slots with one moved to a new time, back in time order
+ * and renumbered from 1. Doesn't validate — run validateSlotMove first.
+ */
+export function moveSlot(
+  slotToMove: number,
+  newTimeISO: string,
+  allSlots: ProposedSlot[],
+  timezone: string,
+): ProposedSlot[] {
+  const time = formatZonedISO(parseZonedISO(newTimeISO, timezone), timezone);
+
+  return allSlots
+    .map((slot) => (slot.slotNumber === slotToMove ? { ...slot, time } : slot))
+    .sort(
+      (a, b) =>
+        parseZonedISO(a.time, timezone).getTime() -
+        parseZonedISO(b.time, timezone).getTime(),
+    )
+    .map((slot, index) => ({
+      ...slot,
+      slotNumber: (index + 1) as ProposedSlot["slotNumber"],
+    }));
+}
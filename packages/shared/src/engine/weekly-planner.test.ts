@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  planWeek,
+  createWeekdayPattern,
+  validateWorkPattern,
+} from "./weekly-planner";
+import type { WeeklyPlanInput } from "./weekly-planner";
+import type { WorkPattern } from "../types/schedule";
+
+const fullDay = { start: "09:00", end: "17:00" };
+
+/* Mon–Thu 9–17, Fri 9–13, weekends off */
+const pattern: WorkPattern = {
+  1: fullDay,
+  2: fullDay,
+  3: fullDay,
+  4: fullDay,
+  5: { start: "09:00", end: "13:00" },
+};
+
+function input(overrides: Partial<WeeklyPlanInput> = {}): WeeklyPlanInput {
+  return {
+    /* A Monday */
+    startDate: "2026-03-09",
+    workPattern: pattern,
+    defaultAvailability: null,
+    timezone: "America/Denver",
+    ...overrides,
+  };
+}
+
+describe("planWeek", () => {
+  it("plans each working day and skips days off", () => {
+    const plans = planWeek(input());
+
+    expect(plans.map((p) => p.date)).toEqual([
+      "2026-03-09",
+      "2026-03-10",
+      "2026-03-11",
+      "2026-03-12",
+      "2026-03-13",
+    ]);
+    expect(plans[0]?.proposal.slots).toHaveLength(6);
+    expect(plans[0]?.proposal.slots[0]?.time).toMatch(/^2026-03-09T/);
+  });
+
+  it("uses each day's own hours", () => {
+    const friday = planWeek(input()).find((p) => p.weekday === 5);
+
+    expect(friday?.workWindowEnd).toBe("13:00");
+    expect(friday?.availabilityBlocks).toEqual([
+      { start: "09:00", end: "13:00" },
+    ]);
+    /* Two hours after the startup buffer can't hold all six sessions */
+    expect(friday?.proposal.warnings.length).toBeGreaterThan(0);
+    for (const slot of friday?.proposal.slots ?? []) {
+      expect(slot.time < "2026-03-13T13:00").toBe(true);
+    }
+  });
+
+  it("clips default availability to the day and honours per-date overrides", () => {
+    const plans = planWeek(
+      input({
+        defaultAvailability: [
+          { start: "08:00", end: "12:00" },
+          { start: "12:30", end: "18:00" },
+        ],
+        availabilityByDate: {
+          "2026-03-10": [{ start: "13:00", end: "17:00" }],
+        },
+      }),
+    );
+
+    expect(plans[0]?.availabilityBlocks).toEqual([
+      { start: "09:00", end: "12:00" },
+      { start: "12:30", end: "17:00" },
+    ]);
+    expect(plans[1]?.availabilityBlocks).toEqual([
+      { start: "13:00", end: "17:00" },
+    ]);
+    expect(plans[4]?.availabilityBlocks).toEqual([
+      { start: "09:00", end: "12:00" },
+      { start: "12:30", end: "13:00" },
+    ]);
+  });
+
+  it("plans any number of days", () => {
+    expect(planWeek(input({ days: 14 }))).toHaveLength(10);
+  });
+});
+
+describe("createWeekdayPattern", () => {
+  it("works Monday to Friday", () => {
+    const weekdays = Object.keys(createWeekdayPattern("09:00", "17:00"));
+
+    expect(weekdays).toEqual(["1", "2", "3", "4", "5"]);
+  });
+});
+
+describe("validateWorkPattern", () => {
+  it("rejects reversed hours and empty weeks", () => {
+    expect(validateWorkPattern(pattern)).toEqual([]);
+    expect(
+      validateWorkPattern({ 2: { start: "17:00", end: "09:00" } }),
+    ).toEqual(["Tuesday: end must be after start."]);
+    expect(validateWorkPattern({ 0: null })).toEqual([
+      "Work pattern has no working days.",
+    ]);
+  });
+});
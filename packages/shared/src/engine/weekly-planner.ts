@@ -0,0 +1,149 @@
+/**
+ * Weekly Planner
+ *
+ * Proposes schedules for several days in one call from a user's
+ * work pattern. Pure function — each working day goes through
+ * proposeSchedule with that day's hours.
+ *
+ * Rules:
+ *   - Days off in the pattern get no plan
+ *   - Availability comes from, in order: a per-date override (e.g.
+ *     from a calendar import), the user's defaultAvailability, or
+ *     the whole working day
+ *   - Default availability is clipped to each day's hours, so a
+ *     09:00–17:00 default still fits a 09:00–13:00 Friday
+ */
+
+import type {
+  AvailabilityBlock,
+  SchedulingRules,
+  Weekday,
+  WorkDay,
+  WorkPattern,
+} from "../types/schedule";
+import { minutesToTime, proposeSchedule, timeToMinutes } from "./scheduling";
+import type { ScheduleProposal } from "./scheduling";
+
+export interface WeeklyPlanInput {
+  /** First date to plan, YYYY-MM-DD */
+  startDate: string;
+  /** Number of consecutive days to plan (default 7) */
+  days?: number;
+  workPattern: WorkPattern;
+  defaultAvailability: AvailabilityBlock[] | null;
+  /** Availability for specific dates, replacing the default */
+  availabilityByDate?: Record<string, AvailabilityBlock[]>;
+  timezone: string;
+  rules?: Partial<SchedulingRules> | null;
+}
+
+export interface DailyPlan {
+  date: string;
+  weekday: Weekday;
+  workWindowStart: string;
+  workWindowEnd: string;
+  availabilityBlocks: AvailabilityBlock[];
+  proposal: ScheduleProposal;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+function parseDate(date: string): number {
+  const [year = 1970, month = 1, day = 1] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+/** A Monday–Friday pattern with the same hours each day */
+export function createWeekdayPattern(start: string, end: string): WorkPattern {
+  const day: WorkDay = { start, end };
+  return { 1: day, 2: day, 3: day, 4: day, 5: day };
+}
+
+/** Problems with a work pattern, or an empty array if it's usable */
+export function validateWorkPattern(pattern: WorkPattern): string[] {
+  const errors: string[] = [];
+
+  for (const [key, day] of Object.entries(pattern)) {
+    if (!day) continue;
+    const name = DAY_NAMES[Number(key)] ?? `Day ${key}`;
+    if (timeToMinutes(day.end) <= timeToMinutes(day.start)) {
+      errors.push(`${name}: end must be after start.`);
+    }
+  }
+
+  if (!Object.values(pattern).some(Boolean)) {
+    errors.push("Work pattern has no working days.");
+  }
+
+  return errors;
+}
+
+/** Clip blocks to a day's hours, dropping any that fall outside */
+function clipToWorkDay(
+  blocks: AvailabilityBlock[],
+  day: WorkDay,
+): AvailabilityBlock[] {
+  const dayStart = timeToMinutes(day.start);
+  const dayEnd = timeToMinutes(day.end);
+
+  return blocks
+    .map((block) => ({
+      start: Math.max(timeToMinutes(block.start), dayStart),
+      end: Math.min(timeToMinutes(block.end), dayEnd),
+    }))
+    .filter((block) => block.end > block.start)
+    .map((block) => ({
+      start: minutesToTime(block.start),
+      end: minutesToTime(block.end),
+    }));
+}
+
+/**
+ * Proposed schedules for each working day from `startDate`,
+ * in date order.
+ */
+export function planWeek(input: WeeklyPlanInput): DailyPlan[] {
+  const plans: DailyPlan[] = [];
+  const first = parseDate(input.startDate);
+
+  for (let i = 0; i < (input.days ?? 7); i++) {
+    const instant = new Date(first + i * DAY_MS);
+    const date = instant.toISOString().slice(0, 10);
+    const weekday = instant.getUTCDay() as Weekday;
+    const workDay = input.workPattern[weekday];
+    if (!workDay) continue;
+
+    const availabilityBlocks =
+      input.availabilityByDate?.[date] ??
+      (input.defaultAvailability
+        ? clipToWorkDay(input.defaultAvailability, workDay)
+        : [{ start: workDay.start, end: workDay.end }]);
+
+    plans.push({
+      date,
+      weekday,
+      workWindowStart: workDay.start,
+      workWindowEnd: workDay.end,
+      availabilityBlocks,
+      proposal: proposeSchedule({
+        workWindowStart: workDay.start,
+        workWindowEnd: workDay.end,
+        availabilityBlocks,
+        date,
+        timezone: input.timezone,
+        rules: input.rules,
+      }),
+    });
+  }
+
+  return plans;
+}
@@ -42,9 +42,12 @@ function createSession(overrides: Partial<Session> = {}): Session {
     startedAt: null,
     completedAt: null,
     deferredFrom: null,
+    deferCount: 0,
     skipReason: null,
     notificationToken: null,
     notificationSentAt: null,
+    reflectionPrompt: null,
+    reflectionResponse: null,
     createdAt: "2026-03-09T00:00:00Z",
     ...overrides,
   };
@@ -80,6 +83,7 @@ function createMockDeps(exercises: Exercise[]): ComposerDependencies {
       getById: vi.fn(),
       getBySchedule: vi.fn(),
       getTodaySessions: vi.fn().mockResolvedValue([]),
+      getSessionExercises: vi.fn().mockResolvedValue([]),
       updateStatus: vi.fn(),
       create: vi.fn(),
     },
@@ -87,6 +91,7 @@ function createMockDeps(exercises: Exercise[]): ComposerDependencies {
       getAvailable: vi.fn().mockResolvedValue(rotationEntries),
       markUsed: vi.fn(),
       resetQueue: vi.fn(),
+      resetDailyUsage: vi.fn(),
       getTodayUsageCount: vi.fn().mockResolvedValue(0),
       isSequenceUnique: vi.fn().mockResolvedValue(true),
       recordSequence: vi.fn(),
@@ -238,7 +243,7 @@ describe("composeWorkout", () => {
     const deps = createMockDeps(exercises);
     const session = createSession();
 
-    /* Simulate that shoulders and neck were already covered today */
+    /* Neck and shoulders were already covered this morning */
     const completedSession = createSession({
       id: "session-0",
       status: "completed",
@@ -248,10 +253,80 @@ describe("composeWorkout", () => {
       completedSession,
       session,
     ]);
+    vi.mocked(deps.sessionRepo.getSessionExercises).mockResolvedValue([
+      exercises[0]!,
+      exercises[1]!,
+    ]);
 
     const result = await composeWorkout(session, deps);
 
-    expect(result.workout.exercises).toHaveLength(4);
+    const selectedIds = result.workout.exercises.map((e) => e.exercise.id);
+    expect(deps.sessionRepo.getSessionExercises).toHaveBeenCalledWith(
+      "session-0",
+    );
+    expect(selectedIds).toEqual(["ex-3", "ex-4", "ex-5", "ex-6"]);
+  });
+
+  it("accumulates coverage across the day's completed sessions", async () => {
+    const deps = createMockDeps(exercises);
+    const session = createSession({ id: "session-3", slotNumber: 3 });
+
+    vi.mocked(deps.sessionRepo.getTodaySessions).mockResolvedValue([
+      createSession({ id: "session-1", status: "completed" }),
+      createSession({ id: "session-2", slotNumber: 2, status: "completed" }),
+      session,
+    ]);
+    vi.mocked(deps.sessionRepo.getSessionExercises).mockImplementation(
+      async (sessionId: string) =>
+        sessionId === "session-1"
+          ? [exercises[0]!, exercises[1]!]
+          : [exercises[2]!, exercises[3]!],
+    );
+
+    const result = await composeWorkout(session, deps);
+
+    const groups = result.workout.exercises.flatMap(
+      (e) => e.exercise.muscleGroups,
+    );
+    expect(groups).toEqual(["hips", "chest", "core", "legs"]);
+  });
+
+  it("ignores sessions that were not completed", async () => {
+    const deps = createMockDeps(exercises);
+    const session = createSession();
+
+    vi.mocked(deps.sessionRepo.getTodaySessions).mockResolvedValue([
+      createSession({ id: "session-0", status: "skipped" }),
+      createSession({ id: "session-2", status: "in_progress" }),
+      session,
+    ]);
+
+    await composeWorkout(session, deps);
+
+    expect(deps.sessionRepo.getSessionExercises).not.toHaveBeenCalled();
+  });
+
+  it("scores exercises by how many uncovered groups they hit", async () => {
+    const compound = createExercise({
+      id: "ex-compound",
+      muscleGroups: ["neck", "hips", "chest"],
+      videoDurationSeconds: 40,
+    });
+    const deps = createMockDeps([...exercises, compound]);
+    const session = createSession();
+
+    vi.mocked(deps.sessionRepo.getTodaySessions).mockResolvedValue([
+      createSession({ id: "session-0", status: "completed" }),
+      session,
+    ]);
+    vi.mocked(deps.sessionRepo.getSessionExercises).mockResolvedValue([
+      exercises[0]!,
+    ]);
+
+    const result = await composeWorkout(session, deps);
+
+    /* Two uncovered groups (hips, chest) outrank any single-group exercise */
+    expect(result.workout.exercises[0]?.exercise.id).toBe("ex-compound");
   });
 
   it("resets rotation queue when exhausted", async () => {
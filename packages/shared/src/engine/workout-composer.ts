@@ -111,6 +111,7 @@ export async function composeWorkout(
 
   const exercises: ComposedExercise[] = selected.map((exercise, index) => ({
     exercise,
+    sessionExerciseId: null,
     orderIndex: index + 1,
     videoUrl: exercise.videoUrl,
     captionUrl: exercise.captionUrl,
@@ -233,17 +234,19 @@ interface ScoredExercise {
 async function getCoveredMuscleGroups(
   todaySessions: Session[],
   currentSessionId: string,
-  _deps: ComposerDependencies,
+  deps: ComposerDependencies,
 ): Promise<Set<MuscleGroup>> {
-  const covered = new Set<MuscleGroup>();
+  const completed = todaySessions.filter(
+    (s) => s.id !== currentSessionId && s.status === "completed",
+  );
 
-  for (const s of todaySessions) {
-    if (s.id === currentSessionId) continue;
-    if (s.status !== "completed") continue;
+  const sessionExercises = await Promise.all(
+    completed.map((s) => deps.sessionRepo.getSessionExercises(s.id)),
+  );
 
-    /* Look up the exercises used in this session via the exercise repo */
-    /* Since we don't have a direct session_exercises query here,
-       we rely on the exercises' muscle groups from the rotation usage */
+  const covered = new Set<MuscleGroup>();
+  for (const exercise of sessionExercises.flat()) {
+    for (const group of exercise.muscleGroups) covered.add(group);
   }
 
   return covered;
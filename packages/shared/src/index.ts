@@ -19,6 +19,8 @@ export type {
   ComposedExercise,
   MeditationConfig,
   BreathingPattern,
+  SessionReflection,
+  SessionStatusChanges,
 } from "./types/session";
 
 export type { MoodEntry, MoodLabel, MoodValue } from "./types/mood";
@@ -31,9 +33,15 @@ export type {
   AvailabilityBlock,
   DailySchedule,
   ProposedSlot,
+  SchedulingRules,
+  Weekday,
+  WorkDay,
+  WorkPattern,
   WorkspaceCalibration,
 } from "./types/schedule";
 
+export type { PushSubscriptionRecord } from "./types/push";
+
 export type {
   Feedback,
   FeedbackCategory,
@@ -70,6 +78,7 @@ export type { ExerciseRepository } from "./repositories/interfaces/ExerciseRepos
 export type { MoodRepository } from "./repositories/interfaces/MoodRepository";
 export type { FeedbackRepository } from "./repositories/interfaces/FeedbackRepository";
 export type { ScheduleRepository } from "./repositories/interfaces/ScheduleRepository";
+export type { PushSubscriptionRepository } from "./repositories/interfaces/PushSubscriptionRepository";
 export type {
   RotationRepository,
   RotationEntry,
@@ -78,6 +87,165 @@ export type {
 // ─── AI Interfaces ──────────────────────────────────────────────────────────
 export type { PoseEstimator, VideoFrame } from "./ai/pose/PoseEstimator";
 
+// ─── Engines ────────────────────────────────────────────────────────────────
+export type {
+  JointDefinition,
+  FrameAngles,
+  ScoringContext,
+  FormScorer,
+} from "./engine/form-scoring";
+export {
+  JOINT_DEFINITIONS,
+  calculateAngle,
+  measureJointAngle,
+  measureFrame,
+  deviationFromRange,
+  classifyDeviation,
+  measureFrameDeviations,
+  scoreRep,
+  createFormScorer,
+} from "./engine/form-scoring";
+
+export type {
+  RepPhase,
+  RepEvent,
+  RepCounterOptions,
+  RepCounter,
+} from "./engine/rep-counter";
+export { createRepCounter, getPrimaryAngleRange } from "./engine/rep-counter";
+
+export type { ConcessionResult } from "./engine/concessions";
+export { applyWorkspaceConcessions } from "./engine/concessions";
+
+export type {
+  CalibrationMovement,
+  MovementResult,
+  CalibrationSession,
+} from "./engine/calibration";
+export {
+  CALIBRATION_MOVEMENTS,
+  measureMovement,
+  computeRangeOfMotionFactor,
+  inferPosition,
+  createCalibrationSession,
+} from "./engine/calibration";
+
+export type {
+  DeviationDirection,
+  FormIssue,
+  FeedbackExercise,
+} from "./engine/form-feedback";
+export {
+  describeJoint,
+  describeDeviation,
+  aggregateDeviations,
+  generateFormFeedback,
+} from "./engine/form-feedback";
+
+export type {
+  EventEmission,
+  EventPlayerOptions,
+  EventPlayer,
+} from "./engine/event-player";
+export {
+  EVENT_TYPES,
+  validateEventFile,
+  parseEventFile,
+  loadEventFile,
+  createEventPlayer,
+} from "./engine/event-player";
+
+export type {
+  TriggerCondition,
+  TriggerEvaluatorOptions,
+  TriggerEvaluator,
+} from "./engine/triggers";
+export { parseTrigger, createTriggerEvaluator } from "./engine/triggers";
+
+export type {
+  ScheduleProposal,
+  SchedulingInput,
+  SchedulingStrategy,
+  SlotReason,
+  SlotPlacement,
+  DroppedSlot,
+  ScheduleDiagnostic,
+} from "./engine/scheduling";
+export {
+  DEFAULT_SCHEDULING_RULES,
+  describeScheduleDiagnostic,
+  resolveSchedulingRules,
+  validateSchedulingRules,
+  timeToMinutes,
+  minutesToTime,
+  getSchedulableBlocks,
+  proposeSchedule,
+} from "./engine/scheduling";
+
+export type { ValidationResult } from "./engine/validateSchedule";
+export {
+  validateSlotMove,
+  validateFullSchedule,
+  moveSlot,
+} from "./engine/validateSchedule";
+
+export type { ZonedParts } from "./engine/timezone";
+export {
+  isValidTimeZone,
+  getTimeZoneOffsetMinutes,
+  zonedTimeToInstant,
+  getZonedParts,
+  formatZonedISO,
+  toZonedISO,
+  parseZonedISO,
+  isoToZonedMinutes,
+  getZonedToday,
+  getZonedDayBounds,
+} from "./engine/timezone";
+
+export type { BreathingPhase, BreathingState } from "./engine/breathing";
+export {
+  DEFAULT_REFLECTION_PROMPT,
+  getCycleDurationMs,
+  getBreathingDurationMs,
+  getBreathingState,
+} from "./engine/breathing";
+
+export type {
+  CalendarDateTime,
+  RecurrenceFrequency,
+  RecurrenceWeekday,
+  RecurrenceRule,
+  CalendarEvent,
+  BusyInterval,
+} from "./engine/calendar-import";
+export {
+  parseICS,
+  getBusyIntervals,
+  subtractBusyIntervals,
+  importAvailabilityFromICS,
+} from "./engine/calendar-import";
+
+export type { RescheduleOutcome, RescheduleInput } from "./engine/rescheduling";
+export { planReschedule } from "./engine/rescheduling";
+
+export type { ExerciseProgress } from "./engine/day-close";
+export { OPEN_SESSION_STATUSES, getCloseOutStatus } from "./engine/day-close";
+
+export {
+  SESSION_TRANSITIONS,
+  InvalidSessionTransitionError,
+  canTransitionSession,
+  assertSessionTransition,
+} from "./engine/session-status";
+
+export type { WeeklyPlanInput, DailyPlan } from "./engine/weekly-planner";
+export {
+  createWeekdayPattern,
+  validateWorkPattern,
+  planWeek,
+} from "./engine/weekly-planner";
+
 // ─── Supabase Implementations ───────────────────────────────────────────────
 export { createExerciseRepository } from "./repositories/supabase/exercise.repository";
 export { createSessionRepository } from "./repositories/supabase/session.repository";
@@ -86,3 +254,7 @@ export { createMoodRepository } from "./repositories/supabase/mood.repository";
 export { createFeedbackRepository } from "./repositories/supabase/feedback.repository";
 export { createScheduleRepository } from "./repositories/supabase/schedule.repository";
 export { createRotationRepository } from "./repositories/supabase/rotation.repository";
+export {
+  createPushSubscriptionRepository,
+  PushSubscriptionOwnershipError,
+} from "./repositories/supabase/push-subscription.repository";
@@ -0,0 +1,13 @@
+import type { PushSubscriptionRecord } from "../../types/push";
+
+/**
+ * Repository for users' Web Push subscriptions.
+ */
+export interface PushSubscriptionRepository {
+  /** Insert, or re-point an existing endpoint at this user and keys */
+  save(
+    subscription: Omit<PushSubscriptionRecord, "id" | "createdAt">,
+  ): Promise<PushSubscriptionRecord>;
+  listByUser(userId: string): Promise<PushSubscriptionRecord[]>;
+  remove(userId: string, endpoint: string): Promise<void>;
+}
@@ -12,6 +12,9 @@ export interface RotationRepository {
   /** Reset the rotation queue when all exercises have been seen */
   resetQueue(userId: string): Promise<void>;
 
+  /** Zero every exercise's daily usage count when the user's day ends */
+  resetDailyUsage(userId: string): Promise<void>;
+
   /** Check how many times an exercise has been used today */
   getTodayUsageCount(userId: string, exerciseId: string): Promise<number>;
 
@@ -1,4 +1,5 @@
 import type { DailySchedule, UserProfile } from "../../types/schedule";
+import type { Session } from "../../types/session";
 
 /**
  * Repository for daily schedules and user profiles.
@@ -16,5 +17,14 @@ export interface ScheduleRepository {
   createSchedule(
     schedule: Omit<DailySchedule, "id" | "confirmedAt">,
   ): Promise<DailySchedule>;
-  confirmSchedule(scheduleId: string): Promise<void>;
+  /** Replace an unconfirmed schedule's availability and proposed slots */
+  updateProposal(
+    scheduleId: string,
+    proposal: Pick<DailySchedule, "availabilityBlocks" | "proposedTimes">,
+  ): Promise<DailySchedule>;
+  /**
+   * Confirm an unconfirmed schedule and create one scheduled session
+   * per proposed slot. Either both happen or neither does.
+   */
+  confirmSchedule(scheduleId: string): Promise<Session[]>;
 }
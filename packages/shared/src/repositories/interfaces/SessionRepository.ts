@@ -1,4 +1,9 @@
-import type { Session, SessionStatus } from '../../types/session';
+import type { Exercise } from '../../types/exercise';
+import type {
+  Session,
+  SessionStatus,
+  SessionStatusChanges,
+} from '../../types/session';
 
 /**
  * Repository for session CRUD and status transitions.
@@ -7,6 +12,16 @@ export interface SessionRepository {
   getById(id: string): Promise<Session | null>;
   getBySchedule(scheduleId: string): Promise<Session[]>;
   getTodaySessions(userId: string): Promise<Session[]>;
-  updateStatus(id: string, status: SessionStatus): Promise<void>;
+  /** Exercises written to a session's `session_exercises`, in play order */
+  getSessionExercises(sessionId: string): Promise<Exercise[]>;
+  /**
+   * Move a session to a new status, writing any extra columns with it.
+   * Throws InvalidSessionTransitionError for an illegal move.
+   */
+  updateStatus(
+    id: string,
+    status: SessionStatus,
+    changes?: SessionStatusChanges,
+  ): Promise<void>;
   create(session: Omit<Session, 'id' | 'createdAt'>): Promise<Session>;
 }
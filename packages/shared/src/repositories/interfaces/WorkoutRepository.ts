@@ -1,4 +1,4 @@
-import type { ComposedWorkout } from "../../types/session";
+import type { ComposedWorkout, SessionReflection } from "../../types/session";
 import type { FormScore } from "../../types/form";
 
 /**
@@ -15,6 +15,12 @@ export interface WorkoutRepository {
     result: ExerciseResult,
   ): Promise<void>;
 
+  /** Store the user's answer to the meditation reflection prompt */
+  recordReflection(
+    sessionId: string,
+    reflection: SessionReflection,
+  ): Promise<void>;
+
   /** Finalize a completed session */
   completeSession(sessionId: string): Promise<void>;
 }
@@ -5,3 +5,4 @@ export { createMoodRepository } from "./mood.repository";
 export { createFeedbackRepository } from "./feedback.repository";
 export { createScheduleRepository } from "./schedule.repository";
 export { createRotationRepository } from "./rotation.repository";
+export { createPushSubscriptionRepository } from "./push-subscription.repository";
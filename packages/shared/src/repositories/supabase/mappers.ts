@@ -10,6 +10,7 @@ import type { Session } from "../../types/session";
 import type { MoodEntry } from "../../types/mood";
 import type { Feedback } from "../../types/feedback";
 import type { DailySchedule, UserProfile } from "../../types/schedule";
+import type { PushSubscriptionRecord } from "../../types/push";
 import type { RotationEntry } from "../interfaces/RotationRepository";
 
 /* Generic row types matching Supabase column names */
@@ -45,9 +46,12 @@ export interface SessionRow {
   started_at: string | null;
   completed_at: string | null;
   deferred_from: string | null;
+  defer_count: number;
   skip_reason: string | null;
   notification_token: string | null;
   notification_sent_at: string | null;
+  reflection_prompt: string | null;
+  reflection_response: string | null;
   created_at: string;
 }
 
@@ -87,6 +91,9 @@ export interface UserProfileRow {
   notification_phone: string | null;
   theme_preference: string;
   timezone: string;
+  scheduling_rules: unknown;
+  calendar_feed_token: string | null;
+  onboarded_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -100,6 +107,15 @@ export interface DailyScheduleRow {
   confirmed_at: string | null;
 }
 
+export interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  created_at: string;
+}
+
 export interface RotationQueueRow {
   id: string;
   user_id: string;
@@ -152,9 +168,12 @@ export function mapSessionRow(row: SessionRow): Session {
     startedAt: row.started_at,
     completedAt: row.completed_at,
     deferredFrom: row.deferred_from,
+    deferCount: row.defer_count ?? 0,
     skipReason: row.skip_reason,
     notificationToken: row.notification_token,
     notificationSentAt: row.notification_sent_at,
+    reflectionPrompt: row.reflection_prompt,
+    reflectionResponse: row.reflection_response,
     createdAt: row.created_at,
   };
 }
@@ -203,6 +222,9 @@ export function mapUserProfileRow(row: UserProfileRow): UserProfile {
     notificationPhone: row.notification_phone,
     themePreference: row.theme_preference as UserProfile["themePreference"],
     timezone: row.timezone,
+    schedulingRules: row.scheduling_rules as UserProfile["schedulingRules"],
+    calendarFeedToken: row.calendar_feed_token,
+    onboardedAt: row.onboarded_at,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -230,3 +252,16 @@ export function mapRotationQueueRow(row: RotationQueueRow): RotationEntry {
     timesUsedToday: row.times_used_today,
   };
 }
+
+export function mapPushSubscriptionRow(
+  row: PushSubscriptionRow,
+): PushSubscriptionRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    endpoint: row.endpoint,
+    p256dh: row.p256dh,
+    auth: row.auth,
+    createdAt: row.created_at,
+  };
+}
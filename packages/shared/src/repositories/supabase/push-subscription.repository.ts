@@ -0,0 +1,88 @@
+/**
+ * Supabase Push Subscription Repository
+ *
+ * Stores the Web Push subscriptions each user's browsers register.
+ * Endpoints are unique, so re-subscribing the same browser updates
+ * its keys rather than adding a duplicate row. An endpoint already
+ * saved for another user is refused rather than taken over.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PushSubscriptionRepository } from "../interfaces/PushSubscriptionRepository";
+import type { PushSubscriptionRecord } from "../../types/push";
+import { mapPushSubscriptionRow } from "./mappers";
+import type { PushSubscriptionRow } from "./mappers";
+
+/** Thrown when a browser's endpoint is already saved for another user */
+export class PushSubscriptionOwnershipError extends Error {
+  constructor() {
+    super("Push subscription belongs to another user.");
+    this.name = "PushSubscriptionOwnershipError";
+  }
+}
+
+export function createPushSubscriptionRepository(
+  supabase: SupabaseClient,
+): PushSubscriptionRepository {
+  async function save(
+    subscription: Omit<PushSubscriptionRecord, "id" | "createdAt">,
+  ): Promise<PushSubscriptionRecord> {
+    const { data: existing, error: fetchError } = await supabase
+      .from("push_subscriptions")
+      .select("user_id")
+      .eq("endpoint", subscription.endpoint);
+
+    if (fetchError)
+      throw new Error(
+        `Failed to fetch push subscription: ${fetchError.message}`,
+      );
+    if (existing?.some((row) => row.user_id !== subscription.userId))
+      throw new PushSubscriptionOwnershipError();
+
+    /* Only the owner's own row can match, so this never changes user_id */
+    const { data, error } = await supabase
+      .from("push_subscriptions")
+      .upsert(
+        {
+          user_id: subscription.userId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.p256dh,
+          auth: subscription.auth,
+        },
+        { onConflict: "endpoint" },
+      )
+      .select()
+      .single();
+
+    if (error)
+      throw new Error(`Failed to save push subscription: ${error.message}`);
+
+    return mapPushSubscriptionRow(data as PushSubscriptionRow);
+  }
+
+  async function listByUser(userId: string): Promise<PushSubscriptionRecord[]> {
+    const { data, error } = await supabase
+      .from("push_subscriptions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at");
+
+    if (error)
+      throw new Error(`Failed to fetch push subscriptions: ${error.message}`);
+
+    return (data as PushSubscriptionRow[]).map(mapPushSubscriptionRow);
+  }
+
+  async function remove(userId: string, endpoint: string): Promise<void> {
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .eq("user_id", userId)
+      .eq("endpoint", endpoint);
+
+    if (error)
+      throw new Error(`Failed to remove push subscription: ${error.message}`);
+  }
+
+  return { save, listByUser, remove };
+}
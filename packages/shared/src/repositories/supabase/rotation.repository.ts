@@ -70,6 +70,15 @@ export function createRotationRepository(
       throw new Error(`Failed to reset rotation queue: ${error.message}`);
   }
 
+  async function resetDailyUsage(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from("rotation_queue")
+      .update({ times_used_today: 0 })
+      .eq("user_id", userId);
+
+    if (error) throw new Error(`Failed to reset daily usage: ${error.message}`);
+  }
+
   async function getTodayUsageCount(
     userId: string,
     exerciseId: string,
@@ -126,6 +135,7 @@ export function createRotationRepository(
     getAvailable,
     markUsed,
     resetQueue,
+    resetDailyUsage,
     getTodayUsageCount,
     isSequenceUnique,
     recordSequence,
@@ -3,13 +3,23 @@
  *
  * User profile management and daily schedule operations.
  * Profile updates trigger updated_at automatically.
+ *
+ * Confirming a schedule first claims it (sets confirmed_at only if
+ * still null), then inserts every session in one statement. A failed
+ * insert releases the claim, so a day is never confirmed without its
+ * sessions, and two confirms can't both create them.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { ScheduleRepository } from "../interfaces/ScheduleRepository";
 import type { DailySchedule, UserProfile } from "../../types/schedule";
-import { mapUserProfileRow, mapDailyScheduleRow } from "./mappers";
-import type { UserProfileRow, DailyScheduleRow } from "./mappers";
+import type { Session } from "../../types/session";
+import {
+  mapUserProfileRow,
+  mapDailyScheduleRow,
+  mapSessionRow,
+} from "./mappers";
+import type { UserProfileRow, DailyScheduleRow, SessionRow } from "./mappers";
 
 export function createScheduleRepository(
   supabase: SupabaseClient,
@@ -56,6 +66,12 @@ export function createScheduleRepository(
     if (updates.themePreference !== undefined)
       row.theme_preference = updates.themePreference;
     if (updates.timezone !== undefined) row.timezone = updates.timezone;
+    if (updates.schedulingRules !== undefined)
+      row.scheduling_rules = updates.schedulingRules;
+    if (updates.calendarFeedToken !== undefined)
+      row.calendar_feed_token = updates.calendarFeedToken;
+    if (updates.onboardedAt !== undefined)
+      row.onboarded_at = updates.onboardedAt;
 
     const { data, error } = await supabase
       .from("user_profiles")
@@ -107,13 +123,68 @@ export function createScheduleRepository(
     return mapDailyScheduleRow(data as DailyScheduleRow);
   }
 
-  async function confirmSchedule(scheduleId: string): Promise<void> {
-    const { error } = await supabase
+  async function updateProposal(
+    scheduleId: string,
+    proposal: Pick<DailySchedule, "availabilityBlocks" | "proposedTimes">,
+  ): Promise<DailySchedule> {
+    const { data, error } = await supabase
+      .from("daily_schedules")
+      .update({
+        availability_blocks: proposal.availabilityBlocks,
+        proposed_times: proposal.proposedTimes,
+      })
+      .eq("id", scheduleId)
+      .is("confirmed_at", null)
+      .select();
+
+    if (error) throw new Error(`Failed to update schedule: ${error.message}`);
+
+    const row = (data as DailyScheduleRow[] | null)?.[0];
+    if (!row) throw new Error("Schedule is already confirmed.");
+
+    return mapDailyScheduleRow(row);
+  }
+
+  async function confirmSchedule(scheduleId: string): Promise<Session[]> {
+    const { data, error } = await supabase
       .from("daily_schedules")
       .update({ confirmed_at: new Date().toISOString() })
-      .eq("id", scheduleId);
+      .eq("id", scheduleId)
+      .is("confirmed_at", null)
+      .select();
 
     if (error) throw new Error(`Failed to confirm schedule: ${error.message}`);
+
+    const row = (data as DailyScheduleRow[] | null)?.[0];
+    if (!row) throw new Error("Schedule is already confirmed.");
+
+    const schedule = mapDailyScheduleRow(row);
+
+    const { data: sessions, error: insertError } = await supabase
+      .from("sessions")
+      .insert(
+        schedule.proposedTimes.map((slot) => ({
+          user_id: schedule.userId,
+          schedule_id: schedule.id,
+          slot_number: slot.slotNumber,
+          session_type: slot.sessionType,
+          status: "scheduled",
+          graded: slot.sessionType === "physical",
+          scheduled_time: slot.time,
+          defer_count: 0,
+        })),
+      )
+      .select();
+
+    if (insertError) {
+      await supabase
+        .from("daily_schedules")
+        .update({ confirmed_at: null })
+        .eq("id", scheduleId);
+      throw new Error(`Failed to create sessions: ${insertError.message}`);
+    }
+
+    return (sessions as SessionRow[]).map(mapSessionRow);
   }
 
   return {
@@ -121,6 +192,7 @@ export function createScheduleRepository(
     updateProfile,
     getSchedule,
     createSchedule,
+    updateProposal,
     confirmSchedule,
   };
 }
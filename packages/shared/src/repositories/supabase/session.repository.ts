@@ -1,15 +1,23 @@
 /**
  * Supabase Session Repository
  *
- * CRUD for workout sessions. Handles status transitions
- * and today's session queries with timezone-aware date filtering.
+ * CRUD for workout sessions. Handles status transitions (checked
+ * against the session-status table) and today's session queries
+ * with timezone-aware date filtering.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { SessionRepository } from "../interfaces/SessionRepository";
-import type { Session, SessionStatus } from "../../types/session";
-import { mapSessionRow } from "./mappers";
-import type { SessionRow } from "./mappers";
+import type { Exercise } from "../../types/exercise";
+import type {
+  Session,
+  SessionStatus,
+  SessionStatusChanges,
+} from "../../types/session";
+import { assertSessionTransition } from "../../engine/session-status";
+import { getZonedDayBounds, getZonedToday } from "../../engine/timezone";
+import { mapSessionRow, mapExerciseRow } from "./mappers";
+import type { SessionRow, ExerciseRow } from "./mappers";
 
 export function createSessionRepository(
   supabase: SupabaseClient,
@@ -42,18 +50,27 @@ export function createSessionRepository(
     return (data as SessionRow[]).map(mapSessionRow);
   }
 
+  /** The user's IANA timezone, falling back to UTC if no profile exists */
+  async function getUserTimeZone(userId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from("user_profiles")
+      .select("timezone")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error)
+      throw new Error(`Failed to fetch user timezone: ${error.message}`);
+
+    return (data as { timezone: string | null } | null)?.timezone ?? "UTC";
+  }
+
   async function getTodaySessions(userId: string): Promise<Session[]> {
-    const today = new Date();
-    const startOfDay = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate(),
-    ).toISOString();
-    const endOfDay = new Date(
-      today.getFullYear(),
-      today.getMonth(),
-      today.getDate() + 1,
-    ).toISOString();
+    /* "Today" is the user's local day, which may be 23 or 25 hours long */
+    const timeZone = await getUserTimeZone(userId);
+    const { start: startOfDay, end: endOfDay } = getZonedDayBounds(
+      getZonedToday(timeZone),
+      timeZone,
+    );
 
     const { data, error } = await supabase
       .from("sessions")
@@ -69,23 +86,63 @@ export function createSessionRepository(
     return (data as SessionRow[]).map(mapSessionRow);
   }
 
+  async function getSessionExercises(sessionId: string): Promise<Exercise[]> {
+    const { data, error } = await supabase
+      .from("session_exercises")
+      .select("exercises(*)")
+      .eq("session_id", sessionId)
+      .order("order_index");
+
+    if (error)
+      throw new Error(`Failed to fetch session exercises: ${error.message}`);
+
+    return (data as unknown as { exercises: ExerciseRow }[]).map((row) =>
+      mapExerciseRow(row.exercises),
+    );
+  }
+
   async function updateStatus(
     id: string,
     status: SessionStatus,
+    changes: SessionStatusChanges = {},
   ): Promise<void> {
+    const current = await getById(id);
+    if (!current) throw new Error("Session not found.");
+
+    assertSessionTransition(current.status, status);
+
     const updates: Record<string, unknown> = { status };
 
     /* Auto-set timestamps for key status transitions */
-    if (status === "in_progress") updates.started_at = new Date().toISOString();
+    if (status === "in_progress" && !current.startedAt)
+      updates.started_at = new Date().toISOString();
     if (status === "completed") updates.completed_at = new Date().toISOString();
 
-    const { error } = await supabase
+    if (changes.scheduledTime !== undefined)
+      updates.scheduled_time = changes.scheduledTime;
+    if (changes.deferredFrom !== undefined)
+      updates.deferred_from = changes.deferredFrom;
+    if (changes.deferCount !== undefined)
+      updates.defer_count = changes.deferCount;
+    if (changes.skipReason !== undefined)
+      updates.skip_reason = changes.skipReason;
+    if (changes.notificationToken !== undefined)
+      updates.notification_token = changes.notificationToken;
+    if (changes.notificationSentAt !== undefined)
+      updates.notification_sent_at = changes.notificationSentAt;
+
+    /* Only write if nobody changed the status since we read it */
+    const { data, error } = await supabase
       .from("sessions")
       .update(updates)
-      .eq("id", id);
+      .eq("id", id)
+      .eq("status", current.status)
+      .select("id");
 
     if (error)
       throw new Error(`Failed to update session status: ${error.message}`);
+    if (!data || data.length === 0)
+      throw new Error("Session status changed before the update was saved.");
   }
 
   async function create(
@@ -104,9 +161,12 @@ export function createSessionRepository(
         started_at: session.startedAt,
         completed_at: session.completedAt,
         deferred_from: session.deferredFrom,
+        defer_count: session.deferCount,
         skip_reason: session.skipReason,
         notification_token: session.notificationToken,
         notification_sent_at: session.notificationSentAt,
+        reflection_prompt: session.reflectionPrompt,
+        reflection_response: session.reflectionResponse,
       })
       .select()
       .single();
@@ -116,5 +176,12 @@ export function createSessionRepository(
     return mapSessionRow(data as SessionRow);
   }
 
-  return { getById, getBySchedule, getTodaySessions, updateStatus, create };
+  return {
+    getById,
+    getBySchedule,
+    getTodaySessions,
+    getSessionExercises,
+    updateStatus,
+    create,
+  };
 }
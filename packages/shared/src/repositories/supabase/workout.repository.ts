@@ -13,7 +13,12 @@ import type {
   WorkoutRepository,
   ExerciseResult,
 } from "../interfaces/WorkoutRepository";
-import type { ComposedWorkout } from "../../types/session";
+import type {
+  ComposedWorkout,
+  SessionReflection,
+  SessionStatus,
+} from "../../types/session";
+import { assertSessionTransition } from "../../engine/session-status";
 import { mapSessionRow, mapExerciseRow } from "./mappers";
 import type { SessionRow, ExerciseRow } from "./mappers";
 
@@ -50,6 +55,7 @@ export function createWorkoutRepository(
         const exercise = mapExerciseRow(row.exercises as ExerciseRow);
         return {
           exercise,
+          sessionExerciseId: row.id as string,
           orderIndex: row.order_index as number,
           videoUrl: exercise.videoUrl,
           captionUrl: exercise.captionUrl,
@@ -91,17 +97,51 @@ export function createWorkoutRepository(
       throw new Error(`Failed to record exercise result: ${error.message}`);
   }
 
-  async function completeSession(sessionId: string): Promise<void> {
+  async function recordReflection(
+    sessionId: string,
+    reflection: SessionReflection,
+  ): Promise<void> {
     const { error } = await supabase
+      .from("sessions")
+      .update({
+        reflection_prompt: reflection.prompt,
+        reflection_response: reflection.response,
+      })
+      .eq("id", sessionId);
+
+    if (error) throw new Error(`Failed to record reflection: ${error.message}`);
+  }
+
+  async function completeSession(sessionId: string): Promise<void> {
+    const { data: current, error: fetchError } = await supabase
+      .from("sessions")
+      .select("status")
+      .eq("id", sessionId)
+      .single();
+
+    if (fetchError || !current) throw new Error("Session not found.");
+
+    assertSessionTransition(current.status as SessionStatus, "completed");
+
+    const { data, error } = await supabase
       .from("sessions")
       .update({
         status: "completed",
         completed_at: new Date().toISOString(),
       })
-      .eq("id", sessionId);
+      .eq("id", sessionId)
+      .eq("status", current.status)
+      .select("id");
 
     if (error) throw new Error(`Failed to complete session: ${error.message}`);
+    if (!data || data.length === 0)
+      throw new Error("Session status changed before it was completed.");
   }
 
-  return { composeWorkout, recordExerciseResult, completeSession };
+  return {
+    composeWorkout,
+    recordExerciseResult,
+    recordReflection,
+    completeSession,
+  };
 }
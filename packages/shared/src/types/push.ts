@@ -0,0 +1,16 @@
+/**
+ * A browser's Web Push subscription for one user.
+ * Maps to the `push_subscriptions` table; one row per endpoint,
+ * so a user with several browsers has several rows.
+ */
+export interface PushSubscriptionRecord {
+  id: string;
+  userId: string;
+  /** Push service URL the notification is POSTed to */
+  endpoint: string;
+  /** Browser's P-256 public key, base64url */
+  p256dh: string;
+  /** Browser's 16-byte auth secret, base64url */
+  auth: string;
+  createdAt: string;
+}
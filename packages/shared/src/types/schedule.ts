@@ -19,14 +19,54 @@ export interface UserProfile {
   notificationPhone: string | null;
   themePreference: ThemePreference;
   timezone: string;
+  /** Overrides for the default scheduling rules; null = all defaults */
+  schedulingRules: Partial<SchedulingRules> | null;
+  /** Secret for the subscribable calendar feed; null = feed disabled */
+  calendarFeedToken: string | null;
+  /** When the user finished onboarding; null = not yet */
+  onboardedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
-export type NotificationChannel = "email" | "sms";
+export type NotificationChannel = "email" | "sms" | "push";
 
 export type ThemePreference = "system" | "light" | "dark";
 
+/**
+ * Tunable constraints for placing a day's sessions.
+ * The last slot of the day is always the mental session.
+ */
+export interface SchedulingRules {
+  /** Sessions per day, 1–6 */
+  totalSlots: number;
+  /** Workout-free minutes at the start of the work window */
+  startupBufferMinutes: number;
+  /** Minimum minutes between the starts of any two sessions */
+  minGapMinutes: number;
+  sessionDurationMinutes: number;
+  /** The mental session starts between these many minutes before shift end */
+  mentalSlotBufferMinMinutes: number;
+  mentalSlotBufferMaxMinutes: number;
+  /** Times a session can be deferred and rescheduled before it's missed */
+  maxDeferrals: number;
+}
+
+/** 0 = Sunday … 6 = Saturday, matching Date#getUTCDay */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** Work hours for one day of the week, "HH:MM" */
+export interface WorkDay {
+  start: string;
+  end: string;
+}
+
+/**
+ * A user's regular working week, e.g. Mon–Thu 09:00–17:00,
+ * Fri 09:00–13:00. Null (or missing) days are days off.
+ */
+export type WorkPattern = Partial<Record<Weekday, WorkDay | null>>;
+
 /**
  * A block of time within the work window where the user is available.
  * Users define these via the availability slider UI.
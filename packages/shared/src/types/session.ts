@@ -16,12 +16,30 @@ export interface Session {
   startedAt: string | null;
   completedAt: string | null;
   deferredFrom: string | null;
+  /** Times this session has been deferred and rescheduled */
+  deferCount: number;
   skipReason: string | null;
   notificationToken: string | null;
   notificationSentAt: string | null;
+  /** Prompt shown after the breathing exercise, if the user answered it */
+  reflectionPrompt: string | null;
+  reflectionResponse: string | null;
   createdAt: string;
 }
 
+/** Columns written alongside a status change */
+export type SessionStatusChanges = Partial<
+  Pick<
+    Session,
+    | "scheduledTime"
+    | "deferredFrom"
+    | "deferCount"
+    | "skipReason"
+    | "notificationToken"
+    | "notificationSentAt"
+  >
+>;
+
 export type SlotNumber = 1 | 2 | 3 | 4 | 5 | 6;
 
 export type SessionType = "physical" | "mental";
@@ -63,6 +81,8 @@ export interface ComposedWorkout {
 
 export interface ComposedExercise {
   exercise: Exercise;
+  /** The `session_exercises` row results are recorded against. Null until written. */
+  sessionExerciseId: string | null;
   orderIndex: number;
   videoUrl: string;
   captionUrl: string | null;
@@ -76,6 +96,12 @@ export interface MeditationConfig {
   reflectionPrompt: string | null;
 }
 
+/** The user's answer to a meditation's reflection prompt */
+export interface SessionReflection {
+  prompt: string;
+  response: string;
+}
+
 export interface BreathingPattern {
   inhaleSeconds: number;
   holdSeconds: number;
@@ -0,0 +1,108 @@
+/**
+ * Calendar Feed Endpoint
+ *
+ * Serves a user's confirmed schedules as an iCalendar feed, for
+ * subscribing from Outlook or Google Calendar. Authenticated by the
+ * per-user feed token in the URL — calendar clients can't send
+ * headers, and resetting the token revokes every subscription.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import { renderCalendarFeed } from "../../lib/calendar/feed";
+import type { FeedSession } from "../../lib/calendar/feed";
+import { getZonedToday, resolveSchedulingRules } from "@myonites/shared";
+import type { SchedulingRules } from "@myonites/shared";
+
+/** Days of past schedules kept in the feed */
+const FEED_HISTORY_DAYS = 14;
+
+const schema = z.object({
+  token: z.string().min(1),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const parsed = schema.safeParse(req.query);
+
+  if (!parsed.success) {
+    return error(res, "Invalid request. Requires token.");
+  }
+
+  const { token } = parsed.data;
+
+  try {
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("id, display_name, timezone, scheduling_rules")
+      .eq("calendar_feed_token", token)
+      .single();
+
+    if (!profile) {
+      return error(res, "Invalid feed token.", 403);
+    }
+
+    const today = getZonedToday(profile.timezone ?? "UTC");
+    const since = new Date(Date.parse(today) - FEED_HISTORY_DAYS * 86400000)
+      .toISOString()
+      .slice(0, 10);
+
+    const { data: schedules, error: scheduleError } = await supabase
+      .from("daily_schedules")
+      .select("id")
+      .eq("user_id", profile.id)
+      .not("confirmed_at", "is", null)
+      .gte("date", since);
+
+    if (scheduleError) {
+      return error(res, `Query failed: ${scheduleError.message}`, 500);
+    }
+
+    const scheduleIds = (schedules ?? []).map((s) => s.id as string);
+    let sessions: FeedSession[] = [];
+
+    if (scheduleIds.length > 0) {
+      const { data: rows, error: sessionError } = await supabase
+        .from("sessions")
+        .select("id, slot_number, session_type, status, scheduled_time")
+        .in("schedule_id", scheduleIds)
+        .order("scheduled_time");
+
+      if (sessionError) {
+        return error(res, `Query failed: ${sessionError.message}`, 500);
+      }
+
+      sessions = (rows ?? []).map((row) => ({
+        id: row.id,
+        slotNumber: row.slot_number,
+        sessionType: row.session_type,
+        status: row.status,
+        scheduledTime: row.scheduled_time,
+      }));
+    }
+
+    const rules = resolveSchedulingRules(
+      profile.scheduling_rules as Partial<SchedulingRules> | null,
+    );
+
+    const ics = renderCalendarFeed(sessions, {
+      sessionDurationMinutes: rules.sessionDurationMinutes,
+      calendarName: profile.display_name
+        ? `Musclaris — ${profile.display_name}`
+        : "Musclaris",
+    });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "private, max-age=300");
+    return res.status(200).send(ics);
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Failed to render calendar feed.";
+    return error(res, message, 500);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Short Notification Links
+ *
+ * SMS notifications link here with a short code (`c` to confirm,
+ * `s` to skip) instead of the full session ID and token. The code
+ * is resolved to its notified session and the request redirected
+ * to the token-protected confirm or skip route.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { error } from "../lib/response";
+import { findSessionByShortCode } from "../lib/tokens";
+import { buildConfirmUrl, buildSkipUrl } from "../lib/notifications/templates";
+
+const schema = z
+  .object({ c: z.string().min(1).optional(), s: z.string().min(1).optional() })
+  .refine((query) => (query.c === undefined) !== (query.s === undefined));
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const parsed = schema.safeParse(req.query);
+  if (!parsed.success) {
+    return error(res, "Invalid link.");
+  }
+
+  const { c, s } = parsed.data;
+  const isConfirm = c !== undefined;
+  const code = c ?? s ?? "";
+
+  try {
+    const session = await findSessionByShortCode(code);
+    if (!session) {
+      return error(res, "This link has expired or was already used.", 404);
+    }
+
+    const target = isConfirm
+      ? buildConfirmUrl(session.sessionId, session.token)
+      : buildSkipUrl(session.sessionId, session.token);
+
+    return res.redirect(302, target);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Link lookup failed.";
+    return error(res, message, 500);
+  }
+}
@@ -3,12 +3,15 @@
  *
  * Called by Vercel Cron every minute. Finds sessions that
  * were notified over 1 minute ago with no response and
- * auto-defers them.
+ * auto-defers them, then reschedules each one later in the
+ * day (or marks it missed).
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { success, error } from "../../lib/response";
 import { supabase } from "../../lib/supabase";
+import { rescheduleDeferredSession } from "../../lib/rescheduling";
+import { createSessionRepository } from "@myonites/shared";
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const DEFER_AFTER_MINUTES = 1;
@@ -39,24 +42,34 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return success(res, { deferred: 0 });
     }
 
+    const sessionRepo = createSessionRepository(supabase);
     const deferred = [];
 
     for (const session of stale) {
-      const { error: updateError } = await supabase
-        .from("sessions")
-        .update({
-          status: "deferred",
-          deferred_from: session.scheduled_time,
-          notification_token: null,
-        })
-        .eq("id", session.id);
+      /* Skips sessions the user answered since the query ran */
+      try {
+        await sessionRepo.updateStatus(session.id, "deferred", {
+          deferredFrom: session.scheduled_time,
+          notificationToken: null,
+        });
+      } catch {
+        continue;
+      }
 
-      if (!updateError) {
-        deferred.push(session.id);
+      /* A failed reschedule leaves this one deferred; keep sweeping the rest */
+      try {
+        const result = await rescheduleDeferredSession(session.id);
+        deferred.push({ sessionId: session.id, ...result });
+      } catch (err) {
+        deferred.push({
+          sessionId: session.id,
+          status: "deferred",
+          error: err instanceof Error ? err.message : "Reschedule failed.",
+        });
       }
     }
 
-    return success(res, { deferred: deferred.length, sessionIds: deferred });
+    return success(res, { deferred: deferred.length, results: deferred });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Defer check failed.";
     return error(res, message, 500);
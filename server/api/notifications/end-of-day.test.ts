@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type * as Shared from "@myonites/shared";
+
+const mockResetDailyUsage = vi.hoisted(() => vi.fn());
+const db = vi.hoisted(() => ({
+  profiles: [] as { id: string; timezone: string; last_closed_date: null }[],
+  ranges: [] as [number, number][],
+  closed: [] as string[],
+  failUpdateFor: null as string | null,
+}));
+
+/* Just enough of the query builder for the sweep's three queries */
+vi.mock("../../lib/supabase", () => ({
+  supabase: {
+    from: (table: string) => {
+      if (table === "sessions") {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          in: () => query,
+          lt: async () => ({ data: [], error: null }),
+        };
+        return query;
+      }
+      return {
+        select: () => ({
+          order: () => ({
+            range: async (from: number, to: number) => {
+              db.ranges.push([from, to]);
+              return { data: db.profiles.slice(from, to + 1), error: null };
+            },
+          }),
+        }),
+        update: () => ({
+          eq: async (_column: string, id: string) => {
+            if (id === db.failUpdateFor) {
+              return { error: { message: "write failed" } };
+            }
+            db.closed.push(id);
+            return { error: null };
+          },
+        }),
+      };
+    },
+  },
+}));
+
+vi.mock("@myonites/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof Shared>()),
+  createRotationRepository: () => ({ resetDailyUsage: mockResetDailyUsage }),
+  createSessionRepository: () => ({ updateStatus: vi.fn() }),
+}));
+
+import endOfDay from "./end-of-day";
+
+async function sweep() {
+  const result = { status: 0, body: undefined as unknown };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await endOfDay(
+    { method: "GET", headers: {} } as VercelRequest,
+    res as unknown as VercelResponse,
+  );
+  return result as {
+    status: number;
+    body: { data: { results: { userId: string; error?: string }[] } };
+  };
+}
+
+function users(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `user-${i}`,
+    timezone: "UTC",
+    last_closed_date: null,
+  }));
+}
+
+describe("end-of-day sweep", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.profiles = users(3);
+    db.ranges = [];
+    db.closed = [];
+    db.failUpdateFor = null;
+    mockResetDailyUsage.mockResolvedValue(undefined);
+  });
+
+  it("keeps closing out other users when one fails", async () => {
+    mockResetDailyUsage.mockImplementation(async (userId: string) => {
+      if (userId === "user-0") throw new Error("reset failed");
+    });
+
+    const { status, body } = await sweep();
+
+    expect(status).toBe(200);
+    expect(db.closed).toEqual(["user-1", "user-2"]);
+    expect(body.data.results[0]).toEqual({
+      userId: "user-0",
+      error: "reset failed",
+    });
+  });
+
+  it("reports a failed close-out write instead of counting it closed", async () => {
+    db.failUpdateFor = "user-1";
+
+    const { body } = await sweep();
+
+    expect(body.data.results[1]?.error).toContain("write failed");
+  });
+
+  it("pages through every profile", async () => {
+    db.profiles = users(1500);
+
+    await sweep();
+
+    expect(db.ranges).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+    expect(db.closed).toHaveLength(1500);
+  });
+});
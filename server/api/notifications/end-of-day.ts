@@ -0,0 +1,157 @@
+/**
+ * End-of-Day Sweep (Cron Endpoint)
+ *
+ * Called by Vercel Cron every 15 minutes. For each user whose
+ * local day has rolled over since their last close-out, finalises
+ * every session still open from earlier days (see day-close.ts)
+ * and resets the rotation queue's daily usage counts.
+ * `user_profiles.last_closed_date` records the local date each
+ * user was last closed for, so every user is swept once per day
+ * in their own timezone. Profiles are read a page at a time, and
+ * one user's failure is recorded without stopping the sweep.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { success, error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import {
+  OPEN_SESSION_STATUSES,
+  createRotationRepository,
+  createSessionRepository,
+  getCloseOutStatus,
+  getZonedDayBounds,
+  getZonedToday,
+} from "@myonites/shared";
+import type {
+  RotationRepository,
+  SessionRepository,
+  SessionStatus,
+} from "@myonites/shared";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+/* PostgREST caps a response at 1000 rows by default */
+const PROFILE_PAGE_SIZE = 1000;
+
+/**
+ * Close out one user's finished days. Returns null if they were
+ * already closed for today; throws if any step fails, so the
+ * sweep can record it and move on to the next user.
+ */
+async function closeOutUser(
+  profile: {
+    id: string;
+    timezone: string | null;
+    last_closed_date: string | null;
+  },
+  now: Date,
+  repos: { rotationRepo: RotationRepository; sessionRepo: SessionRepository },
+): Promise<{
+  userId: string;
+  date: string;
+  missed: number;
+  completed: number;
+} | null> {
+  const timezone = profile.timezone ?? "UTC";
+  const today = getZonedToday(timezone, now);
+  if (profile.last_closed_date === today) return null;
+
+  /* Everything before local midnight belongs to a finished day */
+  const { start: todayStart } = getZonedDayBounds(today, timezone);
+
+  const { data: stale, error: staleError } = await supabase
+    .from("sessions")
+    .select("id, status, session_exercises(completed_at)")
+    .eq("user_id", profile.id)
+    .in("status", OPEN_SESSION_STATUSES)
+    .lt("scheduled_time", todayStart);
+
+  if (staleError) throw new Error(staleError.message);
+
+  let missed = 0;
+  let completed = 0;
+
+  for (const session of stale ?? []) {
+    const exercises = (session.session_exercises ?? []) as {
+      completed_at: string | null;
+    }[];
+    const status = getCloseOutStatus(session.status as SessionStatus, {
+      total: exercises.length,
+      completed: exercises.filter((e) => e.completed_at !== null).length,
+    });
+    if (!status) continue;
+
+    /* Skips sessions that changed status since the query ran */
+    try {
+      await repos.sessionRepo.updateStatus(session.id, status, {
+        notificationToken: null,
+      });
+    } catch {
+      continue;
+    }
+    if (status === "completed") completed++;
+    else missed++;
+  }
+
+  await repos.rotationRepo.resetDailyUsage(profile.id);
+
+  const { error: updateError } = await supabase
+    .from("user_profiles")
+    .update({ last_closed_date: today })
+    .eq("id", profile.id);
+
+  if (updateError) {
+    throw new Error(`Failed to record close-out: ${updateError.message}`);
+  }
+
+  return { userId: profile.id, date: today, missed, completed };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    return error(res, "Unauthorized.", 401);
+  }
+
+  try {
+    const now = new Date();
+    const rotationRepo = createRotationRepository(supabase);
+    const sessionRepo = createSessionRepository(supabase);
+
+    const results = [];
+
+    for (let page = 0; ; page++) {
+      const { data: profiles, error: queryError } = await supabase
+        .from("user_profiles")
+        .select("id, timezone, last_closed_date")
+        .order("id")
+        .range(page * PROFILE_PAGE_SIZE, (page + 1) * PROFILE_PAGE_SIZE - 1);
+
+      if (queryError) {
+        return error(res, `Query failed: ${queryError.message}`, 500);
+      }
+
+      for (const profile of profiles ?? []) {
+        try {
+          const result = await closeOutUser(profile, now, {
+            rotationRepo,
+            sessionRepo,
+          });
+          if (result) results.push(result);
+        } catch (err) {
+          results.push({
+            userId: profile.id,
+            error: err instanceof Error ? err.message : "Close-out failed.",
+          });
+        }
+      }
+
+      if (!profiles || profiles.length < PROFILE_PAGE_SIZE) break;
+    }
+
+    return success(res, { closed: results.length, results });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "End-of-day sweep failed.";
+    return error(res, message, 500);
+  }
+}
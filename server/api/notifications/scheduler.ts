@@ -3,16 +3,33 @@
  *
  * Called by Vercel Cron every minute. Finds sessions
  * scheduled within the next 5 minutes that haven't been
- * notified yet, and sends notification emails.
+ * notified yet, and sends each by the user's chosen channel
+ * (email, SMS or Web Push). Sessions are stored as absolute instants, so
+ * the window is timezone-free; notifications show the time in
+ * the user's own timezone.
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { success, error } from "../../lib/response";
 import { supabase } from "../../lib/supabase";
-import { sendSessionNotification } from "../../lib/notifications/send";
+import {
+  createPushSubscriptionRepository,
+  resolveSchedulingRules,
+} from "@myonites/shared";
+import type { NotificationChannel, SchedulingRules } from "@myonites/shared";
+import {
+  getNotificationRecipient,
+  sendSessionNotification,
+} from "../../lib/notifications/send";
 
 const CRON_SECRET = process.env.CRON_SECRET;
 
+const MISSING_ADDRESS: Record<NotificationChannel, string> = {
+  email: "no email",
+  sms: "no phone",
+  push: "no push subscription",
+};
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   /* Verify cron secret to prevent unauthorized triggers */
   const authHeader = req.headers.authorization;
@@ -40,21 +57,43 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return success(res, { notified: 0 });
     }
 
+    const pushSubscriptionRepo = createPushSubscriptionRepository(supabase);
     const results = [];
 
     for (const session of sessions) {
-      /* Get user's notification email */
+      /* Get where the user wants notifications sent */
       const { data: profile } = await supabase
         .from("user_profiles")
-        .select("notification_email")
+        .select(
+          "notification_channel, notification_email, notification_phone, timezone, scheduling_rules",
+        )
         .eq("id", session.user_id)
         .single();
 
-      if (!profile?.notification_email) {
+      const channel = profile?.notification_channel ?? "email";
+      const pushSubscriptions =
+        channel === "push"
+          ? await pushSubscriptionRepo
+              .listByUser(session.user_id)
+              .catch(() => [])
+          : [];
+      const recipient = profile
+        ? getNotificationRecipient(
+            {
+              id: session.user_id,
+              notificationChannel: channel,
+              notificationEmail: profile.notification_email,
+              notificationPhone: profile.notification_phone,
+            },
+            pushSubscriptions,
+          )
+        : null;
+
+      if (!profile || !recipient) {
         results.push({
           sessionId: session.id,
           status: "skipped",
-          reason: "no email",
+          reason: MISSING_ADDRESS[channel as NotificationChannel] ?? "no email",
         });
         continue;
       }
@@ -88,9 +127,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const result = await sendSessionNotification(
         session.id,
-        profile.notification_email,
+        recipient,
         session.slot_number,
+        resolveSchedulingRules(
+          profile.scheduling_rules as Partial<SchedulingRules> | null,
+        ).totalSlots,
         session.scheduled_time,
+        profile.timezone ?? "UTC",
         session.session_type,
         uniqueGroups,
       );
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type * as Shared from "@myonites/shared";
+
+const mockSave = vi.hoisted(() => vi.fn());
+
+vi.mock("../../lib/supabase", () => ({ supabase: {} }));
+
+vi.mock("../../lib/auth", () => ({
+  getAuthenticatedUserId: async () => "user-1",
+}));
+
+vi.mock("@myonites/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof Shared>()),
+  createPushSubscriptionRepository: () => ({ save: mockSave }),
+}));
+
+import { PushSubscriptionOwnershipError } from "@myonites/shared";
+import subscribe from "./subscribe";
+
+async function post(endpoint: string) {
+  const result = { status: 0 };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json() {
+      return res;
+    },
+  };
+  await subscribe(
+    {
+      method: "POST",
+      headers: {},
+      body: { endpoint, keys: { p256dh: "BNcR", auth: "tBHI" } },
+    } as VercelRequest,
+    res as unknown as VercelResponse,
+  );
+  return result;
+}
+
+describe("subscribe route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSave.mockImplementation(async (subscription: object) => subscription);
+  });
+
+  it("saves a subscription on a known push service", async () => {
+    expect((await post("https://fcm.googleapis.com/fcm/send/abc")).status).toBe(
+      201,
+    );
+  });
+
+  it("refuses an endpoint on any other host", async () => {
+    expect((await post("https://internal.example/hook")).status).toBe(400);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it("refuses another user's endpoint", async () => {
+    mockSave.mockRejectedValue(new PushSubscriptionOwnershipError());
+
+    expect((await post("https://fcm.googleapis.com/fcm/send/abc")).status).toBe(
+      409,
+    );
+  });
+});
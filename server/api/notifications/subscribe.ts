@@ -0,0 +1,89 @@
+/**
+ * Push Subscription Endpoint
+ *
+ * GET returns the server's VAPID public key, which the app needs
+ * to subscribe a browser. POST stores the signed-in user's browser
+ * subscription (the JSON from `PushSubscription.toJSON()`), if its
+ * endpoint is on a known push service and not another user's; DELETE
+ * with `{ endpoint }` removes it, e.g. when they switch channel.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { getAuthenticatedUserId } from "../../lib/auth";
+import { success, error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import { isPushServiceEndpoint } from "../../lib/notifications/webpush.provider";
+import {
+  createPushSubscriptionRepository,
+  PushSubscriptionOwnershipError,
+} from "@myonites/shared";
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY;
+
+const base64Url = z.string().regex(/^[A-Za-z0-9_-]+=*$/);
+
+const subscribeSchema = z.object({
+  endpoint: z
+    .string()
+    .refine(isPushServiceEndpoint, "Endpoint is not a known push service."),
+  keys: z.object({ p256dh: base64Url, auth: base64Url }),
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url(),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === "GET") {
+    if (!VAPID_PUBLIC_KEY) {
+      return error(res, "Push notifications are not configured.", 503);
+    }
+    return success(res, { publicKey: VAPID_PUBLIC_KEY });
+  }
+
+  if (req.method !== "POST" && req.method !== "DELETE") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const userId = await getAuthenticatedUserId(req);
+  if (!userId) {
+    return error(res, "Unauthorized.", 401);
+  }
+
+  const repo = createPushSubscriptionRepository(supabase);
+
+  try {
+    if (req.method === "DELETE") {
+      const parsed = unsubscribeSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return error(res, "Invalid request. Requires endpoint.");
+      }
+
+      await repo.remove(userId, parsed.data.endpoint);
+      return success(res, { endpoint: parsed.data.endpoint });
+    }
+
+    const parsed = subscribeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return error(res, `Invalid subscription: ${parsed.error.message}`);
+    }
+
+    const { endpoint, keys } = parsed.data;
+    const subscription = await repo.save({
+      userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+    });
+
+    return success(res, { subscription }, 201);
+  } catch (err) {
+    if (err instanceof PushSubscriptionOwnershipError) {
+      return error(res, err.message, 409);
+    }
+    const message =
+      err instanceof Error ? err.message : "Failed to update subscription.";
+    return error(res, message, 500);
+  }
+}
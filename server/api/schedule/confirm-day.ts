@@ -0,0 +1,71 @@
+/**
+ * Day Confirmation Endpoint
+ *
+ * Confirms the signed-in user's schedule for today. The proposed
+ * slots are checked with validateFullSchedule, then the schedule is
+ * marked confirmed and one `sessions` row is created per slot (with
+ * its slot number and session type) in a single step; see
+ * ScheduleRepository.confirmSchedule.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getAuthenticatedUserId } from "../../lib/auth";
+import { success, error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import {
+  createScheduleRepository,
+  getZonedToday,
+  validateFullSchedule,
+} from "@myonites/shared";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const userId = await getAuthenticatedUserId(req);
+  if (!userId) {
+    return error(res, "Unauthorized.", 401);
+  }
+
+  try {
+    const scheduleRepo = createScheduleRepository(supabase);
+
+    const profile = await scheduleRepo.getProfile(userId);
+    if (!profile) {
+      return error(res, "Profile not found.", 404);
+    }
+
+    const schedule = await scheduleRepo.getSchedule(
+      userId,
+      getZonedToday(profile.timezone),
+    );
+    if (!schedule) {
+      return error(res, "No schedule proposed for today.", 404);
+    }
+    if (schedule.confirmedAt) {
+      return error(res, "Today's schedule is already confirmed.", 409);
+    }
+    if (schedule.proposedTimes.length === 0) {
+      return error(res, "Today's schedule has no sessions to confirm.", 422);
+    }
+
+    const check = validateFullSchedule(
+      schedule.proposedTimes,
+      schedule.availabilityBlocks,
+      profile.timezone,
+      profile.schedulingRules,
+    );
+    if (!check.valid) {
+      return error(res, check.error ?? "Invalid schedule.", 422);
+    }
+
+    const sessions = await scheduleRepo.confirmSchedule(schedule.id);
+
+    return success(res, { scheduleId: schedule.id, sessions }, 201);
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Failed to confirm schedule.";
+    return error(res, message, 500);
+  }
+}
@@ -8,6 +8,7 @@ import {
   createExerciseRepository,
   createSessionRepository,
   createRotationRepository,
+  InvalidSessionTransitionError,
 } from "@myonites/shared";
 
 const schema = z.object({
@@ -58,13 +59,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       await rotationRepo.markUsed(session.userId, exercise.exercise.id);
     }
 
-    /* Write session_exercises rows */
+    /* Write session_exercises rows so results can be recorded against them */
     for (const exercise of workout.exercises) {
-      await supabase.from("session_exercises").insert({
-        session_id: sessionId,
-        exercise_id: exercise.exercise.id,
-        order_index: exercise.orderIndex,
-      });
+      const { data: row } = await supabase
+        .from("session_exercises")
+        .insert({
+          session_id: sessionId,
+          exercise_id: exercise.exercise.id,
+          order_index: exercise.orderIndex,
+        })
+        .select("id")
+        .single();
+
+      exercise.sessionExerciseId = (row?.id as string | undefined) ?? null;
     }
 
     /* Invalidate the token by clearing it */
@@ -75,6 +82,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     return success(res, { workout });
   } catch (err) {
+    if (err instanceof InvalidSessionTransitionError) {
+      return error(res, err.message, 409);
+    }
     const message =
       err instanceof Error ? err.message : "Failed to compose workout.";
     return error(res, message, 500);
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type * as Shared from "@myonites/shared";
+
+const mockUpdateStatus = vi.hoisted(() => vi.fn());
+const mockReschedule = vi.hoisted(() => vi.fn());
+
+const SESSION_ID = "3f1c2b9e-8a7d-4c6b-9e5f-1a2b3c4d5e6f";
+
+vi.mock("../../lib/supabase", () => ({ supabase: {} }));
+
+vi.mock("../../lib/rescheduling", () => ({
+  rescheduleDeferredSession: (...args: unknown[]) => mockReschedule(...args),
+}));
+
+vi.mock("@myonites/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof Shared>()),
+  createSessionRepository: () => ({
+    getById: async () => ({
+      id: SESSION_ID,
+      scheduledTime: "2026-03-09T14:00:00Z",
+    }),
+    updateStatus: mockUpdateStatus,
+  }),
+}));
+
+import defer from "./defer";
+
+async function call() {
+  const result = { status: 0, body: undefined as unknown };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await defer(
+    {
+      method: "POST",
+      headers: {},
+      body: { sessionId: SESSION_ID },
+    } as VercelRequest,
+    res as unknown as VercelResponse,
+  );
+  return result as { status: number; body: { data: unknown } };
+}
+
+describe("defer route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateStatus.mockResolvedValue(undefined);
+  });
+
+  it("returns the replacement slot", async () => {
+    mockReschedule.mockResolvedValue({
+      status: "scheduled",
+      scheduledTime: "2026-03-09T15:00:00Z",
+    });
+
+    const { status, body } = await call();
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual({
+      sessionId: SESSION_ID,
+      rescheduled: true,
+      status: "scheduled",
+      scheduledTime: "2026-03-09T15:00:00Z",
+    });
+  });
+
+  it("reports a failed reschedule alongside the saved deferral", async () => {
+    mockReschedule.mockRejectedValue(new Error("Profile not found."));
+
+    const { status, body } = await call();
+
+    expect(mockUpdateStatus).toHaveBeenCalledWith(
+      SESSION_ID,
+      "deferred",
+      expect.anything(),
+    );
+    expect(status).toBe(200);
+    expect(body.data).toEqual({
+      sessionId: SESSION_ID,
+      status: "deferred",
+      rescheduled: false,
+      reason: "Profile not found.",
+    });
+  });
+});
@@ -2,7 +2,11 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { z } from "zod";
 import { success, error } from "../../lib/response";
 import { supabase } from "../../lib/supabase";
-import { createSessionRepository } from "@myonites/shared";
+import { rescheduleDeferredSession } from "../../lib/rescheduling";
+import {
+  createSessionRepository,
+  InvalidSessionTransitionError,
+} from "@myonites/shared";
 
 const schema = z.object({
   sessionId: z.string().uuid(),
@@ -29,21 +33,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return error(res, "Session not found.", 404);
     }
 
-    if (session.status !== "notified") {
-      return error(res, `Cannot defer session with status: ${session.status}.`);
-    }
-
-    await supabase
-      .from("sessions")
-      .update({
+    await sessionRepo.updateStatus(sessionId, "deferred", {
+      deferredFrom: session.scheduledTime,
+      notificationToken: null,
+    });
+
+    /* The deferral is saved either way; report a failed reschedule
+       rather than a 500, as the defer-check sweep does */
+    try {
+      const result = await rescheduleDeferredSession(sessionId);
+      return success(res, { sessionId, rescheduled: true, ...result });
+    } catch (err) {
+      return success(res, {
+        sessionId,
         status: "deferred",
-        deferred_from: session.scheduledTime,
-        notification_token: null,
-      })
-      .eq("id", sessionId);
-
-    return success(res, { sessionId, status: "deferred" });
+        rescheduled: false,
+        reason: err instanceof Error ? err.message : "Reschedule failed.",
+      });
+    }
   } catch (err) {
+    if (err instanceof InvalidSessionTransitionError) {
+      return error(res, err.message, 409);
+    }
     const message =
       err instanceof Error ? err.message : "Failed to defer session.";
     return error(res, message, 500);
@@ -0,0 +1,112 @@
+/**
+ * Slot Move Endpoint
+ *
+ * Moves one slot of the signed-in user's unconfirmed schedule for
+ * today. The move is checked with validateSlotMove against the
+ * day's availability and the user's rules; the saved slots stay in
+ * time order and are renumbered.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { getAuthenticatedUserId } from "../../lib/auth";
+import { success, error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import {
+  createScheduleRepository,
+  getZonedToday,
+  moveSlot,
+  validateFullSchedule,
+  validateSlotMove,
+} from "@myonites/shared";
+
+const schema = z.object({
+  slotNumber: z.number().int().min(1).max(6),
+  /** ISO 8601; without an offset it's read in the user's timezone */
+  time: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const userId = await getAuthenticatedUserId(req);
+  if (!userId) {
+    return error(res, "Unauthorized.", 401);
+  }
+
+  const parsed = schema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return error(res, "Invalid request. Requires slotNumber and time.");
+  }
+
+  const { slotNumber, time } = parsed.data;
+
+  try {
+    const scheduleRepo = createScheduleRepository(supabase);
+
+    const profile = await scheduleRepo.getProfile(userId);
+    if (!profile) {
+      return error(res, "Profile not found.", 404);
+    }
+
+    const schedule = await scheduleRepo.getSchedule(
+      userId,
+      getZonedToday(profile.timezone),
+    );
+    if (!schedule) {
+      return error(res, "No schedule proposed for today.", 404);
+    }
+    if (schedule.confirmedAt) {
+      return error(res, "Today's schedule is already confirmed.", 409);
+    }
+    if (!schedule.proposedTimes.some((s) => s.slotNumber === slotNumber)) {
+      return error(res, `Slot ${slotNumber} is not on today's schedule.`);
+    }
+
+    const moveCheck = validateSlotMove(
+      slotNumber,
+      time,
+      schedule.proposedTimes,
+      schedule.availabilityBlocks,
+      profile.timezone,
+      profile.schedulingRules,
+    );
+    if (!moveCheck.valid) {
+      return error(res, moveCheck.error ?? "Invalid move.", 422);
+    }
+
+    const proposedTimes = moveSlot(
+      slotNumber,
+      time,
+      schedule.proposedTimes,
+      profile.timezone,
+    );
+    if (proposedTimes.some((s) => !s.time.startsWith(schedule.date))) {
+      return error(res, "Slots must stay on the scheduled day.", 422);
+    }
+
+    /* A move can still reorder the day past the mental session */
+    const dayCheck = validateFullSchedule(
+      proposedTimes,
+      schedule.availabilityBlocks,
+      profile.timezone,
+      profile.schedulingRules,
+    );
+    if (!dayCheck.valid) {
+      return error(res, dayCheck.error ?? "Invalid move.", 422);
+    }
+
+    const updated = await scheduleRepo.updateProposal(schedule.id, {
+      availabilityBlocks: schedule.availabilityBlocks,
+      proposedTimes,
+    });
+
+    return success(res, { schedule: updated });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to move slot.";
+    return error(res, message, 500);
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type * as Shared from "@myonites/shared";
+import type { DailySchedule, UserProfile } from "@myonites/shared";
+
+/* An in-memory schedule repository shared by both routes */
+const store = vi.hoisted(() => ({
+  profile: null as UserProfile | null,
+  schedules: [] as DailySchedule[],
+  /* Replaces the engine's proposal when set */
+  proposal: null as Shared.ScheduleProposal | null,
+}));
+
+vi.mock("../../lib/supabase", () => ({ supabase: {} }));
+
+vi.mock("../../lib/auth", () => ({
+  getAuthenticatedUserId: vi.fn().mockResolvedValue("user-1"),
+}));
+
+vi.mock("@myonites/shared", async (importOriginal) => {
+  const shared = await importOriginal<typeof Shared>();
+  return {
+    ...shared,
+    proposeSchedule: (input: Shared.SchedulingInput) =>
+      store.proposal ?? shared.proposeSchedule(input),
+    createScheduleRepository: () => ({
+      getProfile: async () => store.profile,
+      getSchedule: async (userId: string, date: string) =>
+        store.schedules.find((s) => s.userId === userId && s.date === date) ??
+        null,
+      createSchedule: async (
+        schedule: Omit<DailySchedule, "id" | "confirmedAt">,
+      ) => {
+        const created = { ...schedule, id: "schedule-1", confirmedAt: null };
+        store.schedules.push(created);
+        return created;
+      },
+      updateProposal: async (
+        scheduleId: string,
+        proposal: Pick<DailySchedule, "availabilityBlocks" | "proposedTimes">,
+      ) => {
+        const schedule = store.schedules.find((s) => s.id === scheduleId)!;
+        Object.assign(schedule, proposal);
+        return schedule;
+      },
+      confirmSchedule: async (scheduleId: string) => {
+        const schedule = store.schedules.find((s) => s.id === scheduleId)!;
+        schedule.confirmedAt = new Date().toISOString();
+        return schedule.proposedTimes.map((slot) => ({
+          slotNumber: slot.slotNumber,
+          scheduledTime: slot.time,
+          sessionType: slot.sessionType,
+        }));
+      },
+    }),
+  };
+});
+
+import propose from "./propose";
+import confirmDay from "./confirm-day";
+
+function call(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  body: unknown = {},
+) {
+  const result = { status: 0, body: undefined as unknown };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  return Promise.resolve(
+    handler(
+      { method: "POST", headers: {}, body } as VercelRequest,
+      res as unknown as VercelResponse,
+    ),
+  ).then(() => result);
+}
+
+const profile: UserProfile = {
+  id: "user-1",
+  displayName: "Sam",
+  workWindowStart: "06:00",
+  workWindowEnd: "18:00",
+  defaultAvailability: null,
+  workspaceCalibration: null,
+  notificationChannel: "email",
+  notificationEmail: "sam@example.com",
+  notificationPhone: null,
+  themePreference: "system",
+  timezone: "UTC",
+  schedulingRules: null,
+  calendarFeedToken: null,
+  onboardedAt: "2026-03-01T00:00:00Z",
+  createdAt: "2026-03-01T00:00:00Z",
+  updatedAt: "2026-03-01T00:00:00Z",
+};
+
+describe("propose → confirm-day", () => {
+  beforeEach(() => {
+    store.profile = profile;
+    store.schedules = [];
+    store.proposal = null;
+  });
+
+  it("confirms a proposal whose mental slot lands in a late block", async () => {
+    const proposed = await call(propose, {
+      availabilityBlocks: [
+        { start: "06:00", end: "09:30" },
+        { start: "17:15", end: "18:00" },
+      ],
+    });
+    expect(proposed.status).toBe(200);
+
+    const confirmed = await call(confirmDay);
+    expect(confirmed.status).toBe(201);
+
+    const { sessions } = (confirmed.body as { data: { sessions: unknown[] } })
+      .data;
+    expect(sessions).toHaveLength(5);
+  });
+
+  it("rejects a proposal that could not be confirmed, without saving it", async () => {
+    store.proposal = {
+      slots: [
+        {
+          slotNumber: 1,
+          time: "2026-03-09T09:00:00+00:00",
+          sessionType: "mental",
+        },
+        {
+          slotNumber: 2,
+          time: "2026-03-09T09:30:00+00:00",
+          sessionType: "physical",
+        },
+      ],
+      warnings: [],
+      diagnostics: [],
+      placements: [],
+    };
+
+    const proposed = await call(propose);
+
+    expect(proposed.status).toBe(422);
+    expect(store.schedules).toHaveLength(0);
+  });
+});
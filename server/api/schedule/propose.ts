@@ -0,0 +1,117 @@
+/**
+ * Schedule Proposal Endpoint
+ *
+ * Proposes today's schedule for the signed-in user from their
+ * profile: work window, default availability (or the availability
+ * sent in the body, e.g. after a calendar import) and scheduling
+ * rules. The proposal is checked with validateFullSchedule (the
+ * same check confirm-day runs) and saved as today's unconfirmed
+ * `daily_schedules` row; proposing again replaces it until the day
+ * is confirmed. A proposal that could never be confirmed is
+ * rejected with 422 and its warnings, and not saved.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { getAuthenticatedUserId } from "../../lib/auth";
+import { success, error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import {
+  createScheduleRepository,
+  getZonedToday,
+  proposeSchedule,
+  validateFullSchedule,
+} from "@myonites/shared";
+
+const time = z.string().regex(/^\d{2}:\d{2}$/);
+
+const schema = z.object({
+  availabilityBlocks: z.array(z.object({ start: time, end: time })).optional(),
+  strategy: z.enum(["even", "max-spacing"]).optional(),
+  preferredTimes: z.array(time).optional(),
+});
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const userId = await getAuthenticatedUserId(req);
+  if (!userId) {
+    return error(res, "Unauthorized.", 401);
+  }
+
+  const parsed = schema.safeParse(req.body ?? {});
+
+  if (!parsed.success) {
+    return error(res, `Invalid request: ${parsed.error.message}`);
+  }
+
+  try {
+    const scheduleRepo = createScheduleRepository(supabase);
+
+    const profile = await scheduleRepo.getProfile(userId);
+    if (!profile) {
+      return error(res, "Profile not found.", 404);
+    }
+
+    const date = getZonedToday(profile.timezone);
+    const existing = await scheduleRepo.getSchedule(userId, date);
+    if (existing?.confirmedAt) {
+      return error(res, "Today's schedule is already confirmed.", 409);
+    }
+
+    const availabilityBlocks = parsed.data.availabilityBlocks ??
+      profile.defaultAvailability ?? [
+        { start: profile.workWindowStart, end: profile.workWindowEnd },
+      ];
+
+    const proposal = proposeSchedule({
+      workWindowStart: profile.workWindowStart,
+      workWindowEnd: profile.workWindowEnd,
+      availabilityBlocks,
+      date,
+      timezone: profile.timezone,
+      rules: profile.schedulingRules,
+      strategy: parsed.data.strategy,
+      preferredTimes: parsed.data.preferredTimes,
+    });
+
+    const check = validateFullSchedule(
+      proposal.slots,
+      availabilityBlocks,
+      profile.timezone,
+      profile.schedulingRules,
+    );
+    if (!check.valid) {
+      const reasons = [
+        check.error ?? "Invalid schedule.",
+        ...proposal.warnings,
+      ];
+      return error(res, reasons.join(" "), 422);
+    }
+
+    const schedule = existing
+      ? await scheduleRepo.updateProposal(existing.id, {
+          availabilityBlocks,
+          proposedTimes: proposal.slots,
+        })
+      : await scheduleRepo.createSchedule({
+          userId,
+          date,
+          availabilityBlocks,
+          proposedTimes: proposal.slots,
+        });
+
+    return success(res, {
+      schedule,
+      placements: proposal.placements,
+      warnings: proposal.warnings,
+      diagnostics: proposal.diagnostics,
+    });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Failed to propose schedule.";
+    return error(res, message, 500);
+  }
+}
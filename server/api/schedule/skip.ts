@@ -3,7 +3,10 @@ import { z } from "zod";
 import { validateToken } from "../../lib/tokens";
 import { success, error } from "../../lib/response";
 import { supabase } from "../../lib/supabase";
-import { createSessionRepository } from "@myonites/shared";
+import {
+  createSessionRepository,
+  InvalidSessionTransitionError,
+} from "@myonites/shared";
 
 const schema = z.object({
   sessionId: z.string().uuid(),
@@ -33,23 +36,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     const sessionRepo = createSessionRepository(supabase);
 
-    await sessionRepo.updateStatus(sessionId, "skipped");
-
-    if (reason) {
-      await supabase
-        .from("sessions")
-        .update({ skip_reason: reason })
-        .eq("id", sessionId);
-    }
-
-    /* Invalidate the token */
-    await supabase
-      .from("sessions")
-      .update({ notification_token: null })
-      .eq("id", sessionId);
+    /* Invalidate the token along with the status change */
+    await sessionRepo.updateStatus(sessionId, "skipped", {
+      skipReason: reason ?? null,
+      notificationToken: null,
+    });
 
     return success(res, { sessionId, status: "skipped" });
   } catch (err) {
+    if (err instanceof InvalidSessionTransitionError) {
+      return error(res, err.message, 409);
+    }
     const message =
       err instanceof Error ? err.message : "Failed to skip session.";
     return error(res, message, 500);
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type * as Shared from "@myonites/shared";
+
+const mockGetUserId = vi.hoisted(() => vi.fn());
+const mockGetProfile = vi.hoisted(() => vi.fn());
+const mockGetSchedule = vi.hoisted(() => vi.fn());
+const mockCreateSchedule = vi.hoisted(() => vi.fn());
+const mockConfirmSchedule = vi.hoisted(() => vi.fn());
+
+vi.mock("../../lib/supabase", () => ({ supabase: {} }));
+
+vi.mock("../../lib/auth", () => ({
+  getAuthenticatedUserId: (...args: unknown[]) => mockGetUserId(...args),
+}));
+
+vi.mock("@myonites/shared", async (importOriginal) => ({
+  ...(await importOriginal<typeof Shared>()),
+  createScheduleRepository: () => ({
+    getProfile: (...args: unknown[]) => mockGetProfile(...args),
+    getSchedule: (...args: unknown[]) => mockGetSchedule(...args),
+    createSchedule: (...args: unknown[]) => mockCreateSchedule(...args),
+    confirmSchedule: (...args: unknown[]) => mockConfirmSchedule(...args),
+  }),
+}));
+
+import week from "./week";
+
+async function call(body: unknown) {
+  const result = { status: 0, body: undefined as unknown };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await week(
+    { method: "POST", headers: {}, body } as VercelRequest,
+    res as unknown as VercelResponse,
+  );
+  return result as {
+    status: number;
+    body: { data: { days: { date: string; status: string }[] } };
+  };
+}
+
+describe("week route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-03-08T12:00:00Z"));
+    mockGetSchedule.mockResolvedValue(null);
+    mockConfirmSchedule.mockResolvedValue([]);
+    mockGetProfile.mockResolvedValue({
+      id: "user-1",
+      workWindowStart: "09:00",
+      workWindowEnd: "17:00",
+      defaultAvailability: null,
+      timezone: "UTC",
+      schedulingRules: null,
+    });
+    mockCreateSchedule.mockImplementation(
+      async (schedule: { date: string }) => ({
+        ...schedule,
+        id: `schedule-${schedule.date}`,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refuses requests without a signed-in user", async () => {
+    mockGetUserId.mockResolvedValue(null);
+
+    expect((await call({})).status).toBe(401);
+    expect(mockCreateSchedule).not.toHaveBeenCalled();
+  });
+
+  it("refuses a userId in the body", async () => {
+    mockGetUserId.mockResolvedValue("user-1");
+
+    expect((await call({ userId: "someone-else" })).status).toBe(400);
+    expect(mockCreateSchedule).not.toHaveBeenCalled();
+  });
+
+  it("plans only for the signed-in user", async () => {
+    mockGetUserId.mockResolvedValue("user-1");
+
+    expect((await call({ startDate: "2026-03-09", days: 1 })).status).toBe(201);
+    expect(mockGetProfile).toHaveBeenCalledWith("user-1");
+    expect(mockCreateSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", date: "2026-03-09" }),
+    );
+  });
+
+  it("refuses a start date before the user's today", async () => {
+    mockGetUserId.mockResolvedValue("user-1");
+
+    expect((await call({ startDate: "2026-03-07" })).status).toBe(400);
+    expect(mockCreateSchedule).not.toHaveBeenCalled();
+  });
+
+  it("confirms a day left unconfirmed instead of skipping it", async () => {
+    mockGetUserId.mockResolvedValue("user-1");
+    mockGetSchedule.mockResolvedValue({
+      id: "stale-schedule",
+      confirmedAt: null,
+      proposedTimes: [],
+    });
+
+    const { body } = await call({ startDate: "2026-03-09", days: 1 });
+
+    expect(mockConfirmSchedule).toHaveBeenCalledWith("stale-schedule");
+    expect(mockCreateSchedule).not.toHaveBeenCalled();
+    expect(body.data.days[0]?.status).toBe("confirmed");
+  });
+
+  it("reports a day that fails and keeps planning the rest", async () => {
+    mockGetUserId.mockResolvedValue("user-1");
+    mockConfirmSchedule.mockImplementation(async (scheduleId: string) => {
+      if (scheduleId === "schedule-2026-03-09") {
+        throw new Error("insert failed");
+      }
+      return [];
+    });
+
+    const { status, body } = await call({ startDate: "2026-03-09", days: 2 });
+
+    expect(status).toBe(201);
+    expect(body.data.days).toEqual([
+      { date: "2026-03-09", status: "error", error: "insert failed" },
+      expect.objectContaining({ date: "2026-03-10", status: "created" }),
+    ]);
+  });
+});
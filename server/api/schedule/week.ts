@@ -0,0 +1,191 @@
+/**
+ * Weekly Schedule Endpoint
+ *
+ * Plans the week ahead from the signed-in user's work pattern and
+ * writes a confirmed `daily_schedules` row plus one `sessions` row
+ * per slot for each working day (via ScheduleRepository's
+ * confirmSchedule). Each proposal is checked with
+ * validateFullSchedule before it's saved. Days that already have a
+ * confirmed schedule are left alone, and an unconfirmed one (e.g.
+ * from an earlier call that failed part-way) is confirmed, so
+ * calling it again only fills gaps. A day that fails is reported
+ * with `status: "error"` without stopping the others.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { getAuthenticatedUserId } from "../../lib/auth";
+import { success, error } from "../../lib/response";
+import { supabase } from "../../lib/supabase";
+import {
+  createScheduleRepository,
+  createWeekdayPattern,
+  getZonedToday,
+  planWeek,
+  validateFullSchedule,
+  validateWorkPattern,
+} from "@myonites/shared";
+import type { WorkPattern } from "@myonites/shared";
+
+const time = z.string().regex(/^\d{2}:\d{2}$/);
+
+/* Strict, so a client still naming a `userId` is refused, not ignored */
+const schema = z
+  .object({
+    /** Defaults to tomorrow in the user's timezone */
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional(),
+    days: z.number().int().min(1).max(14).optional(),
+    /** Keyed by weekday, "0" = Sunday; defaults to Mon–Fri work window */
+    workPattern: z
+      .record(
+        z.string().regex(/^[0-6]$/),
+        z.object({ start: time, end: time }).nullable(),
+      )
+      .optional(),
+  })
+  .strict();
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return error(res, "Method not allowed.", 405);
+  }
+
+  const userId = await getAuthenticatedUserId(req);
+  if (!userId) {
+    return error(res, "Unauthorized.", 401);
+  }
+
+  const parsed = schema.safeParse(req.body ?? {});
+
+  if (!parsed.success) {
+    return error(res, `Invalid request: ${parsed.error.message}`);
+  }
+
+  const { days } = parsed.data;
+
+  try {
+    const scheduleRepo = createScheduleRepository(supabase);
+
+    const profile = await scheduleRepo.getProfile(userId);
+    if (!profile) {
+      return error(res, "Profile not found.", 404);
+    }
+
+    const workPattern =
+      (parsed.data.workPattern as WorkPattern | undefined) ??
+      createWeekdayPattern(profile.workWindowStart, profile.workWindowEnd);
+
+    const patternErrors = validateWorkPattern(workPattern);
+    if (patternErrors.length > 0) {
+      return error(res, patternErrors.join(" "));
+    }
+
+    const today = getZonedToday(profile.timezone);
+    const startDate = parsed.data.startDate ?? addDays(today, 1);
+    if (startDate < today) {
+      return error(res, "Start date cannot be in the past.");
+    }
+
+    const plans = planWeek({
+      startDate,
+      days,
+      workPattern,
+      defaultAvailability: profile.defaultAvailability,
+      timezone: profile.timezone,
+      rules: profile.schedulingRules,
+    });
+
+    const results = [];
+
+    for (const plan of plans) {
+      try {
+        const existing = await scheduleRepo.getSchedule(userId, plan.date);
+        if (existing?.confirmedAt) {
+          results.push({ date: plan.date, status: "exists" });
+          continue;
+        }
+
+        /* Left unconfirmed by an earlier call; finish it off */
+        if (existing) {
+          const sessions = await scheduleRepo.confirmSchedule(existing.id);
+          results.push({
+            date: plan.date,
+            status: "confirmed",
+            scheduleId: existing.id,
+            sessionIds: sessions.map((session) => session.id),
+            slots: existing.proposedTimes,
+          });
+          continue;
+        }
+
+        if (plan.proposal.slots.length === 0) {
+          results.push({
+            date: plan.date,
+            status: "empty",
+            warnings: plan.proposal.warnings,
+            diagnostics: plan.proposal.diagnostics,
+          });
+          continue;
+        }
+
+        const check = validateFullSchedule(
+          plan.proposal.slots,
+          plan.availabilityBlocks,
+          profile.timezone,
+          profile.schedulingRules,
+        );
+        if (!check.valid) {
+          results.push({
+            date: plan.date,
+            status: "error",
+            error: check.error ?? "Invalid schedule.",
+            warnings: plan.proposal.warnings,
+            diagnostics: plan.proposal.diagnostics,
+          });
+          continue;
+        }
+
+        const schedule = await scheduleRepo.createSchedule({
+          userId,
+          date: plan.date,
+          availabilityBlocks: plan.availabilityBlocks,
+          proposedTimes: plan.proposal.slots,
+        });
+
+        const sessions = await scheduleRepo.confirmSchedule(schedule.id);
+
+        results.push({
+          date: plan.date,
+          status: "created",
+          scheduleId: schedule.id,
+          sessionIds: sessions.map((session) => session.id),
+          slots: plan.proposal.slots,
+          placements: plan.proposal.placements,
+          warnings: plan.proposal.warnings,
+          diagnostics: plan.proposal.diagnostics,
+        });
+      } catch (err) {
+        results.push({
+          date: plan.date,
+          status: "error",
+          error: err instanceof Error ? err.message : "Failed to plan the day.",
+        });
+      }
+    }
+
+    return success(res, { startDate, days: results }, 201);
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "Failed to plan the week.";
+    return error(res, message, 500);
+  }
+}
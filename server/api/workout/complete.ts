@@ -8,6 +8,8 @@ import {
   createMoodRepository,
   createFeedbackRepository,
   createWorkoutRepository,
+  InvalidSessionTransitionError,
+  assertSessionTransition,
 } from "@myonites/shared";
 
 const exerciseResultSchema = z.object({
@@ -33,6 +35,12 @@ const schema = z.object({
       numericValue: z.number().int().min(1).max(7),
     })
     .optional(),
+  reflection: z
+    .object({
+      prompt: z.string().min(1),
+      response: z.string().min(1),
+    })
+    .optional(),
   feedback: z
     .object({
       category: z.enum(["exercise", "feature", "bug", "general"]),
@@ -52,7 +60,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return error(res, `Invalid request: ${parsed.error.message}`);
   }
 
-  const { sessionId, exerciseResults, mood, feedback } = parsed.data;
+  const { sessionId, exerciseResults, reflection, mood, feedback } =
+    parsed.data;
 
   try {
     const sessionRepo = createSessionRepository(supabase);
@@ -63,6 +72,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return error(res, "Session not found.", 404);
     }
 
+    /* Reject before writing any results against a closed session */
+    assertSessionTransition(session.status, "completed");
+
     for (const result of exerciseResults) {
       await workoutRepo.recordExerciseResult(result.sessionExerciseId, {
         formScore: result.formScore,
@@ -71,6 +83,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    if (reflection) {
+      await workoutRepo.recordReflection(sessionId, reflection);
+    }
+
     await workoutRepo.completeSession(sessionId);
 
     if (mood) {
@@ -99,6 +115,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     return success(res, { sessionId, status: "completed" });
   } catch (err) {
+    if (err instanceof InvalidSessionTransitionError) {
+      return error(res, err.message, 409);
+    }
     const message =
       err instanceof Error ? err.message : "Failed to complete workout.";
     return error(res, message, 500);
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { VercelRequest } from "@vercel/node";
+
+vi.mock("./supabase", () => ({
+  supabase: { auth: { getUser: vi.fn() } },
+}));
+
+import { getAuthenticatedUserId } from "./auth";
+import { supabase } from "./supabase";
+
+const mockGetUser = vi.mocked(supabase.auth.getUser);
+
+function request(authorization?: string): VercelRequest {
+  return { headers: { authorization } } as VercelRequest;
+}
+
+describe("getAuthenticatedUserId", () => {
+  beforeEach(() => {
+    mockGetUser.mockReset();
+  });
+
+  it("returns the user behind a valid bearer token", async () => {
+    mockGetUser.mockResolvedValue({
+      data: { user: { id: "user-1" } },
+      error: null,
+    } as never);
+
+    await expect(getAuthenticatedUserId(request("Bearer abc"))).resolves.toBe(
+      "user-1",
+    );
+    expect(mockGetUser).toHaveBeenCalledWith("abc");
+  });
+
+  it("returns null without a bearer token", async () => {
+    await expect(getAuthenticatedUserId(request())).resolves.toBeNull();
+    await expect(
+      getAuthenticatedUserId(request("Basic abc")),
+    ).resolves.toBeNull();
+    expect(mockGetUser).not.toHaveBeenCalled();
+  });
+
+  it("returns null when Supabase rejects the token", async () => {
+    mockGetUser.mockResolvedValue({
+      data: { user: null },
+      error: { message: "JWT expired" },
+    } as never);
+
+    await expect(
+      getAuthenticatedUserId(request("Bearer expired")),
+    ).resolves.toBeNull();
+  });
+});
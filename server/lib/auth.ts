@@ -0,0 +1,20 @@
+import type { VercelRequest } from "@vercel/node";
+import { supabase } from "./supabase";
+
+/**
+ * The signed-in user's id, from the Supabase access token the app
+ * sends as `Authorization: Bearer <token>`. Null when the header is
+ * missing or the token is invalid or expired.
+ */
+export async function getAuthenticatedUserId(
+  req: VercelRequest,
+): Promise<string | null> {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer (.+)$/);
+  if (!match?.[1]) return null;
+
+  const { data, error } = await supabase.auth.getUser(match[1]);
+  if (error || !data.user) return null;
+
+  return data.user.id;
+}
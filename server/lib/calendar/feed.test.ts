@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { renderCalendarFeed } from "./feed";
+import type { FeedSession } from "./feed";
+
+const now = new Date("2026-03-09T08:00:00Z");
+
+const workout: FeedSession = {
+  id: "session-2",
+  slotNumber: 2,
+  sessionType: "physical",
+  status: "scheduled",
+  scheduledTime: "2026-03-09T09:05:00-06:00",
+};
+
+const mental: FeedSession = {
+  id: "session-6",
+  slotNumber: 6,
+  sessionType: "mental",
+  status: "scheduled",
+  scheduledTime: "2026-03-09T16:30:00-06:00",
+};
+
+describe("renderCalendarFeed", () => {
+  it("wraps events in a CRLF-terminated VCALENDAR", () => {
+    const ics = renderCalendarFeed([], { sessionDurationMinutes: 5, now });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).not.toContain("BEGIN:VEVENT");
+  });
+
+  it("renders one VEVENT per slot in UTC with the session length", () => {
+    const ics = renderCalendarFeed([workout, mental], {
+      sessionDurationMinutes: 5,
+      now,
+    });
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain("UID:session-2@musclaris.app");
+    expect(ics).toContain("DTSTART:20260309T150500Z\r\nDTEND:20260309T151000Z");
+    expect(ics).toContain("SUMMARY:Musclaris: Workout 2");
+    expect(ics).toContain("DESCRIPTION:Desk workout\\, slot 2.");
+    expect(ics).toContain("SUMMARY:Musclaris: Mental Wellness");
+    expect(ics).toContain("CATEGORIES:MENTAL");
+    expect(ics).toContain("DTSTAMP:20260309T080000Z");
+  });
+
+  it("keeps released slots as cancelled, free events", () => {
+    const ics = renderCalendarFeed([{ ...workout, status: "skipped" }], {
+      sessionDurationMinutes: 5,
+      now,
+    });
+
+    expect(ics).toContain("STATUS:CANCELLED\r\nTRANSP:TRANSPARENT");
+  });
+
+  it("escapes and folds long calendar names", () => {
+    const name = "Ada's workouts, desk; " + "x".repeat(80);
+    const ics = renderCalendarFeed([], {
+      sessionDurationMinutes: 5,
+      calendarName: name,
+      now,
+    });
+
+    const lines = ics.split("\r\n");
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, "")).toContain(
+      "X-WR-CALNAME:Ada's workouts\\, desk\\; " + "x".repeat(80),
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Calendar Feed
+ *
+ * Renders a user's confirmed sessions as an iCalendar (RFC 5545)
+ * feed that Outlook and Google Calendar can subscribe to.
+ * Each slot is one VEVENT with a stable UID, so re-fetching the
+ * feed updates events in place instead of duplicating them.
+ */
+
+export interface FeedSession {
+  id: string;
+  slotNumber: number;
+  sessionType: "physical" | "mental";
+  status: string;
+  /** ISO 8601 timestamp */
+  scheduledTime: string;
+}
+
+export interface FeedOptions {
+  sessionDurationMinutes: number;
+  /** Shown as the calendar name in subscribing clients */
+  calendarName?: string;
+  /** DTSTAMP for every event; defaults to now */
+  now?: Date;
+}
+
+const APP_URL = process.env.APP_URL ?? "https://musclaris.vercel.app";
+const UID_DOMAIN = "musclaris.app";
+
+/** Statuses that no longer hold time in the user's day */
+const RELEASED_STATUSES = ["skipped", "deferred", "missed"];
+
+/** UTC DATE-TIME, e.g. 20260309T150000Z */
+function formatICSDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11) */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1) */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      /* Continuation lines spend one octet on the leading space */
+      limit = 74;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function describeSession(session: FeedSession): string {
+  return session.sessionType === "mental"
+    ? "Musclaris: Mental Wellness"
+    : `Musclaris: Workout ${session.slotNumber}`;
+}
+
+export function buildFeedEvent(
+  session: FeedSession,
+  options: FeedOptions,
+): string[] {
+  const start = new Date(session.scheduledTime);
+  const end = new Date(
+    start.getTime() + options.sessionDurationMinutes * 60 * 1000,
+  );
+  const released = RELEASED_STATUSES.includes(session.status);
+
+  const description =
+    session.sessionType === "mental"
+      ? "Guided breathing and reflection."
+      : `Desk workout, slot ${session.slotNumber}.`;
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatICSDate(options.now ?? new Date())}`,
+    `DTSTART:${formatICSDate(start)}`,
+    `DTEND:${formatICSDate(end)}`,
+    `SUMMARY:${escapeText(describeSession(session))}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${session.sessionType.toUpperCase()}`,
+    `URL:${APP_URL}`,
+    `STATUS:${released ? "CANCELLED" : "CONFIRMED"}`,
+    `TRANSP:${released ? "TRANSPARENT" : "OPAQUE"}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * The full VCALENDAR body, CRLF-terminated.
+ * Skipped, deferred and missed slots stay in the feed as cancelled
+ * so clients that already synced them remove the blocked time.
+ */
+export function renderCalendarFeed(
+  sessions: FeedSession[],
+  options: FeedOptions,
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Musclaris//Schedule Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.calendarName ?? "Musclaris")}`,
+    ...sessions.flatMap((session) => buildFeedEvent(session, options)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,41 +1,51 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import type * as WebPush from "./webpush.provider";
 
 const mockSend = vi.hoisted(() => vi.fn());
+const mockSmsSend = vi.hoisted(() => vi.fn());
+const mockPushSend = vi.hoisted(() => vi.fn());
+const mockRemoveSubscription = vi.hoisted(() => vi.fn());
+const mockUpdateStatus = vi.hoisted(() => vi.fn());
 
 vi.mock("./resend.provider", () => ({
   createResendProvider: () => ({ send: mockSend }),
 }));
 
+vi.mock("./twilio.provider", () => ({
+  createTwilioProvider: () => ({ send: mockSmsSend }),
+}));
+
+vi.mock("./webpush.provider", async (importOriginal) => ({
+  ...(await importOriginal<typeof WebPush>()),
+  createWebPushProvider: () => ({ send: mockPushSend }),
+}));
+
 vi.mock("../tokens", () => ({
   generateToken: vi.fn().mockReturnValue("mock-token-123"),
+  toShortCode: (token: string) => token.slice(0, 4),
 }));
 
-vi.mock("../supabase", () => ({
-  supabase: {
-    from: vi.fn().mockReturnValue({
-      update: vi.fn().mockReturnValue({
-        eq: vi.fn().mockResolvedValue({ error: null }),
-      }),
-    }),
-  },
+vi.mock("../supabase", () => ({ supabase: {} }));
+
+vi.mock("@myonites/shared", () => ({
+  createSessionRepository: () => ({ updateStatus: mockUpdateStatus }),
+  createPushSubscriptionRepository: () => ({
+    remove: mockRemoveSubscription,
+  }),
 }));
 
-import { sendSessionNotification } from "./send";
-import { supabase } from "../supabase";
+import { getNotificationRecipient, sendSessionNotification } from "./send";
+import type { NotificationRecipient } from "./types";
 
-function setupSupabaseMock(updateError: { message: string } | null = null) {
-  const mockEqFn = vi.fn().mockResolvedValue({ error: updateError });
-  const mockUpdateFn = vi.fn().mockReturnValue({ eq: mockEqFn });
-  vi.mocked(supabase.from).mockReturnValue({
-    update: mockUpdateFn,
-  } as unknown as ReturnType<typeof supabase.from>);
-  return { mockUpdateFn, mockEqFn };
-}
+const emailRecipient: NotificationRecipient = {
+  channel: "email",
+  email: "user@test.com",
+};
 
 describe("sendSessionNotification", () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    setupSupabaseMock();
+    mockUpdateStatus.mockResolvedValue(undefined);
     mockSend.mockResolvedValue({
       success: true,
       messageId: "msg-1",
@@ -44,33 +54,31 @@ describe("sendSessionNotification", () => {
   });
 
   it("stores the token on the session", async () => {
-    const { mockUpdateFn, mockEqFn } = setupSupabaseMock();
-
     await sendSessionNotification(
       "session-1",
-      "user@test.com",
+      emailRecipient,
       3,
+      6,
       "2026-03-09T14:00:00Z",
+      "America/Denver",
       "physical",
       [],
     );
 
-    expect(supabase.from).toHaveBeenCalledWith("sessions");
-    expect(mockUpdateFn).toHaveBeenCalledWith(
-      expect.objectContaining({
-        notification_token: "mock-token-123",
-        status: "notified",
-      }),
-    );
-    expect(mockEqFn).toHaveBeenCalledWith("id", "session-1");
+    expect(mockUpdateStatus).toHaveBeenCalledWith("session-1", "notified", {
+      notificationToken: "mock-token-123",
+      notificationSentAt: expect.any(String),
+    });
   });
 
   it("sends an email with the correct recipient", async () => {
     await sendSessionNotification(
       "session-1",
-      "user@test.com",
+      emailRecipient,
       3,
+      6,
       "2026-03-09T14:00:00Z",
+      "America/Denver",
       "physical",
       [],
     );
@@ -83,9 +91,11 @@ describe("sendSessionNotification", () => {
   it("includes subject, html, and text in the email payload", async () => {
     await sendSessionNotification(
       "session-1",
-      "user@test.com",
+      emailRecipient,
       3,
+      6,
       "2026-03-09T14:00:00Z",
+      "America/Denver",
       "physical",
       ["shoulders"],
     );
@@ -101,13 +111,15 @@ describe("sendSessionNotification", () => {
   });
 
   it("returns failure when session update fails", async () => {
-    setupSupabaseMock({ message: "DB error" });
+    mockUpdateStatus.mockRejectedValue(new Error("DB error"));
 
     const result = await sendSessionNotification(
       "session-1",
-      "user@test.com",
+      emailRecipient,
       3,
+      6,
       "2026-03-09T14:00:00Z",
+      "America/Denver",
       "physical",
       [],
     );
@@ -126,9 +138,11 @@ describe("sendSessionNotification", () => {
 
     const result = await sendSessionNotification(
       "session-1",
-      "user@test.com",
+      emailRecipient,
       3,
+      6,
       "2026-03-09T14:00:00Z",
+      "America/Denver",
       "physical",
       [],
     );
@@ -140,9 +154,11 @@ describe("sendSessionNotification", () => {
   it("returns success with messageId on successful send", async () => {
     const result = await sendSessionNotification(
       "session-1",
-      "user@test.com",
+      emailRecipient,
       3,
+      6,
       "2026-03-09T14:00:00Z",
+      "America/Denver",
       "physical",
       [],
     );
@@ -151,3 +167,202 @@ describe("sendSessionNotification", () => {
     expect(result.messageId).toBe("msg-1");
   });
 });
+
+describe("sendSessionNotification by SMS", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateStatus.mockResolvedValue(undefined);
+    mockSmsSend.mockResolvedValue({
+      success: true,
+      messageId: "SM-1",
+      error: null,
+    });
+  });
+
+  it("texts the phone number instead of emailing", async () => {
+    const result = await sendSessionNotification(
+      "session-1",
+      { channel: "sms", phone: "+14155550123" },
+      3,
+      6,
+      "2026-03-09T14:00:00Z",
+      "America/Denver",
+      "physical",
+      [],
+    );
+
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(mockSmsSend).toHaveBeenCalledWith({
+      to: "+14155550123",
+      body: expect.stringContaining("/api/go?c=mock"),
+    });
+    expect(result.messageId).toBe("SM-1");
+  });
+});
+
+describe("sendSessionNotification by push", () => {
+  const recipient: NotificationRecipient = {
+    channel: "push",
+    userId: "user-1",
+    targets: [
+      {
+        endpoint: "https://fcm.googleapis.com/fcm/send/laptop",
+        p256dh: "k1",
+        auth: "a1",
+      },
+      {
+        endpoint: "https://fcm.googleapis.com/fcm/send/phone",
+        p256dh: "k2",
+        auth: "a2",
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateStatus.mockResolvedValue(undefined);
+    mockRemoveSubscription.mockResolvedValue(undefined);
+  });
+
+  it("pushes to every browser and succeeds if one delivers", async () => {
+    mockPushSend
+      .mockResolvedValueOnce({
+        success: false,
+        messageId: null,
+        error: "Gone",
+        gone: true,
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        messageId: "push-1",
+        error: null,
+        gone: false,
+      });
+
+    const result = await sendSessionNotification(
+      "session-1",
+      recipient,
+      3,
+      6,
+      "2026-03-09T14:00:00Z",
+      "America/Denver",
+      "physical",
+      [],
+    );
+
+    expect(mockPushSend).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ success: true, messageId: "push-1", error: null });
+  });
+
+  it("deletes subscriptions the push service reports gone", async () => {
+    mockPushSend.mockResolvedValue({
+      success: false,
+      messageId: null,
+      error: "Gone",
+      gone: true,
+    });
+
+    const result = await sendSessionNotification(
+      "session-1",
+      { ...recipient, targets: recipient.targets.slice(0, 1) },
+      3,
+      6,
+      "2026-03-09T14:00:00Z",
+      "America/Denver",
+      "physical",
+      [],
+    );
+
+    expect(result.success).toBe(false);
+    expect(mockRemoveSubscription).toHaveBeenCalledWith(
+      "user-1",
+      "https://fcm.googleapis.com/fcm/send/laptop",
+    );
+  });
+
+  it("never posts to an endpoint off the push services", async () => {
+    const result = await sendSessionNotification(
+      "session-1",
+      {
+        ...recipient,
+        targets: [
+          {
+            endpoint: "https://internal.example/hook",
+            p256dh: "k1",
+            auth: "a1",
+          },
+        ],
+      },
+      3,
+      6,
+      "2026-03-09T14:00:00Z",
+      "America/Denver",
+      "physical",
+      [],
+    );
+
+    expect(mockPushSend).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(mockRemoveSubscription).toHaveBeenCalledWith(
+      "user-1",
+      "https://internal.example/hook",
+    );
+  });
+});
+
+describe("getNotificationRecipient", () => {
+  const profile = {
+    id: "user-1",
+    notificationChannel: "email" as const,
+    notificationEmail: "user@test.com",
+    notificationPhone: "+14155550123",
+  };
+
+  it("uses the address for the chosen channel", () => {
+    expect(getNotificationRecipient(profile)).toEqual(emailRecipient);
+    expect(
+      getNotificationRecipient({ ...profile, notificationChannel: "sms" }),
+    ).toEqual({ channel: "sms", phone: "+14155550123" });
+  });
+
+  it("returns null rather than falling back to the other channel", () => {
+    expect(
+      getNotificationRecipient({
+        ...profile,
+        notificationChannel: "sms",
+        notificationPhone: null,
+      }),
+    ).toBeNull();
+    expect(
+      getNotificationRecipient({ ...profile, notificationChannel: "push" }, []),
+    ).toBeNull();
+  });
+
+  it("pushes to each of the user's subscriptions", () => {
+    const recipient = getNotificationRecipient(
+      { ...profile, notificationChannel: "push" },
+      [
+        {
+          id: "sub-1",
+          userId: "user-1",
+          endpoint: "https://fcm.googleapis.com/fcm/send/laptop",
+          p256dh: "k1",
+          auth: "a1",
+          createdAt: "2026-03-01T00:00:00Z",
+        },
+      ],
+    );
+
+    expect(recipient).toEqual({
+      channel: "push",
+      userId: "user-1",
+      targets: [
+        {
+          endpoint: "https://fcm.googleapis.com/fcm/send/laptop",
+          p256dh: "k1",
+          auth: "a1",
+        },
+      ],
+    });
+  });
+});
@@ -2,42 +2,104 @@
  * Send Notification
  *
  * Generates a token, stores it on the session, and sends
- * the notification email. Called by the cron scheduler.
+ * the notification by the user's chosen channel: an email, a
+ * text message, or a Web Push to each of their browsers.
+ * Called by the cron scheduler.
  */
 
 import { supabase } from "../supabase";
+import {
+  createPushSubscriptionRepository,
+  createSessionRepository,
+} from "@myonites/shared";
 import { generateToken } from "../tokens";
+import type {
+  NotificationChannel,
+  PushSubscriptionRecord,
+} from "@myonites/shared";
 import { createResendProvider } from "./resend.provider";
-import { workoutNotificationEmail } from "./templates";
-import type { NotificationData, EmailResult } from "./types";
+import { createTwilioProvider } from "./twilio.provider";
+import {
+  createWebPushProvider,
+  isPushServiceEndpoint,
+} from "./webpush.provider";
+import {
+  workoutNotificationEmail,
+  workoutNotificationPush,
+  workoutNotificationSms,
+} from "./templates";
+import type {
+  NotificationData,
+  NotificationRecipient,
+  EmailResult,
+} from "./types";
 
 const emailProvider = createResendProvider();
+const smsProvider = createTwilioProvider();
+const pushProvider = createWebPushProvider();
+const sessionRepo = createSessionRepository(supabase);
+const pushSubscriptionRepo = createPushSubscriptionRepository(supabase);
+
+/**
+ * The address for the user's chosen channel, or null if they
+ * haven't given one. There's no fallback to the other channel.
+ */
+export function getNotificationRecipient(
+  profile: {
+    id: string;
+    notificationChannel: NotificationChannel;
+    notificationEmail: string | null;
+    notificationPhone: string | null;
+  },
+  pushSubscriptions: PushSubscriptionRecord[] = [],
+): NotificationRecipient | null {
+  if (profile.notificationChannel === "push") {
+    return pushSubscriptions.length > 0
+      ? {
+          channel: "push",
+          userId: profile.id,
+          targets: pushSubscriptions.map(({ endpoint, p256dh, auth }) => ({
+            endpoint,
+            p256dh,
+            auth,
+          })),
+        }
+      : null;
+  }
+  if (profile.notificationChannel === "sms") {
+    return profile.notificationPhone
+      ? { channel: "sms", phone: profile.notificationPhone }
+      : null;
+  }
+  return profile.notificationEmail
+    ? { channel: "email", email: profile.notificationEmail }
+    : null;
+}
 
 export async function sendSessionNotification(
   sessionId: string,
-  userEmail: string,
+  recipient: NotificationRecipient,
   slotNumber: number,
+  totalSlots: number,
   scheduledTime: string,
+  timezone: string,
   sessionType: "physical" | "mental",
   muscleGroupsCovered: string[],
 ): Promise<EmailResult> {
   const token = generateToken();
 
   /* Store token and mark session as notified */
-  const { error: updateError } = await supabase
-    .from("sessions")
-    .update({
-      notification_token: token,
-      notification_sent_at: new Date().toISOString(),
-      status: "notified",
-    })
-    .eq("id", sessionId);
-
-  if (updateError) {
+  try {
+    await sessionRepo.updateStatus(sessionId, "notified", {
+      notificationToken: token,
+      notificationSentAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error.";
     return {
       success: false,
       messageId: null,
-      error: `Failed to update session: ${updateError.message}`,
+      error: `Failed to update session: ${message}`,
     };
   }
 
@@ -45,12 +107,69 @@ export async function sendSessionNotification(
     sessionId,
     token,
     slotNumber,
+    totalSlots,
     scheduledTime,
+    timezone,
     sessionType,
     muscleGroupsCovered,
   };
 
+  if (recipient.channel === "push") {
+    return sendPush(recipient, data);
+  }
+
+  if (recipient.channel === "sms") {
+    return smsProvider.send({
+      to: recipient.phone,
+      body: workoutNotificationSms(data),
+    });
+  }
+
   const { subject, html, text } = workoutNotificationEmail(data);
 
-  return emailProvider.send({ to: userEmail, subject, html, text });
+  return emailProvider.send({ to: recipient.email, subject, html, text });
+}
+
+/**
+ * Push to every subscribed browser. Succeeds if any delivery does;
+ * subscriptions the push service reports gone are deleted, as are
+ * any whose endpoint isn't on a known push service.
+ */
+async function sendPush(
+  recipient: Extract<NotificationRecipient, { channel: "push" }>,
+  data: NotificationData,
+): Promise<EmailResult> {
+  const payload = workoutNotificationPush(data);
+  const results = await Promise.all(
+    recipient.targets.map((target) =>
+      isPushServiceEndpoint(target.endpoint)
+        ? pushProvider.send(target, payload)
+        : {
+            success: false,
+            messageId: null,
+            error: "Not a known push service.",
+            gone: true,
+          },
+    ),
+  );
+
+  await Promise.all(
+    recipient.targets
+      .filter((_, i) => results[i]?.gone)
+      .map((target) =>
+        pushSubscriptionRepo
+          .remove(recipient.userId, target.endpoint)
+          .catch(() => undefined),
+      ),
+  );
+
+  const delivered = results.find((result) => result.success);
+  if (delivered) {
+    return { success: true, messageId: delivered.messageId, error: null };
+  }
+  return {
+    success: false,
+    messageId: null,
+    error: results.map((result) => result.error).join("; ") || "No browsers.",
+  };
 }
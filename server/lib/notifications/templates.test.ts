@@ -1,8 +1,15 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../supabase", () => ({ supabase: {} }));
+
 import {
   workoutNotificationEmail,
+  workoutNotificationSms,
+  workoutNotificationPush,
   buildConfirmUrl,
   buildSkipUrl,
+  buildShortConfirmUrl,
+  buildShortSkipUrl,
 } from "./templates";
 import type { NotificationData } from "./types";
 
@@ -26,12 +33,25 @@ describe("buildSkipUrl", () => {
   });
 });
 
+describe("buildShortConfirmUrl / buildShortSkipUrl", () => {
+  it("carries only the token's short code", () => {
+    const token = "0123456789abcdef".repeat(4);
+
+    expect(buildShortConfirmUrl(token)).toMatch(
+      /\/api\/go\?c=0123456789abcdef$/,
+    );
+    expect(buildShortSkipUrl(token)).toMatch(/\/api\/go\?s=0123456789abcdef$/);
+  });
+});
+
 describe("workoutNotificationEmail", () => {
   const baseData: NotificationData = {
     sessionId: "session-1",
     token: "token-abc",
     slotNumber: 3,
+    totalSlots: 6,
     scheduledTime: "2026-03-09T14:05:00Z",
+    timezone: "America/Denver",
     sessionType: "physical",
     muscleGroupsCovered: ["shoulders", "neck"],
   };
@@ -42,6 +62,25 @@ describe("workoutNotificationEmail", () => {
     expect(subject).toContain("Workout 3/6");
   });
 
+  it("counts against the user's own sessions per day", () => {
+    const data = { ...baseData, totalSlots: 4 };
+
+    expect(workoutNotificationEmail(data).subject).toContain("Workout 3/4");
+    expect(workoutNotificationSms(data)).toContain("Workout 3/4");
+    expect(workoutNotificationPush(data).title).toContain("Workout 3/4");
+  });
+
+  it("shows the time in the user's timezone", () => {
+    const { subject: denver } = workoutNotificationEmail(baseData);
+    const { subject: tokyo } = workoutNotificationEmail({
+      ...baseData,
+      timezone: "Asia/Tokyo",
+    });
+
+    expect(denver).toContain("8:05 AM");
+    expect(tokyo).toContain("11:05 PM");
+  });
+
   it("uses Mental Wellness label for mental sessions", () => {
     const data: NotificationData = { ...baseData, sessionType: "mental" };
     const { subject } = workoutNotificationEmail(data);
@@ -89,3 +128,68 @@ describe("workoutNotificationEmail", () => {
     expect(html).toContain("10 minutes");
   });
 });
+
+describe("workoutNotificationSms", () => {
+  const data: NotificationData = {
+    sessionId: "3f1c2b9e-8a7d-4c6b-9e5f-1a2b3c4d5e6f",
+    token: "0123456789abcdef".repeat(4),
+    slotNumber: 3,
+    totalSlots: 6,
+    scheduledTime: "2026-03-09T14:05:00Z",
+    timezone: "America/Denver",
+    sessionType: "physical",
+    muscleGroupsCovered: ["shoulders"],
+  };
+
+  it("names the session and its local time", () => {
+    expect(workoutNotificationSms(data)).toContain("Workout 3/6 at 8:05 AM");
+  });
+
+  it("links to confirm and skip with short codes", () => {
+    const text = workoutNotificationSms(data);
+
+    expect(text).toContain(buildShortConfirmUrl(data.token));
+    expect(text).toContain(buildShortSkipUrl(data.token));
+    expect(text).not.toContain(data.sessionId);
+  });
+
+  it("fits one GSM-7 segment for the longest label and time", () => {
+    const text = workoutNotificationSms({
+      ...data,
+      sessionType: "mental",
+      timezone: "Asia/Tokyo",
+    });
+
+    expect(text).toContain("Mental Wellness at 11:05 PM");
+    expect(text.length).toBeLessThanOrEqual(160);
+    expect(text).toMatch(/^[\x20-\x7e\n]+$/);
+  });
+});
+
+describe("workoutNotificationPush", () => {
+  const data: NotificationData = {
+    sessionId: "session-1",
+    token: "token-abc",
+    slotNumber: 3,
+    totalSlots: 6,
+    scheduledTime: "2026-03-09T14:05:00Z",
+    timezone: "America/Denver",
+    sessionType: "physical",
+    muscleGroupsCovered: [],
+  };
+
+  it("offers Confirm and Skip actions backed by the token routes", () => {
+    const payload = workoutNotificationPush(data);
+
+    expect(payload.title).toBe("Workout 3/6 at 8:05 AM");
+    expect(payload.actions.map((a) => a.action)).toEqual(["confirm", "skip"]);
+    expect(payload.data.confirmUrl).toBe(
+      buildConfirmUrl("session-1", "token-abc"),
+    );
+    expect(payload.data.skipUrl).toBe(buildSkipUrl("session-1", "token-abc"));
+  });
+
+  it("tags the notification with the session so a resend replaces it", () => {
+    expect(workoutNotificationPush(data).tag).toBe("session-1");
+  });
+});
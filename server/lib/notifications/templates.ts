@@ -3,18 +3,22 @@
  *
  * HTML templates for workout notifications.
  * Uses inline styles for email client compatibility.
+ * SMS templates fit a single 160-character segment, so their
+ * links carry a short code instead of the session and token.
  */
 
-import type { NotificationData } from "./types";
+import { toShortCode } from "../tokens";
+import type { NotificationData, PushPayload } from "./types";
 
 const APP_URL = process.env.APP_URL ?? "https://musclaris.vercel.app";
 
-function formatTime(isoTime: string): string {
+function formatTime(isoTime: string, timeZone: string): string {
   const date = new Date(isoTime);
   return date.toLocaleTimeString("en-US", {
     hour: "numeric",
     minute: "2-digit",
     hour12: true,
+    timeZone,
   });
 }
 
@@ -26,19 +30,31 @@ export function buildSkipUrl(sessionId: string, token: string): string {
   return `${APP_URL}/api/schedule/skip?sessionId=${sessionId}&token=${token}`;
 }
 
+/** Short links resolve through /api/go to the confirm/skip routes */
+export function buildShortConfirmUrl(token: string): string {
+  return `${APP_URL}/api/go?c=${toShortCode(token)}`;
+}
+
+export function buildShortSkipUrl(token: string): string {
+  return `${APP_URL}/api/go?s=${toShortCode(token)}`;
+}
+
+function sessionLabelFor(data: NotificationData): string {
+  return data.sessionType === "mental"
+    ? "Mental Wellness"
+    : `Workout ${data.slotNumber}/${data.totalSlots}`;
+}
+
 export function workoutNotificationEmail(data: NotificationData): {
   subject: string;
   html: string;
   text: string;
 } {
-  const time = formatTime(data.scheduledTime);
+  const time = formatTime(data.scheduledTime, data.timezone);
   const confirmUrl = buildConfirmUrl(data.sessionId, data.token);
   const skipUrl = buildSkipUrl(data.sessionId, data.token);
 
-  const sessionLabel =
-    data.sessionType === "mental"
-      ? "Mental Wellness"
-      : `Workout ${data.slotNumber}/6`;
+  const sessionLabel = sessionLabelFor(data);
 
   const muscleGroupsText =
     data.muscleGroupsCovered.length > 0
@@ -92,3 +108,39 @@ export function workoutNotificationEmail(data: NotificationData): {
 
   return { subject, html, text };
 }
+
+export function workoutNotificationSms(data: NotificationData): string {
+  /* Some ICU versions put a narrow no-break space before AM/PM,
+     which would push the text out of the GSM-7 charset */
+  const time = formatTime(data.scheduledTime, data.timezone).replace(
+    /\s/g,
+    " ",
+  );
+
+  return [
+    `Musclaris: ${sessionLabelFor(data)} at ${time}`,
+    `Start ${buildShortConfirmUrl(data.token)}`,
+    `Skip ${buildShortSkipUrl(data.token)}`,
+  ].join("\n");
+}
+
+export function workoutNotificationPush(data: NotificationData): PushPayload {
+  const time = formatTime(data.scheduledTime, data.timezone);
+
+  return {
+    title: `${sessionLabelFor(data)} at ${time}`,
+    body:
+      data.muscleGroupsCovered.length > 0
+        ? `Covered today: ${data.muscleGroupsCovered.join(", ")}`
+        : "First workout of the day!",
+    tag: data.sessionId,
+    actions: [
+      { action: "confirm", title: "Confirm" },
+      { action: "skip", title: "Skip" },
+    ],
+    data: {
+      confirmUrl: buildConfirmUrl(data.sessionId, data.token),
+      skipUrl: buildSkipUrl(data.sessionId, data.token),
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer } from "http";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { createTwilioProvider } from "./twilio.provider";
+
+/* A local stand-in for Twilio's Messages endpoint */
+interface StubRequest {
+  url: string;
+  authorization: string | undefined;
+  form: URLSearchParams;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: StubRequest[];
+let reply: { status: number; body: unknown };
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => (raw += chunk.toString()));
+    req.on("end", () => {
+      requests.push({
+        url: req.url ?? "",
+        authorization: req.headers.authorization,
+        form: new URLSearchParams(raw),
+      });
+      res.writeHead(reply.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("TwilioProvider", () => {
+  const config = () => ({
+    accountSid: "AC123",
+    authToken: "secret",
+    from: "+15005550006",
+    baseUrl,
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = { status: 201, body: { sid: "SM-1" } };
+  });
+
+  it("sends a text and returns success with the message SID", async () => {
+    const result = await createTwilioProvider(config()).send({
+      to: "+14155550123",
+      body: "Hello",
+    });
+
+    expect(result).toEqual({ success: true, messageId: "SM-1", error: null });
+  });
+
+  it("posts a form to the account's Messages resource with basic auth", async () => {
+    await createTwilioProvider(config()).send({
+      to: "+14155550123",
+      body: "Hello",
+    });
+
+    const [request] = requests;
+    expect(request?.url).toBe("/2010-04-01/Accounts/AC123/Messages.json");
+    expect(request?.authorization).toBe(
+      `Basic ${Buffer.from("AC123:secret").toString("base64")}`,
+    );
+    expect(Object.fromEntries(request?.form ?? [])).toEqual({
+      To: "+14155550123",
+      From: "+15005550006",
+      Body: "Hello",
+    });
+  });
+
+  it("returns Twilio's error message when the send is rejected", async () => {
+    reply = {
+      status: 400,
+      body: { code: 21211, message: "Invalid 'To' Phone Number" },
+    };
+
+    const result = await createTwilioProvider(config()).send({
+      to: "+1",
+      body: "Hello",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.messageId).toBeNull();
+    expect(result.error).toBe("Invalid 'To' Phone Number");
+  });
+
+  it("returns failure when the endpoint can't be reached", async () => {
+    const result = await createTwilioProvider({
+      ...config(),
+      baseUrl: "http://127.0.0.1:1",
+    }).send({ to: "+14155550123", body: "Hello" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+
+  it("fails without calling out when credentials are missing", async () => {
+    const result = await createTwilioProvider({
+      ...config(),
+      authToken: undefined,
+    }).send({ to: "+14155550123", body: "Hello" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("SMS provider is not configured.");
+    expect(requests).toHaveLength(0);
+  });
+});
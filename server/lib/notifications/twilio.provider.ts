@@ -0,0 +1,81 @@
+/**
+ * Twilio SMS Provider
+ *
+ * Implements SmsProvider against Twilio's Messages REST API over
+ * plain fetch, so any Twilio-compatible endpoint works. Point
+ * TWILIO_API_URL at a local stub to test without sending texts.
+ */
+
+import type { SmsProvider, SmsPayload, SmsResult } from "./types";
+
+export interface TwilioConfig {
+  accountSid: string | undefined;
+  authToken: string | undefined;
+  /** Sending number or messaging service SID */
+  from: string | undefined;
+  baseUrl: string;
+}
+
+function configFromEnv(): TwilioConfig {
+  return {
+    accountSid: process.env.TWILIO_ACCOUNT_SID,
+    authToken: process.env.TWILIO_AUTH_TOKEN,
+    from: process.env.TWILIO_FROM_NUMBER,
+    baseUrl: process.env.TWILIO_API_URL ?? "https://api.twilio.com",
+  };
+}
+
+export function createTwilioProvider(
+  config: TwilioConfig = configFromEnv(),
+): SmsProvider {
+  return {
+    async send(payload: SmsPayload): Promise<SmsResult> {
+      const { accountSid, authToken, from, baseUrl } = config;
+      if (!accountSid || !authToken || !from) {
+        return {
+          success: false,
+          messageId: null,
+          error: "SMS provider is not configured.",
+        };
+      }
+
+      try {
+        const response = await fetch(
+          `${baseUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Basic ${Buffer.from(
+                `${accountSid}:${authToken}`,
+              ).toString("base64")}`,
+              "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: new URLSearchParams({
+              To: payload.to,
+              From: from,
+              Body: payload.body,
+            }).toString(),
+          },
+        );
+
+        const json = (await response.json().catch(() => null)) as {
+          sid?: string;
+          message?: string;
+        } | null;
+
+        if (!response.ok) {
+          return {
+            success: false,
+            messageId: null,
+            error: json?.message ?? `SMS send failed: ${response.status}`,
+          };
+        }
+
+        return { success: true, messageId: json?.sid ?? null, error: null };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "SMS send failed.";
+        return { success: false, messageId: null, error: message };
+      }
+    },
+  };
+}
@@ -1,9 +1,10 @@
 /**
- * Email Provider Interface
+ * Notification Provider Interfaces
  *
- * Abstracts email sending so the provider can be swapped
- * without touching routes or business logic.
- * Resend is the current implementation.
+ * Abstracts email, SMS and Web Push sending so providers can be
+ * swapped without touching routes or business logic. Resend
+ * (email), Twilio (SMS) and a built-in VAPID sender (push) are the
+ * current implementations.
  */
 
 export interface EmailPayload {
@@ -23,11 +24,59 @@ export interface EmailProvider {
   send(payload: EmailPayload): Promise<EmailResult>;
 }
 
+export interface SmsPayload {
+  /** E.164 number, e.g. +14155550123 */
+  to: string;
+  body: string;
+}
+
+export type SmsResult = EmailResult;
+
+export interface SmsProvider {
+  send(payload: SmsPayload): Promise<SmsResult>;
+}
+
+/** One browser's push subscription, keys base64url */
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/** What the service worker receives and shows */
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Replaces any earlier notification with the same tag */
+  tag: string;
+  actions: { action: "confirm" | "skip"; title: string }[];
+  data: { confirmUrl: string; skipUrl: string };
+}
+
+export interface PushResult extends EmailResult {
+  /** The subscription has expired or been revoked */
+  gone: boolean;
+}
+
+export interface PushProvider {
+  send(target: PushTarget, payload: PushPayload): Promise<PushResult>;
+}
+
+/** Where one user's notifications go, by their chosen channel */
+export type NotificationRecipient =
+  | { channel: "email"; email: string }
+  | { channel: "sms"; phone: string }
+  | { channel: "push"; userId: string; targets: PushTarget[] };
+
 export interface NotificationData {
   sessionId: string;
   token: string;
   slotNumber: number;
+  /** Sessions in the user's day, from their scheduling rules */
+  totalSlots: number;
   scheduledTime: string;
+  /** User's IANA timezone, so the email shows their local time */
+  timezone: string;
   sessionType: "physical" | "mental";
   muscleGroupsCovered: string[];
 }
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createECDH, createPublicKey, verify } from "crypto";
+import { createServer } from "http";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import {
+  createVapidAuthorization,
+  createWebPushProvider,
+  encryptPayload,
+  isPushServiceEndpoint,
+} from "./webpush.provider";
+import type { PushPayload } from "./types";
+
+/* ─── RFC 8291 Appendix A ─── */
+
+const RFC_VECTOR = {
+  plaintext: "When I grow up, I want to be a watermelon",
+  serverPrivateKey: "yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw",
+  p256dh:
+    "BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4",
+  auth: "BTBZMqHH6r4Tts7J_aSIgg",
+  salt: "DGv6ra1nlYgDCS1FRnbzlw",
+  body: "DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN",
+};
+
+/* A VAPID key pair generated for these tests only */
+const vapidKeys = createECDH("prime256v1");
+vapidKeys.generateKeys();
+const vapid = {
+  publicKey: vapidKeys.getPublicKey().toString("base64url"),
+  privateKey: vapidKeys.getPrivateKey().toString("base64url"),
+  subject: "mailto:test@example.com",
+};
+
+describe("encryptPayload", () => {
+  it("matches the RFC 8291 example", () => {
+    const body = encryptPayload(
+      Buffer.from(RFC_VECTOR.plaintext),
+      { p256dh: RFC_VECTOR.p256dh, auth: RFC_VECTOR.auth },
+      {
+        salt: Buffer.from(RFC_VECTOR.salt, "base64url"),
+        serverPrivateKey: Buffer.from(RFC_VECTOR.serverPrivateKey, "base64url"),
+      },
+    );
+
+    expect(body.toString("base64url")).toBe(RFC_VECTOR.body);
+  });
+
+  it("uses a fresh salt and key for every message", () => {
+    const target = { p256dh: RFC_VECTOR.p256dh, auth: RFC_VECTOR.auth };
+    const first = encryptPayload(Buffer.from("hi"), target);
+    const second = encryptPayload(Buffer.from("hi"), target);
+
+    expect(first.subarray(0, 16)).not.toEqual(second.subarray(0, 16));
+    expect(first.subarray(21, 86)).not.toEqual(second.subarray(21, 86));
+  });
+});
+
+describe("createVapidAuthorization", () => {
+  it("signs a JWT for the push service's origin", () => {
+    const header = createVapidAuthorization(
+      "https://push.example.net/send/abc",
+      vapid,
+      new Date("2026-03-09T14:00:00Z"),
+    );
+
+    const match = header.match(/^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/);
+    expect(match?.[4]).toBe(vapid.publicKey);
+
+    const [, jwtHeader, claims, signature] = match ?? [];
+    expect(
+      JSON.parse(Buffer.from(claims ?? "", "base64url").toString()),
+    ).toEqual({
+      aud: "https://push.example.net",
+      exp: Date.parse("2026-03-09T14:00:00Z") / 1000 + 12 * 60 * 60,
+      sub: "mailto:test@example.com",
+    });
+
+    const publicKey = Buffer.from(vapid.publicKey, "base64url");
+    const key = createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: publicKey.subarray(1, 33).toString("base64url"),
+        y: publicKey.subarray(33, 65).toString("base64url"),
+      },
+      format: "jwk",
+    });
+    expect(
+      verify(
+        "sha256",
+        Buffer.from(`${jwtHeader}.${claims}`),
+        { key, dsaEncoding: "ieee-p1363" },
+        Buffer.from(signature ?? "", "base64url"),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("isPushServiceEndpoint", () => {
+  it("accepts the browsers' push services", () => {
+    for (const endpoint of [
+      "https://fcm.googleapis.com/fcm/send/abc",
+      "https://updates.push.services.mozilla.com/wpush/v2/abc",
+      "https://web.push.apple.com/abc",
+      "https://wns2-par02p.notify.windows.com/w/?token=abc",
+    ]) {
+      expect(isPushServiceEndpoint(endpoint)).toBe(true);
+    }
+  });
+
+  it("refuses any other host, plain http and explicit ports", () => {
+    for (const endpoint of [
+      "https://internal.example/hook",
+      "https://fcm.googleapis.com.evil.example/abc",
+      "https://evilfcm.googleapis.com/abc",
+      "http://fcm.googleapis.com/fcm/send/abc",
+      "https://fcm.googleapis.com:8443/fcm/send/abc",
+      "not a url",
+    ]) {
+      expect(isPushServiceEndpoint(endpoint)).toBe(false);
+    }
+  });
+});
+
+/* ─── Provider, against a local stand-in push service ─── */
+
+interface StubRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: Buffer;
+}
+
+let server: Server;
+let endpoint: string;
+let requests: StubRequest[];
+let replyStatus: number;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body: Buffer.concat(chunks) });
+      res.writeHead(replyStatus, { Location: "/message/1" });
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/send/abc`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("WebPushProvider", () => {
+  const payload: PushPayload = {
+    title: "Workout 3/6 at 8:05 AM",
+    body: "First workout of the day!",
+    tag: "session-1",
+    actions: [
+      { action: "confirm", title: "Confirm" },
+      { action: "skip", title: "Skip" },
+    ],
+    data: {
+      confirmUrl: "https://app.test/confirm",
+      skipUrl: "https://app.test/skip",
+    },
+  };
+  const target = () => ({
+    endpoint,
+    p256dh: RFC_VECTOR.p256dh,
+    auth: RFC_VECTOR.auth,
+  });
+
+  beforeEach(() => {
+    requests = [];
+    replyStatus = 201;
+  });
+
+  it("posts an encrypted, VAPID-signed message", async () => {
+    const result = await createWebPushProvider(vapid).send(target(), payload);
+
+    expect(result).toEqual({
+      success: true,
+      messageId: "/message/1",
+      error: null,
+      gone: false,
+    });
+
+    const [request] = requests;
+    expect(request?.headers["content-encoding"]).toBe("aes128gcm");
+    expect(request?.headers.ttl).toBe("300");
+    expect(request?.headers.authorization).toMatch(/^vapid t=.+, k=/);
+    expect(request?.body.toString()).not.toContain("Workout");
+  });
+
+  it("flags subscriptions the push service says are gone", async () => {
+    replyStatus = 410;
+
+    const result = await createWebPushProvider(vapid).send(target(), payload);
+
+    expect(result.success).toBe(false);
+    expect(result.gone).toBe(true);
+  });
+
+  it("fails without calling out when VAPID keys are missing", async () => {
+    const result = await createWebPushProvider({
+      ...vapid,
+      privateKey: undefined,
+    }).send(target(), payload);
+
+    expect(result.error).toBe("Push provider is not configured.");
+    expect(requests).toHaveLength(0);
+  });
+});
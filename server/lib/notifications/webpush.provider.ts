@@ -0,0 +1,226 @@
+/**
+ * Web Push Provider
+ *
+ * Implements PushProvider with node's crypto, no SDK:
+ * - Payloads are encrypted for the browser per RFC 8291
+ *   (aes128gcm content coding, RFC 8188) in a single record.
+ * - Requests are signed with a VAPID JWT (RFC 8292) from
+ *   VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY, both base64url.
+ * A 404 or 410 from the push service means the subscription is
+ * gone for good; the result flags it so the caller can delete it.
+ * Only endpoints on the browsers' push services are accepted, so a
+ * stored subscription can't point the server at any other host.
+ */
+
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "crypto";
+import type {
+  PushProvider,
+  PushPayload,
+  PushResult,
+  PushTarget,
+} from "./types";
+
+export interface VapidConfig {
+  publicKey: string | undefined;
+  privateKey: string | undefined;
+  /** Contact for the push service, e.g. mailto:ops@example.com */
+  subject: string;
+}
+
+/** Seconds the push service keeps an undelivered notification */
+const TTL_SECONDS = 5 * 60;
+const VAPID_EXPIRY_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+/** Chrome/Edge (FCM), Firefox (autopush), Safari and legacy Edge (WNS) */
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "push.services.mozilla.com",
+  "push.apple.com",
+  "notify.windows.com",
+];
+
+/** True for an https URL on a known push service, or a subdomain of one */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port !== "" || url.username) {
+    return false;
+  }
+  return PUSH_SERVICE_HOSTS.some(
+    (host) => url.hostname === host || url.hostname.endsWith(`.${host}`),
+  );
+}
+
+function configFromEnv(): VapidConfig {
+  return {
+    publicKey: process.env.VAPID_PUBLIC_KEY,
+    privateKey: process.env.VAPID_PRIVATE_KEY,
+    subject: process.env.VAPID_SUBJECT ?? "mailto:noreply@musclaris.com",
+  };
+}
+
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, "base64url");
+}
+
+/**
+ * Encrypt a payload for one subscription. `salt` and `serverKeys`
+ * are generated fresh unless given, which only tests should do.
+ */
+export function encryptPayload(
+  payload: Buffer,
+  target: Pick<PushTarget, "p256dh" | "auth">,
+  options: { salt?: Buffer; serverPrivateKey?: Buffer } = {},
+): Buffer {
+  const userAgentPublic = fromBase64Url(target.p256dh);
+  const authSecret = fromBase64Url(target.auth);
+  const salt = options.salt ?? randomBytes(16);
+
+  const ecdh = createECDH("prime256v1");
+  if (options.serverPrivateKey) {
+    ecdh.setPrivateKey(options.serverPrivateKey);
+  } else {
+    ecdh.generateKeys();
+  }
+  const serverPublic = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(userAgentPublic);
+
+  /* RFC 8291 §3.3–3.4: mix the auth secret and both public keys in */
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublic,
+    serverPublic,
+  ]);
+  const ikm = Buffer.from(
+    hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32),
+  );
+
+  /* RFC 8188 §2.2–2.3: content encryption key and nonce */
+  const contentKey = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: aes128gcm\0", 16),
+  );
+  const nonce = Buffer.from(
+    hkdfSync("sha256", ikm, salt, "Content-Encoding: nonce\0", 12),
+  );
+
+  /* One record, so it's also the last: pad with the 0x02 delimiter */
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublic.length, 20);
+
+  return Buffer.concat([header, serverPublic, ciphertext]);
+}
+
+/** `Authorization` header value for a push to `endpoint` */
+export function createVapidAuthorization(
+  endpoint: string,
+  config: { publicKey: string; privateKey: string; subject: string },
+  now: Date = new Date(),
+): string {
+  const publicKey = fromBase64Url(config.publicKey);
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: config.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+
+  const encode = (part: object) =>
+    Buffer.from(JSON.stringify(part)).toString("base64url");
+  const unsigned = [
+    encode({ typ: "JWT", alg: "ES256" }),
+    encode({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now.getTime() / 1000) + VAPID_EXPIRY_SECONDS,
+      sub: config.subject,
+    }),
+  ].join(".");
+
+  const signature = sign("sha256", Buffer.from(unsigned), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  }).toString("base64url");
+
+  return `vapid t=${unsigned}.${signature}, k=${config.publicKey}`;
+}
+
+export function createWebPushProvider(
+  config: VapidConfig = configFromEnv(),
+): PushProvider {
+  return {
+    async send(target: PushTarget, payload: PushPayload): Promise<PushResult> {
+      const { publicKey, privateKey, subject } = config;
+      if (!publicKey || !privateKey) {
+        return {
+          success: false,
+          messageId: null,
+          error: "Push provider is not configured.",
+          gone: false,
+        };
+      }
+
+      try {
+        const response = await fetch(target.endpoint, {
+          method: "POST",
+          headers: {
+            Authorization: createVapidAuthorization(target.endpoint, {
+              publicKey,
+              privateKey,
+              subject,
+            }),
+            "Content-Encoding": "aes128gcm",
+            "Content-Type": "application/octet-stream",
+            TTL: String(TTL_SECONDS),
+            Urgency: "high",
+          },
+          body: encryptPayload(Buffer.from(JSON.stringify(payload)), target),
+        });
+
+        if (!response.ok) {
+          const detail = await response.text().catch(() => "");
+          return {
+            success: false,
+            messageId: null,
+            error: detail || `Push send failed: ${response.status}`,
+            gone: response.status === 404 || response.status === 410,
+          };
+        }
+
+        return {
+          success: true,
+          messageId: response.headers.get("location"),
+          error: null,
+          gone: false,
+        };
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Push send failed.";
+        return { success: false, messageId: null, error: message, gone: false };
+      }
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Deferred Session Rescheduling
+ *
+ * Runs right after a session is marked deferred (by the user or
+ * the defer-check cron). Either moves it to a new time today and
+ * puts it back to `scheduled` so the notifier sends it again, or
+ * marks it `missed`.
+ */
+
+import { supabase } from "./supabase";
+import {
+  createSessionRepository,
+  getZonedDayBounds,
+  getZonedParts,
+  planReschedule,
+} from "@myonites/shared";
+import type {
+  AvailabilityBlock,
+  SchedulingRules,
+  Session,
+} from "@myonites/shared";
+
+export type RescheduleResult =
+  | { status: "scheduled"; scheduledTime: string }
+  | { status: "missed"; reason: "max_deferrals" | "no_time" };
+
+export async function rescheduleDeferredSession(
+  sessionId: string,
+  now: Date = new Date(),
+): Promise<RescheduleResult> {
+  const { data: session, error: sessionError } = await supabase
+    .from("sessions")
+    .select(
+      "id, user_id, schedule_id, session_type, scheduled_time, defer_count",
+    )
+    .eq("id", sessionId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new Error("Session not found.");
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("user_profiles")
+    .select(
+      "timezone, work_window_start, work_window_end, default_availability, scheduling_rules",
+    )
+    .eq("id", session.user_id)
+    .single();
+
+  if (profileError || !profile) {
+    throw new Error("Profile not found.");
+  }
+
+  const timezone: string = profile.timezone ?? "UTC";
+  const { date } = getZonedParts(new Date(session.scheduled_time), timezone);
+
+  /* The confirmed day's blocks, else the user's defaults, else the whole window */
+  let availabilityBlocks = profile.default_availability as
+    AvailabilityBlock[] | null;
+  if (session.schedule_id) {
+    const { data: schedule } = await supabase
+      .from("daily_schedules")
+      .select("availability_blocks")
+      .eq("id", session.schedule_id)
+      .single();
+    if (schedule?.availability_blocks) {
+      availabilityBlocks = schedule.availability_blocks as AvailabilityBlock[];
+    }
+  }
+
+  const bounds = getZonedDayBounds(date, timezone);
+  const { data: daySessions, error: dayError } = await supabase
+    .from("sessions")
+    .select("id, session_type, status, scheduled_time")
+    .eq("user_id", session.user_id)
+    .gte("scheduled_time", bounds.start)
+    .lt("scheduled_time", bounds.end);
+
+  if (dayError) {
+    throw new Error(`Failed to load day: ${dayError.message}`);
+  }
+
+  const outcome = planReschedule({
+    session: {
+      id: session.id,
+      sessionType: session.session_type,
+      scheduledTime: session.scheduled_time,
+      deferCount: session.defer_count ?? 0,
+    },
+    daySessions: (daySessions ?? []).map((s) => ({
+      id: s.id,
+      sessionType: s.session_type as Session["sessionType"],
+      status: s.status as Session["status"],
+      scheduledTime: s.scheduled_time,
+    })),
+    workWindowStart: profile.work_window_start,
+    workWindowEnd: profile.work_window_end,
+    availabilityBlocks: availabilityBlocks ?? [
+      { start: profile.work_window_start, end: profile.work_window_end },
+    ],
+    timezone,
+    now,
+    rules: profile.scheduling_rules as Partial<SchedulingRules> | null,
+  });
+
+  const sessionRepo = createSessionRepository(supabase);
+
+  if (outcome.action === "miss") {
+    await sessionRepo.updateStatus(sessionId, "missed");
+    return { status: "missed", reason: outcome.reason };
+  }
+
+  await sessionRepo.updateStatus(sessionId, "scheduled", {
+    scheduledTime: outcome.time,
+    deferCount: (session.defer_count ?? 0) + 1,
+    notificationSentAt: null,
+  });
+
+  return { status: "scheduled", scheduledTime: outcome.time };
+}
@@ -12,7 +12,12 @@ vi.mock("./supabase", () => {
   };
 });
 
-import { generateToken, validateToken } from "./tokens";
+import {
+  findSessionByShortCode,
+  generateToken,
+  toShortCode,
+  validateToken,
+} from "./tokens";
 import { supabase } from "./supabase";
 
 function getMocks() {
@@ -146,3 +151,58 @@ describe("validateToken", () => {
     expect(result.valid).toBe(true);
   });
 });
+
+describe("findSessionByShortCode", () => {
+  const token = "0123456789abcdef".repeat(4);
+
+  function mockLookup(result: { data: unknown; error: unknown }) {
+    const mockFrom = vi.mocked(supabase).from as ReturnType<typeof vi.fn>;
+    const mockLike = vi.fn().mockReturnValue({
+      limit: vi.fn().mockResolvedValue(result),
+    });
+    mockFrom.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ like: mockLike }),
+      }),
+    });
+    return { mockFrom, mockLike };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("finds the notified session whose token starts with the code", async () => {
+    const { mockLike } = mockLookup({
+      data: [{ id: "session-1", notification_token: token }],
+      error: null,
+    });
+
+    const result = await findSessionByShortCode(toShortCode(token));
+
+    expect(result).toEqual({ sessionId: "session-1", token });
+    expect(mockLike).toHaveBeenCalledWith(
+      "notification_token",
+      "0123456789abcdef%",
+    );
+  });
+
+  it("returns null when more than one session matches", async () => {
+    mockLookup({
+      data: [
+        { id: "session-1", notification_token: token },
+        { id: "session-2", notification_token: token },
+      ],
+      error: null,
+    });
+
+    expect(await findSessionByShortCode(toShortCode(token))).toBeNull();
+  });
+
+  it("rejects malformed codes without querying", async () => {
+    const { mockFrom } = mockLookup({ data: [], error: null });
+
+    expect(await findSessionByShortCode("abc%")).toBeNull();
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+});
@@ -3,6 +3,9 @@ import { supabase } from "./supabase";
 
 const TOKEN_EXPIRY_MINUTES = 10;
 
+/** Hex characters of the token used in SMS links (64 bits) */
+export const SHORT_CODE_LENGTH = 16;
+
 export function generateToken(): string {
   return randomBytes(32).toString("hex");
 }
@@ -38,3 +41,35 @@ export async function validateToken(
 
   return { valid: true, error: null };
 }
+
+/** The leading part of a token, short enough for an SMS link */
+export function toShortCode(token: string): string {
+  return token.slice(0, SHORT_CODE_LENGTH);
+}
+
+/**
+ * Find the notified session whose token starts with a short code.
+ * Returns null unless exactly one matches, so a collision never
+ * acts on the wrong session.
+ */
+export async function findSessionByShortCode(
+  code: string,
+): Promise<{ sessionId: string; token: string } | null> {
+  if (!/^[a-f0-9]+$/.test(code) || code.length !== SHORT_CODE_LENGTH) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("id, notification_token")
+    .eq("status", "notified")
+    .like("notification_token", `${code}%`)
+    .limit(2);
+
+  if (error || !data || data.length !== 1) return null;
+
+  const [session] = data;
+  return session
+    ? { sessionId: session.id, token: session.notification_token }
+    : null;
+}